@@ -0,0 +1,250 @@
+import http from 'http';
+import crypto from 'crypto';
+import qrcode from 'qrcode-terminal';
+import { AppConfig } from '../config/config';
+import { ChatTransport } from '../transport/types';
+import { RateLimiter } from '../services/rateLimiter';
+import { ChatSettingsStore } from '../services/chatSettingsStore';
+import { AudioService } from '../services/audioService';
+import { listQueryLogs, summarizeQueryLog } from '../services/llmLogReader';
+import { renderLoginPage, renderStatusPage } from './statusPage';
+
+export interface AdminServices {
+    transport: ChatTransport;
+    rateLimiter: RateLimiter;
+    chatSettings: ChatSettingsStore;
+    audioService: AudioService;
+    startedAt: Date;
+}
+
+interface AdminRequest {
+    query: URLSearchParams;
+    body: Record<string, string | undefined>;
+}
+
+type Route = (request: AdminRequest) => Promise<unknown> | unknown;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const COOKIE_NAME = 'golem_admin';
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_QUERIES = 200;
+
+function parseCookies(header: string | undefined): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    for (const part of (header || '').split(';')) {
+        const index = part.indexOf('=');
+        if (index > 0) cookies[part.substring(0, index).trim()] = decodeURIComponent(part.substring(index + 1).trim());
+    }
+    return cookies;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, string | undefined>> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf-8');
+            if (!text) return resolve({});
+            try {
+                if ((req.headers['content-type'] || '').includes('application/json')) resolve(JSON.parse(text));
+                else resolve(Object.fromEntries(new URLSearchParams(text)));
+            } catch {
+                reject(new HttpError(400, 'Invalid request body'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Local HTTP status page and JSON API for operating the bot: connection health, the QR code when the
+ * WhatsApp session needs re-linking, recent queries from .llm_logs, rate limiter usage, and actions
+ * (pause globally or per chat, clear the transcription cache). Every request needs the token from the
+ * `admin.tokenEnvVar` env var, as a Bearer header or the cookie set by opening `/?token=<token>`.
+ */
+export class AdminServer {
+    private server?: http.Server;
+    private token = '';
+    private routes: Record<string, Route>;
+
+    constructor(private config: AppConfig, private services: AdminServices) {
+        this.routes = {
+            'GET /api/health': () => this.getHealth(),
+            'GET /api/qr': () => this.getQr(),
+            'GET /api/queries': ({ query }) => this.getRecentQueries(Number(query.get('limit')) || undefined),
+            'GET /api/rate-limits': () => this.services.rateLimiter.getUsage(this.config.bot.rateLimit),
+            'GET /api/chats': () => this.getChats(),
+            'POST /api/pause': ({ body }) => this.setMuted(true, body.chatId),
+            'POST /api/resume': ({ body }) => this.setMuted(false, body.chatId),
+            'POST /api/transcriptions/clear': () => ({ cleared: this.services.audioService.clearCache() })
+        };
+    }
+
+    /**
+     * Starts listening on `admin.host`:`admin.port`. Failures (no token, port in use) are logged; the bot keeps running.
+     */
+    public async start(): Promise<void> {
+        await this.stop();
+        const { host, port, tokenEnvVar } = this.config.admin;
+        const token = process.env[tokenEnvVar];
+        if (!token) {
+            console.error(`[ADMIN] Not started: set ${tokenEnvVar} to the token for the admin page`);
+            return;
+        }
+        this.token = token;
+
+        const server = http.createServer((req, res) => this.handle(req, res));
+        try {
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(port, host, () => resolve());
+            });
+        } catch (e) {
+            console.error(`[ADMIN] Failed to listen on ${host}:${port}`, e);
+            return;
+        }
+        this.server = server;
+        console.log(`[ADMIN] Status page at http://${host}:${port}/`);
+    }
+
+    public async stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) return;
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    private isAuthorized(req: http.IncomingMessage, candidate?: string): boolean {
+        const header = req.headers.authorization;
+        const provided = candidate
+            ?? (header?.startsWith('Bearer ') ? header.substring(7) : undefined)
+            ?? parseCookies(req.headers.cookie)[COOKIE_NAME];
+        if (!provided) return false;
+        // Compared as hashes so the lengths match and the comparison takes the same time
+        const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+        return crypto.timingSafeEqual(hash(provided), hash(this.token));
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const isPage = url.pathname === '/';
+        // The status page's buttons post forms with the cookie; they go back to the page
+        const isForm = req.method === 'POST' && !req.headers.authorization && (req.headers['content-type'] || '').includes('application/x-www-form-urlencoded');
+
+        try {
+            // Opening /?token=... logs in: the token moves to a cookie and out of the address bar
+            const queryToken = url.searchParams.get('token');
+            if (isPage && queryToken !== null) {
+                if (!this.isAuthorized(req, queryToken)) throw new HttpError(401, 'Invalid token');
+                res.writeHead(303, {
+                    'Set-Cookie': `${COOKIE_NAME}=${encodeURIComponent(queryToken)}; HttpOnly; SameSite=Strict; Path=/`,
+                    Location: '/'
+                });
+                res.end();
+                return;
+            }
+
+            if (!this.isAuthorized(req)) throw new HttpError(401, 'Missing or invalid token');
+
+            if (isPage && req.method === 'GET') {
+                this.sendHtml(res, 200, renderStatusPage({
+                    health: this.getHealth(),
+                    qr: this.getQr(),
+                    chats: this.getChats(),
+                    rateLimits: this.services.rateLimiter.getUsage(this.config.bot.rateLimit),
+                    queries: this.getRecentQueries()
+                }));
+                return;
+            }
+
+            const route = this.routes[`${req.method} ${url.pathname}`];
+            if (!route) throw new HttpError(404, `Not found: ${req.method} ${url.pathname}`);
+
+            const body = req.method === 'POST' ? await readBody(req) : {};
+            const result = await route({ query: url.searchParams, body });
+            if (isForm) {
+                res.writeHead(303, { Location: '/' });
+                res.end();
+                return;
+            }
+            // Health checks can go by the status code alone
+            const status = url.pathname === '/api/health' && (result as { status: string }).status !== 'ok' ? 503 : 200;
+            this.sendJson(res, status, result);
+        } catch (e: any) {
+            const status = e instanceof HttpError ? e.status : 500;
+            if (status === 500) console.error(`[ADMIN] ${req.method} ${url.pathname} failed`, e);
+            const message = e instanceof HttpError ? e.message : 'Internal error';
+            if (isPage) this.sendHtml(res, status, renderLoginPage(message));
+            else this.sendJson(res, status, { error: message });
+        }
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify(body, null, 2));
+    }
+
+    private sendHtml(res: http.ServerResponse, status: number, html: string) {
+        res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store', 'X-Frame-Options': 'DENY' });
+        res.end(html);
+    }
+
+    public getHealth() {
+        const { transport, chatSettings, startedAt } = this.services;
+        const connection = transport.getStatus();
+        return {
+            status: connection.state === 'ready' ? 'ok' : 'degraded',
+            transport: { name: transport.name, state: connection.state, since: connection.since, detail: connection.detail },
+            paused: chatSettings.isGloballyMuted(),
+            uptimeSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+            memoryMB: Math.round(process.memoryUsage().rss / 1024 / 1024)
+        };
+    }
+
+    public getQr() {
+        const { state, since, qr } = this.services.transport.getStatus();
+        if (!qr) return { state, since };
+        // qrcode-terminal calls back synchronously
+        let ascii = '';
+        qrcode.generate(qr, { small: true }, output => ascii = output);
+        return { state, since, qr, ascii };
+    }
+
+    public getRecentQueries(limit: number = this.config.admin.recentQueries) {
+        const count = Math.min(Math.max(1, limit), MAX_QUERIES);
+        return listQueryLogs({ last: count }).map(summarizeQueryLog).reverse();
+    }
+
+    public getChats() {
+        const { chatSettings } = this.services;
+        return { paused: chatSettings.isGloballyMuted(), chats: chatSettings.getAll() };
+    }
+
+    private setMuted(muted: boolean, chatId?: string) {
+        const { chatSettings } = this.services;
+        chatId = chatId?.trim();
+        if (chatId) {
+            chatSettings.update(chatId, { muted: muted || undefined });
+            console.log(`[ADMIN] Chat ${chatId} ${muted ? 'muted' : 'unmuted'}`);
+        } else {
+            chatSettings.setGloballyMuted(muted);
+            console.log(`[ADMIN] Bot ${muted ? 'paused' : 'resumed'} globally`);
+        }
+        return this.getChats();
+    }
+}
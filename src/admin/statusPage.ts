@@ -0,0 +1,104 @@
+import type { AdminServer } from './adminServer';
+import { RateLimitUsage } from '../services/rateLimiter';
+import { QuerySummary } from '../services/llmLogReader';
+
+export interface StatusPageData {
+    health: ReturnType<AdminServer['getHealth']>;
+    qr: ReturnType<AdminServer['getQr']>;
+    chats: ReturnType<AdminServer['getChats']>;
+    rateLimits: RateLimitUsage[];
+    queries: QuerySummary[];
+}
+
+// Shown without the rest of the answer; the full query is in `npm run logs -- show <id>`
+const MAX_CELL_CHARS = 200;
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin-bottom: 1em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; font-size: 0.9em; }
+td.text { max-width: 32em; white-space: pre-wrap; }
+.ok { color: #070; } .bad { color: #b00; }
+form { display: inline; }
+pre.qr { line-height: 1; font-size: 10px; }
+`;
+
+function escapeHtml(text: unknown): string {
+    return String(text ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+function shorten(text: string | undefined, max: number = MAX_CELL_CHARS): string {
+    if (!text) return '';
+    return text.length > max ? `${text.substring(0, max)}…` : text;
+}
+
+function formatTime(date: Date | string): string {
+    return new Date(date).toISOString().replace('T', ' ').substring(0, 19);
+}
+
+function button(action: string, label: string, chatId?: string): string {
+    const field = chatId ? `<input type="hidden" name="chatId" value="${escapeHtml(chatId)}">` : '';
+    return `<form method="post" action="${action}">${field}<button>${escapeHtml(label)}</button></form>`;
+}
+
+function page(title: string, body: string, refreshSeconds?: number): string {
+    const refresh = refreshSeconds ? `<meta http-equiv="refresh" content="${refreshSeconds}">` : '';
+    return `<!DOCTYPE html><html><head><meta charset="utf-8">${refresh}<title>${escapeHtml(title)}</title><style>${STYLE}</style></head><body>${body}</body></html>`;
+}
+
+function renderHealth({ health, qr }: StatusPageData): string {
+    const { transport } = health;
+    const lines = [
+        `<p>Transport: ${escapeHtml(transport.name)} <b class="${health.status === 'ok' ? 'ok' : 'bad'}">${escapeHtml(transport.state)}</b> since ${formatTime(transport.since)}${transport.detail ? ` (${escapeHtml(transport.detail)})` : ''}</p>`,
+        `<p>Uptime: ${Math.floor(health.uptimeSeconds / 3600)}h ${Math.floor(health.uptimeSeconds % 3600 / 60)}m, memory: ${health.memoryMB} MB</p>`
+    ];
+    if ('ascii' in qr) {
+        lines.push(`<p>Scan with WhatsApp (Linked devices → Link a device). The code changes every few seconds; this page reloads.</p>`);
+        lines.push(`<pre class="qr">${escapeHtml(qr.ascii)}</pre>`);
+    }
+    return `<h2>Health</h2>${lines.join('\n')}`;
+}
+
+function renderControls({ chats }: StatusPageData): string {
+    const muted = Object.entries(chats.chats).filter(([, settings]) => settings.muted).map(([id]) => id);
+    return `<h2>Controls</h2>
+<p>Bot: <b class="${chats.paused ? 'bad' : 'ok'}">${chats.paused ? 'paused' : 'answering'}</b> ${chats.paused ? button('/api/resume', 'Resume') : button('/api/pause', 'Pause everywhere')}</p>
+<p><form method="post" action="/api/pause"><input name="chatId" placeholder="Chat ID (…@g.us)" required size="32"> <button>Mute chat</button></form></p>
+<p>Muted chats: ${muted.length === 0 ? 'none' : muted.map(id => `${escapeHtml(id)} ${button('/api/resume', 'Unmute', id)}`).join(', ')}</p>
+<p>${button('/api/transcriptions/clear', 'Clear transcription cache')}</p>`;
+}
+
+function renderRateLimits({ rateLimits }: StatusPageData): string {
+    if (rateLimits.length === 0) return `<h2>Rate limits</h2><p>No requests in the current windows.</p>`;
+    const rows = rateLimits.map(u => `<tr><td>${escapeHtml(u.scope)}</td><td>${escapeHtml(u.id)}</td><td>${escapeHtml(u.bucket)}</td><td>${u.requests} / ${u.windowHours}h</td><td>${formatTime(u.lastRequestAt)}</td></tr>`);
+    return `<h2>Rate limits</h2><table><tr><th>Scope</th><th>ID</th><th>Bucket</th><th>Requests</th><th>Last</th></tr>${rows.join('')}</table>`;
+}
+
+function renderQueries({ queries }: StatusPageData): string {
+    if (queries.length === 0) return `<h2>Recent queries</h2><p>None logged.</p>`;
+    const rows = queries.map(q => {
+        const plan = q.plan ? [q.plan.target_model, q.plan.is_abuse && 'abuse', q.plan.needs_image && 'image', q.plan.needs_audio && 'audio', q.plan.search_queries.length > 0 && 'search'].filter(Boolean).join(', ') : '';
+        const latency = q.latencyMs !== undefined ? `${(q.latencyMs / 1000).toFixed(1)}s` : '';
+        return `<tr><td>${escapeHtml(q.dirName.substring(0, 13))}<br><small>${escapeHtml(q.queryId)}</small></td>`
+            + `<td>${escapeHtml(q.senderName || q.senderId)}<br><small>${escapeHtml(q.chatId)}</small></td>`
+            + `<td class="text">${escapeHtml(shorten(q.message))}</td>`
+            + `<td>${escapeHtml(plan)}</td>`
+            + `<td class="text">${escapeHtml(shorten(q.response))}</td>`
+            + `<td>${latency}</td>`
+            + `<td class="bad">${q.errors.map(e => escapeHtml(shorten(e, 100))).join('<br>')}</td></tr>`;
+    });
+    return `<h2>Recent queries</h2><table><tr><th>Time</th><th>From</th><th>Message</th><th>Plan</th><th>Response</th><th>Latency</th><th>Errors</th></tr>${rows.join('')}</table>`;
+}
+
+/**
+ * The admin status page: the JSON endpoints' data as HTML, with buttons for the actions.
+ */
+export function renderStatusPage(data: StatusPageData): string {
+    const body = [`<h1>Whatsapp Golem 🗿</h1>`, renderHealth(data), renderControls(data), renderRateLimits(data), renderQueries(data)].join('\n');
+    // Reload often while a QR code is waiting to be scanned
+    return page('Golem status', body, 'ascii' in data.qr ? 10 : 60);
+}
+
+export function renderLoginPage(error: string): string {
+    return page('Golem status', `<h1>Whatsapp Golem 🗿</h1><p class="bad">${escapeHtml(error)}</p><p>Open <code>/?token=&lt;token&gt;</code> with the token from the admin token env var.</p>`);
+}
@@ -1,60 +1,241 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { LLMFactory } from '../services/llmFactory';
-import { AppConfig } from '../config/config';
-import { HumanMessage, SystemMessage, BaseMessage } from '@langchain/core/messages';
+import { isBadRequest } from '../services/resilientChatModel';
+import { AppConfig, ModelConfig } from '../config/config';
+import { HumanMessage, SystemMessage, BaseMessage, AIMessage, ToolMessage } from '@langchain/core/messages';
+import { ToolCall } from '@langchain/core/messages/tool';
+import { StructuredToolInterface } from '@langchain/core/tools';
 import fs from 'fs-extra';
 import path from 'path';
 import { PlannerOutput } from './planner';
+import { UsageAttribution } from '../services/usageLedger';
+import { MediaPayload } from '../transport/types';
+import { appendQueryLog } from '../utils/logUtils';
+import { downscaleImage, getImageSize } from '../utils/imageUtils';
+import { getMessageText } from '../utils/formatUtils';
+import { DEFAULT_PERSONA, Persona, PersonaLibrary } from './personaLibrary';
+
+export interface ExecuteOptions {
+    attribution?: UsageAttribution;
+    persona?: string;
+    /** Tools for the agent loop. Without tools the executor makes a single model call. */
+    tools?: StructuredToolInterface[];
+    /** Model choices of the chat, when they differ from the global config. */
+    models?: AppConfig['models'];
+}
+
+interface SelectedModel {
+    model: BaseChatModel;
+    modelConfig: ModelConfig;
+}
+
+/**
+ * The media of an `image_url` content part with a data URL (images and PDFs), if it is one.
+ */
+function getMediaPart(part: any): MediaPayload | undefined {
+    if (part?.type !== 'image_url') return undefined;
+    const url: string | undefined = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+    const match = url?.match(/^data:([^;,]+);base64,(.*)$/s);
+    return match ? { mimetype: match[1], data: match[2] } : undefined;
+}
+
+function countMediaParts(messages: BaseMessage[]): number {
+    return messages.reduce((count, message) =>
+        count + (Array.isArray(message.content) ? message.content.filter(part => getMediaPart(part)).length : 0), 0);
+}
+
+function mediaPlaceholder(media: MediaPayload, reason: string): { type: "text"; text: string } {
+    const kind = media.mimetype === 'application/pdf' ? 'PDF' : 'IMAGE';
+    return { type: "text", text: `[${kind} OMITTED: ${reason}]` };
+}
+
+/**
+ * Rewrites the media parts of the messages, newest message first (so the current message's media
+ * wins over old history media when there is a limit). Messages without media are kept as they are.
+ */
+async function mapMediaParts(messages: BaseMessage[], replace: (media: MediaPayload, part: any) => Promise<any>): Promise<BaseMessage[]> {
+    const result: BaseMessage[] = [];
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const message = messages[i];
+        if (!Array.isArray(message.content) || !message.content.some(part => getMediaPart(part))) {
+            result.unshift(message);
+            continue;
+        }
+
+        const parts: any[] = [];
+        for (const part of message.content) {
+            const media = getMediaPart(part);
+            parts.push(media ? await replace(media, part) : part);
+        }
+        result.unshift(message instanceof AIMessage ? new AIMessage({ content: parts }) : new HumanMessage({ content: parts }));
+    }
+    return result;
+}
 
 export class ExecutorAgent {
-    private promptTemplate: string;
+    // Instructions every persona gets (context format, tools, reminders)
+    private sharedPrompt: string;
     private techStackPrompt: string;
+    private personas: PersonaLibrary;
 
     private config: AppConfig;
     private fastModel: BaseChatModel;
     private reasoningModel: BaseChatModel;
+    private visionModel?: BaseChatModel;
+    // Models of chats that override the global model choices, keyed by their config
+    private chatModels: Map<string, BaseChatModel> = new Map();
 
-    constructor(config: AppConfig) {
+    constructor(config: AppConfig, models?: { fast?: BaseChatModel; reasoning?: BaseChatModel; vision?: BaseChatModel }, personas?: PersonaLibrary) {
         this.config = config;
-        this.fastModel = LLMFactory.createLLM(config.models.executorFast);
+        this.fastModel = models?.fast ?? LLMFactory.createLLM(config.models.executorFast);
         // Optimization: Lazy init or just init both. Init both is safer for now.
-        this.reasoningModel = LLMFactory.createLLM(config.models.executorReasoning);
+        this.reasoningModel = models?.reasoning ?? LLMFactory.createLLM(config.models.executorReasoning);
+        this.visionModel = models?.vision ?? (config.models.executorVision && LLMFactory.createLLM(config.models.executorVision));
 
         const promptPath = path.join(process.cwd(), 'src', 'prompts', 'executor.txt');
-        this.promptTemplate = fs.readFileSync(promptPath, 'utf-8');
+        this.sharedPrompt = fs.readFileSync(promptPath, 'utf-8').trim();
+        this.personas = personas ?? new PersonaLibrary();
 
         const techPath = path.join(process.cwd(), 'src', 'prompts', 'tech_stack.txt');
         this.techStackPrompt = fs.readFileSync(techPath, 'utf-8');
     }
 
-    private getModel(plan: PlannerOutput): BaseChatModel {
+    /**
+     * Rebuilds the models whose config changed in a config reload.
+     */
+    public reloadModels(previous: AppConfig) {
+        const models = this.config.models;
+        if (JSON.stringify(previous.models.executorFast) !== JSON.stringify(models.executorFast)) {
+            console.log(`[EXECUTOR] Fast model changed to ${models.executorFast.provider}/${models.executorFast.modelName}`);
+            this.fastModel = LLMFactory.createLLM(models.executorFast);
+        }
+        if (JSON.stringify(previous.models.executorReasoning) !== JSON.stringify(models.executorReasoning)) {
+            console.log(`[EXECUTOR] Reasoning model changed to ${models.executorReasoning.provider}/${models.executorReasoning.modelName}`);
+            this.reasoningModel = LLMFactory.createLLM(models.executorReasoning);
+        }
+        if (JSON.stringify(previous.models.executorVision) !== JSON.stringify(models.executorVision)) {
+            console.log(`[EXECUTOR] Vision model changed to ${models.executorVision ? `${models.executorVision.provider}/${models.executorVision.modelName}` : 'none (fast model)'}`);
+            this.visionModel = models.executorVision && LLMFactory.createLLM(models.executorVision);
+        }
+        this.chatModels.clear();
+    }
+
+    /**
+     * Picks the model for a request. Requests with images or PDFs go to the vision model when one is configured,
+     * whatever the plan asked for, since the fast and reasoning models may not read them.
+     */
+    private getModel(plan: PlannerOutput, models: AppConfig['models'] = this.config.models, mediaCount: number = 0): SelectedModel {
+        if (mediaCount > 0 && models.executorVision) {
+            console.log(`[EXECUTOR] Selected Model: VISION (Reason: ${mediaCount} image/PDF part(s), ${models.executorVision.modelName})`);
+            return { model: this.getChatModel(models.executorVision, this.config.models.executorVision, this.visionModel), modelConfig: models.executorVision };
+        }
+
         if (plan.target_model === 'reasoning') {
-            console.log(`[EXECUTOR] Selected Model: REASONING (Reason: ${plan.target_model})`);
-            return this.reasoningModel;
+            console.log(`[EXECUTOR] Selected Model: REASONING (Reason: ${plan.target_model}, ${models.executorReasoning.modelName})`);
+            return { model: this.getChatModel(models.executorReasoning, this.config.models.executorReasoning, this.reasoningModel), modelConfig: models.executorReasoning };
         }
 
-        console.log(`[EXECUTOR] Selected Model: FAST (Reason: ${plan.target_model})`);
-        return this.fastModel;
+        console.log(`[EXECUTOR] Selected Model: FAST (Reason: ${plan.target_model}, ${models.executorFast.modelName})`);
+        return { model: this.getChatModel(models.executorFast, this.config.models.executorFast, this.fastModel), modelConfig: models.executorFast };
+    }
+
+    /**
+     * The model for a chat's model config. Reuses the default model unless the chat overrides it.
+     */
+    private getChatModel(modelConfig: ModelConfig, defaultConfig: ModelConfig | undefined, defaultModel: BaseChatModel | undefined): BaseChatModel {
+        const key = JSON.stringify(modelConfig);
+        if (defaultModel && key === JSON.stringify(defaultConfig)) return defaultModel;
+
+        let model = this.chatModels.get(key);
+        if (!model) {
+            model = LLMFactory.createLLM(modelConfig);
+            this.chatModels.set(key, model);
+        }
+        return model;
     }
 
-    private buildSystemPrompt(plan: PlannerOutput): string {
-        let fullPrompt = this.promptTemplate;
+    /**
+     * Fits an image within `vision.maxImageDimension` and `vision.maxImageBytes`, downscaling it if needed.
+     * Returns undefined if it is still too large. Without ffmpeg, images within the byte limit are sent as they are.
+     */
+    private async fitImage(media: MediaPayload): Promise<MediaPayload | undefined> {
+        const { maxImageDimension, maxImageBytes } = this.config.vision;
+        const buffer = Buffer.from(media.data, 'base64');
+        if (media.mimetype === 'application/pdf') {
+            return buffer.length <= maxImageBytes ? media : undefined;
+        }
 
-        // 1. Extract Personas
-        const abuseMarker = "[ABUSE_PERSONA]";
-        const standardMarker = "[STANDARD_PERSONA]";
+        const size = getImageSize(buffer);
+        if (buffer.length <= maxImageBytes && (!size || Math.max(size.width, size.height) <= maxImageDimension)) {
+            return media;
+        }
 
+        const downscaled = await downscaleImage(media, maxImageDimension);
+        if (downscaled && Buffer.byteLength(downscaled.data, 'base64') <= maxImageBytes) {
+            console.log(`[EXECUTOR] Downscaled ${size ? `${size.width}x${size.height} ` : ''}image (${buffer.length} -> ${Buffer.byteLength(downscaled.data, 'base64')} bytes)`);
+            return downscaled;
+        }
+        return buffer.length <= maxImageBytes ? media : undefined;
+    }
+
+    /**
+     * Applies the image limits to the context: at most `vision.maxImages` images/PDFs (the newest are kept),
+     * each fitted to the size limits. A model configured with `supportsImages: false` gets text placeholders only.
+     */
+    private async prepareMedia(contextMessages: BaseMessage[], modelConfig: ModelConfig): Promise<BaseMessage[]> {
+        if (modelConfig.supportsImages === false) {
+            return this.stripMedia(contextMessages, `${modelConfig.modelName} cannot read images or PDFs`);
+        }
+
+        const { maxImages } = this.config.vision;
+        let kept = 0;
+        return mapMediaParts(contextMessages, async (media, part) => {
+            if (kept >= maxImages) {
+                return mediaPlaceholder(media, `over the limit of ${maxImages} per request`);
+            }
+            const fitted = await this.fitImage(media);
+            if (!fitted) {
+                return mediaPlaceholder(media, `too large to send to the model`);
+            }
+            kept++;
+            return fitted === media ? part : { type: "image_url", image_url: { url: `data:${fitted.mimetype};base64,${fitted.data}` } };
+        });
+    }
+
+    /**
+     * Text-only version of the context, for models that cannot read images.
+     */
+    private stripMedia(messages: BaseMessage[], reason: string): Promise<BaseMessage[]> {
+        return mapMediaParts(messages, async media => mediaPlaceholder(media, `${reason}. Say you could not look at it if it matters for the answer`));
+    }
+
+    /**
+     * Personas a chat can select. Abuse variants are chosen by the planner only.
+     */
+    public listPersonas(): Persona[] {
+        return this.personas.list();
+    }
+
+    /**
+     * The persona with this name, or the default persona if it doesn't exist.
+     */
+    public getPersona(name?: string): Persona {
+        return this.personas.get(name);
+    }
+
+    private buildSystemPrompt(plan: PlannerOutput, personaName: string = DEFAULT_PERSONA): string {
+        const selected = this.personas.get(personaName);
+
+        // 1. Persona prompt (its abuse variant when the planner flagged abuse)
         let persona = "";
 
         if (plan.is_abuse) {
-            const parts = fullPrompt.split(abuseMarker);
-            if (parts.length > 1) persona = parts[1].trim();
-            else persona = "You are currently in abuse mode. Be snarky and dismissive.";
+            persona = this.personas.getAbuseVariant(selected)?.prompt || "You are currently in abuse mode. Be snarky and dismissive.";
         } else {
-            // Extract standard persona (between STANDARD and ABUSE)
-            const afterStandard = fullPrompt.split(standardMarker)[1] || fullPrompt;
-            const beforeAbuse = afterStandard.split(abuseMarker)[0];
-            persona = beforeAbuse.trim();
+            persona = `${selected.prompt}\n${this.sharedPrompt}`;
+            if (selected.language) {
+                persona += `\n- Language: Always answer in ${selected.language}, whatever language the user writes in.`;
+            }
         }
 
         // 2. Inject Self-Reflection Tech Stack
@@ -62,29 +243,144 @@ export class ExecutorAgent {
             persona += `\n\n${this.techStackPrompt}`;
         }
 
+        // 3. Tell the model when it is working from the default plan, so it doesn't trust missing context
+        if (plan.fallback_reason) {
+            persona += `\n\n[FALLBACK PLAN] The planner failed for this message, so a default plan is used (fast model, last 24 hours of history, no media or search). If the answer needs older messages, media or a search, use your tools or say what is missing instead of guessing.`;
+        }
+
         return persona;
     }
 
-    public async execute(plan: PlannerOutput, contextMessages: BaseMessage[], queryId: string, logTimestamp: string): Promise<string> {
-        const model = this.getModel(plan);
-        const systemPrompt = this.buildSystemPrompt(plan);
+    /**
+     * Describes an image (or answers a question about it) with the vision model, or the fast model if there is none.
+     * Used by the describe_image tool. `models` are the chat's model choices.
+     */
+    public async describeImage(media: MediaPayload, question: string, queryId: string, logTimestamp: string, attribution: UsageAttribution = {}, models: AppConfig['models'] = this.config.models): Promise<string> {
+        const { model, modelConfig } = models.executorVision
+            ? { model: this.getChatModel(models.executorVision, this.config.models.executorVision, this.visionModel), modelConfig: models.executorVision }
+            : { model: this.getChatModel(models.executorFast, this.config.models.executorFast, this.fastModel), modelConfig: models.executorFast };
+        if (modelConfig.supportsImages === false) {
+            throw new Error(`The configured model (${modelConfig.modelName}) cannot read images`);
+        }
 
-        const messages = [
-            new SystemMessage(systemPrompt),
-            ...contextMessages
-        ];
+        const fitted = await this.fitImage(media);
+        if (!fitted) {
+            throw new Error(`The image is too large (limit ${this.config.vision.maxImageBytes} bytes)`);
+        }
 
-        console.log(`[EXECUTOR] Executing...`);
-        const response = await model.invoke(messages, {
+        const response = await model.invoke([
+            new HumanMessage({
+                content: [
+                    { type: "text", text: question },
+                    { type: "image_url", image_url: { url: `data:${fitted.mimetype};base64,${fitted.data}` } }
+                ]
+            })
+        ], {
             metadata: {
-                agent: "Executor",
-                plan_model: plan.target_model,
-                is_abuse: plan.is_abuse,
-                is_self_reflection: plan.is_self_reflection,
+                agent: "ImageDescriber",
+                model: modelConfig.modelName,
                 queryId: queryId,
-                logTimestamp: logTimestamp
+                logTimestamp: logTimestamp,
+                senderId: attribution.senderId,
+                chatId: attribution.chatId
             }
         });
-        return response.content as string;
+        return getMessageText(response.content);
+    }
+
+    public async execute(plan: PlannerOutput, contextMessages: BaseMessage[], queryId: string, logTimestamp: string, options: ExecuteOptions = {}): Promise<string> {
+        const { model, modelConfig } = this.getModel(plan, options.models, countMediaParts(contextMessages));
+        const systemPrompt = this.buildSystemPrompt(plan, options.persona);
+        const attribution = options.attribution || {};
+
+        let messages: BaseMessage[] = [
+            new SystemMessage(systemPrompt),
+            ...await this.prepareMedia(contextMessages, modelConfig)
+        ];
+
+        const tools = options.tools || [];
+        const canUseTools = tools.length > 0 && typeof model.bindTools === 'function';
+        const maxSteps = canUseTools ? Math.max(1, this.config.tools.maxSteps) : 1;
+
+        console.log(`[EXECUTOR] Executing...${canUseTools ? ` (tools: ${tools.map(t => t.name).join(', ')})` : ''}`);
+
+        for (let step = 1; ; step++) {
+            const isLastStep = step >= maxSteps;
+            // On the last step the model must answer with what it has
+            const runnable = canUseTools
+                ? model.bindTools!(tools, isLastStep ? { tool_choice: "none" } : undefined)
+                : model;
+
+            const invoke = () => runnable.invoke(messages, {
+                metadata: {
+                    agent: "Executor",
+                    step: step,
+                    model: modelConfig.modelName,
+                    plan_model: plan.target_model,
+                    is_abuse: plan.is_abuse,
+                    is_self_reflection: plan.is_self_reflection,
+                    persona: options.persona || DEFAULT_PERSONA,
+                    queryId: queryId,
+                    logTimestamp: logTimestamp,
+                    senderId: attribution.senderId,
+                    chatId: attribution.chatId
+                }
+            }) as Promise<AIMessage>;
+
+            let response: AIMessage;
+            try {
+                response = await invoke();
+            } catch (e: any) {
+                // Providers reject multimodal input they don't support (or an image they can't decode) with a 400; answer from
+                // the text instead. Anything else (outage, rate limit, auth) would fail the same way without the media.
+                if (countMediaParts(messages) === 0 || !isBadRequest(e)) throw e;
+                console.warn(`[EXECUTOR] ${modelConfig.modelName} rejected the image/PDF content (${e?.message || e}), retrying without it`);
+                messages = await this.stripMedia(messages, `the model could not read it`);
+                response = await invoke();
+            }
+
+            const toolCalls = response.tool_calls || [];
+            if (toolCalls.length === 0 || isLastStep) {
+                return getMessageText(response.content);
+            }
+
+            messages.push(response);
+            for (const call of toolCalls) {
+                const output = await this.runTool(tools, call, step, queryId, logTimestamp);
+                messages.push(new ToolMessage({ content: output, tool_call_id: call.id || call.name, name: call.name }));
+            }
+        }
+    }
+
+    /**
+     * Runs a single tool call and records it in the query's tool_calls.jsonl.
+     * Errors are returned to the model as text so it can recover.
+     */
+    private async runTool(tools: StructuredToolInterface[], call: ToolCall, step: number, queryId: string, logTimestamp: string): Promise<string> {
+        const started = Date.now();
+        const tool = tools.find(t => t.name === call.name);
+        let output: string;
+        let error: string | undefined;
+
+        try {
+            if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+            const result = await tool.invoke(call.args);
+            output = typeof result === 'string' ? result : JSON.stringify(result);
+        } catch (e: any) {
+            error = e?.message || String(e);
+            output = `Tool error: ${error}`;
+        }
+
+        console.log(`[TOOL] ${call.name}(${JSON.stringify(call.args)}) -> ${output.substring(0, 100)}${output.length > 100 ? '...' : ''}`);
+        appendQueryLog(queryId, logTimestamp, 'tool_calls.jsonl', {
+            timestamp: new Date().toISOString(),
+            step,
+            tool: call.name,
+            args: call.args,
+            output,
+            error,
+            durationMs: Date.now() - started
+        });
+        return output;
     }
 }
@@ -0,0 +1,119 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+export const DEFAULT_PERSONA = "standard";
+export const ABUSE_PERSONA = "abuse";
+
+/**
+ * An executor persona: a file in src/prompts/personas/ with YAML front matter followed by the prompt.
+ *
+ * ---
+ * name: tutor
+ * description: Patient teacher that explains step by step
+ * language: Hebrew        # Always answer in this language (default: the user's language)
+ * model: reasoning        # Preferred executor model, a hint for the planner
+ * abuse: tutor-abuse      # Persona used when the planner flags abuse (default "abuse")
+ * selectable: false       # Only picked by the system (e.g. abuse variants), not by the persona command
+ * ---
+ */
+export interface Persona {
+    name: string;
+    description: string;
+    language?: string;
+    model?: 'fast' | 'reasoning';
+    abuse?: string;
+    selectable: boolean;
+    prompt: string;
+}
+
+const PersonaMetadataSchema = z.strictObject({
+    name: z.string().regex(/^[a-z0-9_-]+$/, "lowercase letters, digits, '-' and '_' only").optional(),
+    description: z.string().min(1),
+    language: z.string().min(1).optional(),
+    model: z.enum(['fast', 'reasoning']).optional(),
+    abuse: z.string().min(1).optional(),
+    selectable: z.boolean().optional()
+});
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+export class PersonaLibrary {
+    private personas: Map<string, Persona> = new Map();
+
+    constructor(private directory: string = path.join(process.cwd(), 'src', 'prompts', 'personas')) {
+        this.load();
+    }
+
+    /**
+     * (Re)reads the persona directory. Invalid files are skipped with a warning.
+     */
+    public load() {
+        const personas = new Map<string, Persona>();
+        const files = fs.existsSync(this.directory) ? fs.readdirSync(this.directory).filter(file => /\.(md|txt)$/.test(file)).sort() : [];
+
+        for (const file of files) {
+            try {
+                const persona = this.parse(file, fs.readFileSync(path.join(this.directory, file), 'utf-8'));
+                if (personas.has(persona.name)) throw new Error(`duplicate persona name "${persona.name}"`);
+                personas.set(persona.name, persona);
+            } catch (e: any) {
+                console.warn(`[PERSONA] Skipping ${file}: ${e.message}`);
+            }
+        }
+
+        if (!personas.has(DEFAULT_PERSONA)) {
+            console.warn(`[PERSONA] No "${DEFAULT_PERSONA}" persona in ${this.directory}, using a built-in one.`);
+            personas.set(DEFAULT_PERSONA, { name: DEFAULT_PERSONA, description: "Concise, direct assistant", selectable: true, prompt: "You are Golem, an AI assistant in a WhatsApp group.\n- Style: Concise, direct." });
+        }
+        this.personas = personas;
+        console.log(`[PERSONA] Loaded ${personas.size} persona(s): ${[...personas.keys()].join(', ')}`);
+    }
+
+    private parse(file: string, content: string): Persona {
+        const match = content.match(FRONT_MATTER);
+        if (!match) throw new Error(`missing the "---" front matter`);
+
+        const result = PersonaMetadataSchema.safeParse(yaml.load(match[1]) ?? {});
+        if (!result.success) throw new Error(z.prettifyError(result.error));
+
+        const prompt = match[2].trim();
+        if (!prompt) throw new Error(`empty prompt`);
+
+        const metadata = result.data;
+        return {
+            ...metadata,
+            name: metadata.name ?? path.basename(file, path.extname(file)).toLowerCase(),
+            selectable: metadata.selectable ?? true,
+            prompt
+        };
+    }
+
+    public find(name: string): Persona | undefined {
+        return this.personas.get(name.toLowerCase());
+    }
+
+    /**
+     * The persona with this name, or the default persona if there is none.
+     */
+    public get(name: string = DEFAULT_PERSONA): Persona {
+        const persona = this.find(name);
+        if (!persona) console.warn(`[PERSONA] Unknown persona "${name}", using "${DEFAULT_PERSONA}".`);
+        return persona || this.personas.get(DEFAULT_PERSONA)!;
+    }
+
+    /**
+     * The abuse variant of a persona (its `abuse` persona, or the shared "abuse" persona).
+     */
+    public getAbuseVariant(persona: Persona): Persona | undefined {
+        return (persona.abuse && this.find(persona.abuse)) || this.find(ABUSE_PERSONA);
+    }
+
+    /**
+     * Personas a chat can switch to with the persona command.
+     */
+    public list(): Persona[] {
+        return [...this.personas.values()].filter(persona => persona.selectable);
+    }
+}
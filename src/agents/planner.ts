@@ -1,82 +1,175 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Runnable, RunnableConfig } from '@langchain/core/runnables';
 import { LLMFactory } from '../services/llmFactory';
 import { ModelConfig } from '../config/config';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { UsageAttribution } from '../services/usageLedger';
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { z } from 'zod';
 import fs from 'fs-extra';
 import path from 'path';
+import { PlannerOutputSchema, ReminderIntentSchema, TimeRangeSchema, normalizePlanJson } from './plannerSchema';
+import { isTimeExpression } from '../utils/dateUtils';
+import { getMessageText } from '../utils/formatUtils';
+import { classifyError, isBadRequest } from '../services/resilientChatModel';
 
-export interface PlannerOutput {
-    target_model: "fast" | "reasoning";
-    is_self_reflection: boolean;
-    is_abuse: boolean;
-    needs_image: boolean;
-    needs_audio: boolean;
-    has_reply: boolean;
-    time_ranges: Array<{
-        start: string | null;
-        end: string | null;
-    }>;
-    reasoning: string;
+export type ReminderIntent = z.infer<typeof ReminderIntentSchema>;
+export type TimeRange = z.infer<typeof TimeRangeSchema>;
+
+export type PlannerOutput = z.infer<typeof PlannerOutputSchema> & {
+    fallback_reason?: string; // Set when the planner failed and the default plan is used
+};
+
+type PlanValidation = { plan: PlannerOutput; error?: undefined } | { plan?: undefined; error: string };
+
+export interface ValidatePlanOptions {
+    fromLog?: boolean; // A plan read back from .llm_logs: fields it predates get their defaults
 }
 
+// Extra planner calls allowed to fix an invalid plan
+const MAX_REPAIR_ATTEMPTS = 2;
+
 export class PlannerAgent {
     private model: BaseChatModel;
+    private structuredModel?: Runnable<BaseMessage[], { raw: BaseMessage; parsed: any }>;
     private systemPrompt: string;
 
-    constructor(modelConfig: ModelConfig) {
-        this.model = LLMFactory.createLLM(modelConfig);
+    constructor(modelConfig: ModelConfig, model?: BaseChatModel) {
+        this.model = model ?? LLMFactory.createLLM(modelConfig);
+
+        // Provider-native structured output where supported. Plain JSON text is parsed and validated with the same schema otherwise.
+        if (modelConfig.structuredOutput !== false) {
+            try {
+                this.structuredModel = this.model.withStructuredOutput(PlannerOutputSchema, { name: "plan", includeRaw: true });
+            } catch (e) {
+                console.warn(`[PLANNER] Structured output not supported by ${modelConfig.provider}/${modelConfig.modelName}, using JSON text.`);
+            }
+        }
 
         const promptPath = path.join(process.cwd(), 'src', 'prompts', 'planner.txt');
         this.systemPrompt = fs.readFileSync(promptPath, 'utf-8');
     }
 
-    public async plan(userMessage: string, metadata: string, historyContext: string, queryId: string, logTimestamp: string): Promise<PlannerOutput> {
+    /**
+     * The plan used when the planner fails: fast model and the last 24 hours of history.
+     */
+    public static fallbackPlan(reason: string): PlannerOutput {
+        return {
+            target_model: "fast",
+            is_self_reflection: false,
+            is_abuse: false,
+            needs_image: false,
+            needs_audio: false,
+            has_reply: false,
+            time_ranges: [{ start: { type: 'ago', amount: 24, unit: 'hours' }, end: { type: 'now' } }],
+            search_queries: [],
+            reminders: [],
+            respond_with_voice: false,
+            reasoning: "Fallback plan",
+            fallback_reason: reason
+        };
+    }
+
+    /**
+     * Validates a plan object (from structured output or parsed JSON) against the schema.
+     * Missing fields are errors, so the planner gets to repair them.
+     */
+    public static validatePlan(candidate: unknown, options: ValidatePlanOptions = {}): PlanValidation {
+        const result = PlannerOutputSchema.safeParse(normalizePlanJson(candidate, options.fromLog));
+        if (!result.success) return { error: z.prettifyError(result.error) };
+
+        const unknown = result.data.time_ranges.filter(r => 'expression' in r && !isTimeExpression(r.expression));
+        if (unknown.length > 0) {
+            return { error: `Unrecognized time expression(s): ${unknown.map(r => JSON.stringify((r as { expression: string }).expression)).join(', ')}. Rephrase them or use start/end time points.` };
+        }
+        return { plan: result.data };
+    }
+
+    /**
+     * Parses raw planner text (JSON, possibly wrapped in ``` fences) and validates it.
+     */
+    public static validatePlanText(rawContent: string, options: ValidatePlanOptions = {}): PlanValidation {
+        // Grok might wrap in markdown blocks ```json ... ```
+        const cleanJson = rawContent.replace(/```json/g, '').replace(/```/g, '').trim();
+        let json: unknown;
+        try {
+            json = JSON.parse(cleanJson);
+        } catch (e: any) {
+            return { error: `Not valid JSON: ${e.message}` };
+        }
+        return PlannerAgent.validatePlan(json, options);
+    }
+
+    /**
+     * Parses a raw planner response into a PlannerOutput, falling back to the default plan.
+     */
+    public static parsePlan(rawContent: string, options: ValidatePlanOptions = {}): PlannerOutput {
+        const result = PlannerAgent.validatePlanText(rawContent, options);
+        if (result.plan) return result.plan;
+        console.error(`[PLANNER] Invalid plan: ${result.error}\n${rawContent}`);
+        return PlannerAgent.fallbackPlan(result.error);
+    }
+
+    /**
+     * One planner call. Returns the raw response text and the validation result.
+     */
+    private async invokeOnce(messages: BaseMessage[], callOptions: RunnableConfig): Promise<{ raw: string; validation: PlanValidation }> {
+        if (this.structuredModel) {
+            try {
+                const { raw, parsed } = await this.structuredModel.invoke(messages, callOptions);
+                const rawText = getMessageText(raw.content) || JSON.stringify(parsed ?? (raw as AIMessage).tool_calls?.[0]?.args ?? null);
+                if (parsed) return { raw: rawText, validation: PlannerAgent.validatePlan(parsed) };
+                return { raw: rawText, validation: PlannerAgent.validatePlanText(rawText) };
+            } catch (e) {
+                // Rate limits, timeouts and outages were already retried by the model; they say nothing about structured output
+                if (!isBadRequest(e) && classifyError(e) !== 'fatal') throw e;
+                // The provider rejects the schema or tool. Don't retry structured output for every message.
+                console.warn(`[PLANNER] Structured output failed, switching to JSON text:`, e);
+                this.structuredModel = undefined;
+            }
+        }
+
+        const response = await this.model.invoke(messages, callOptions);
+        const raw = getMessageText(response.content);
+        return { raw, validation: PlannerAgent.validatePlanText(raw) };
+    }
+
+    public async plan(userMessage: string, metadata: string, historyContext: string, queryId: string, logTimestamp: string, attribution: UsageAttribution = {}): Promise<PlannerOutput> {
         console.log(`[PLANNER] Planning for: "${userMessage}"`);
 
-        const response = await this.model.invoke([
+        const messages: BaseMessage[] = [
             new SystemMessage(this.systemPrompt),
             new HumanMessage(`METADATA: ${metadata}\n\nIMMEDIATE HISTORY:\n${historyContext}\n\nUSER MESSAGE: ${userMessage}`)
-        ], {
-            metadata: {
-                agent: "Planner",
-                query: userMessage,
-                full_metadata: metadata,
-                queryId: queryId,
-                logTimestamp: logTimestamp
-            }
-        });
+        ];
 
-        const rawContent = response.content as string;
+        let lastError = "";
+        for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+            const { raw, validation } = await this.invokeOnce(messages, {
+                metadata: {
+                    agent: "Planner",
+                    step: attempt + 1,
+                    query: userMessage,
+                    full_metadata: metadata,
+                    queryId: queryId,
+                    logTimestamp: logTimestamp,
+                    senderId: attribution.senderId,
+                    chatId: attribution.chatId
+                }
+            });
+            if (validation.plan) {
+                if (attempt > 0) console.log(`[PLANNER] Plan repaired after ${attempt} attempt(s)`);
+                return validation.plan;
+            }
 
-        try {
-            // Attempt to parse JSON. Grok might wrap in markdown blocks ```json ... ```
-            const cleanJson = rawContent.replace(/```json/g, '').replace(/```/g, '').trim();
-            const plan = JSON.parse(cleanJson);
-
-            // Validate minimal fields (fallback defaults)
-            return {
-                target_model: plan.target_model || "fast",
-                is_self_reflection: !!plan.is_self_reflection,
-                is_abuse: !!plan.is_abuse,
-                needs_image: !!plan.needs_image,
-                needs_audio: !!plan.needs_audio,
-                has_reply: !!plan.has_reply,
-                time_ranges: Array.isArray(plan.time_ranges) ? plan.time_ranges : [],
-                reasoning: plan.reasoning || "No reasoning provided"
-            };
-        } catch (e) {
-            console.error(`[PLANNER] Failed to parse plan: ${rawContent}`, e);
-            // Default Fallback
-            return {
-                target_model: "fast",
-                is_self_reflection: false,
-                is_abuse: false,
-                needs_image: false,
-                needs_audio: false,
-                has_reply: false,
-                time_ranges: [{ start: null, end: null }], // Default to recent history on error
-                reasoning: "Fallback due to parse error"
-            };
+            lastError = validation.error;
+            console.warn(`[PLANNER] Invalid plan (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}): ${lastError}`);
+            // Feed the error back so the model can fix its own output
+            messages.push(
+                new AIMessage(raw),
+                new HumanMessage(`Your plan is invalid:\n${lastError}\n\nReply with the corrected JSON plan only.`)
+            );
         }
+
+        console.error(`[PLANNER] Giving up after ${MAX_REPAIR_ATTEMPTS + 1} attempts. Using the fallback plan.`);
+        return PlannerAgent.fallbackPlan(lastError);
     }
 }
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+/**
+ * Schema of the planner's JSON plan. Used both as the provider-native structured output format
+ * and to validate plans parsed from plain text.
+ * Every field is required (nullable where optional) so it also works with strict JSON schema providers.
+ */
+
+export const TimePointSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('now') }),
+    z.object({
+        type: z.literal('ago'),
+        amount: z.number().positive(),
+        unit: z.enum(['minutes', 'hours', 'days', 'weeks', 'months'])
+    }),
+    z.object({
+        type: z.literal('absolute'),
+        iso: z.string().describe("ISO-8601. Without an offset it is local time in the owner's time zone")
+    })
+]);
+
+export const TimeRangeSchema = z.union([
+    z.object({
+        start: TimePointSchema,
+        end: TimePointSchema
+    }),
+    z.object({
+        expression: z.string().min(1).describe("Natural-language range resolved in the owner's time zone, e.g. 'yesterday', 'since Monday morning', 'the day before the replied message'")
+    })
+]);
+
+export const ReminderIntentSchema = z.object({
+    text: z.string().min(1).describe("What to remind about, in the user's language"),
+    at: z.string().describe("Local time in the owner's time zone, YYYY-MM-DDTHH:mm"),
+    recurrence: z.enum(['daily', 'weekly', 'monthly']).nullable()
+});
+
+export const PlannerOutputSchema = z.object({
+    target_model: z.enum(['fast', 'reasoning']),
+    is_self_reflection: z.boolean(),
+    is_abuse: z.boolean(),
+    needs_image: z.boolean(),
+    needs_audio: z.boolean(),
+    has_reply: z.boolean(),
+    time_ranges: z.array(TimeRangeSchema),
+    search_queries: z.array(z.string().min(1)),
+    reminders: z.array(ReminderIntentSchema),
+    respond_with_voice: z.boolean(),
+    reasoning: z.string()
+});
+
+const LEGACY_AGO = /^(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?|months?)\s+ago$/i;
+
+function upgradeLegacyTimePoint(value: any): any {
+    if (typeof value !== 'string') return value;
+    const text = value.trim();
+    if (text.toLowerCase() === 'now') return { type: 'now' };
+
+    const ago = text.match(LEGACY_AGO);
+    if (ago) {
+        const u = ago[2].toLowerCase();
+        const unit = u.startsWith('mo') ? 'months' : u.startsWith('m') ? 'minutes' : u.startsWith('h') ? 'hours' : u.startsWith('d') ? 'days' : 'weeks';
+        return { type: 'ago', amount: parseFloat(ago[1]), unit };
+    }
+    return isNaN(new Date(text).getTime()) ? value : { type: 'absolute', iso: text };
+}
+
+function isLegacyString(point: any): boolean {
+    return typeof point === 'string' && typeof upgradeLegacyTimePoint(point) === 'string';
+}
+
+// Fields added to the plan over time. Only filled for plans read back from old logs: a live plan missing
+// one is invalid, so the planner is asked to repair it.
+const LOGGED_PLAN_DEFAULTS = {
+    target_model: 'fast',
+    is_self_reflection: false,
+    is_abuse: false,
+    needs_image: false,
+    needs_audio: false,
+    has_reply: false,
+    time_ranges: [],
+    search_queries: [],
+    reminders: [],
+    respond_with_voice: false,
+    reasoning: ''
+};
+
+/**
+ * Upgrades the old string time ranges: "24h ago", "now" and ISO become typed time points, other phrases
+ * ("last Tuesday") become expressions. Anything else is left for the schema to reject. With `fillMissing`
+ * (for logged plans), fields the plan predates get their defaults.
+ */
+export function normalizePlanJson(plan: any, fillMissing: boolean = false): any {
+    if (!plan || typeof plan !== 'object' || Array.isArray(plan)) return plan;
+
+    const withDefaults = fillMissing ? { ...LOGGED_PLAN_DEFAULTS, ...plan } : { ...plan };
+    if (Array.isArray(withDefaults.time_ranges)) {
+        withDefaults.time_ranges = withDefaults.time_ranges
+            .filter((range: any) => range && (typeof range.expression === 'string' || (range.start !== null && range.start !== undefined)))
+            .map((range: any) => {
+                if (typeof range.expression === 'string') return { expression: range.expression };
+                const end = range.end === null || range.end === undefined ? 'now' : range.end;
+                if (isLegacyString(range.start) || isLegacyString(end)) {
+                    return { expression: end === 'now' ? `since ${range.start}` : `between ${range.start} and ${end}` };
+                }
+                return { start: upgradeLegacyTimePoint(range.start), end: upgradeLegacyTimePoint(end) };
+            });
+    }
+    if (Array.isArray(withDefaults.reminders)) {
+        if (fillMissing) withDefaults.reminders = withDefaults.reminders.map((r: any) => r && typeof r === 'object' ? { recurrence: null, ...r } : r);
+    }
+    return withDefaults;
+}
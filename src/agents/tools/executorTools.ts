@@ -0,0 +1,225 @@
+import { tool, StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { AppConfig } from '../../config/config';
+import { AudioService } from '../../services/audioService';
+import { MessageArchive, ArchivedMessage, fitToTokenBudget, getHistoryCutoff } from '../../services/messageArchive';
+import { SemanticIndex } from '../../services/semanticIndex';
+import { DocumentService } from '../../services/documentService';
+import { ChatTransport, ChatInfo, ChatMessage, MediaPayload } from '../../transport/types';
+import { QueryContext } from '../../pipeline/types';
+import * as utils from '../../utils/messageUtils';
+import { evaluateExpression } from '../../utils/mathUtils';
+import { saveMediaToLog } from '../../utils/logUtils';
+import { formatPromptTime, parseZonedDate, shiftTime } from '../../utils/dateUtils';
+
+export interface ExecutorToolContext {
+    chat: ChatInfo;
+    transport: ChatTransport;
+    audioService: AudioService;
+    archive: MessageArchive;
+    semanticIndex?: SemanticIndex; // Only when semantic search is enabled
+    documents: DocumentService;
+    config: AppConfig;
+    query: QueryContext;
+    describeImage(media: MediaPayload, question: string): Promise<string>;
+}
+
+const DATE_UNITS_MS: Record<string, number> = {
+    hours: 60 * 60 * 1000,
+    days: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parses an ISO-8601 date from a tool argument. Dates without an offset are the owner's local time.
+ */
+function parseDate(value: string, field: string, timeZone: string): Date {
+    const date = parseZonedDate(value, timeZone);
+    if (!date) throw new Error(`Invalid ${field}: "${value}". Use an ISO-8601 date.`);
+    return date;
+}
+
+function formatMessageLine(msg: ArchivedMessage, config: AppConfig): string {
+    const sender = msg.fromMe ? config.bot.ownerName : msg.senderName;
+    const media = msg.hasMedia ? ` [${msg.type.toUpperCase()}]` : "";
+    const transcription = msg.transcription ? ` [Transcription: ${msg.transcription}]` : "";
+    return `#${msg.id} [${sender}] (${new Date(msg.timestamp * 1000).toISOString()})${media}: ${utils.cleanMessageBody(msg.body, config)}${transcription}`;
+}
+
+/**
+ * Downloads the media of a message in the current chat. Messages of other chats and messages older than
+ * the chat's history limit are reported as not found, like they would be by the history tools.
+ */
+async function getMediaMessage(ctx: ExecutorToolContext, messageId: string, types: string[]): Promise<{ msg: ChatMessage; media: MediaPayload }> {
+    const msg = await ctx.transport.getMessageById(messageId);
+    const cutoff = getHistoryCutoff(ctx.config);
+    if (!msg || msg.chatId !== ctx.chat.id || (cutoff && msg.timestamp * 1000 < cutoff.getTime())) {
+        throw new Error(`Message not found: ${messageId}`);
+    }
+    if (!msg.hasMedia || !types.includes(msg.type)) throw new Error(`Message ${messageId} is a '${msg.type}' message, expected ${types.join('/')}.`);
+
+    const media = await msg.downloadMedia();
+    if (!media) throw new Error(`Failed to download media of ${messageId}`);
+    const savedPath = saveMediaToLog(ctx.query.queryId, msg.id, media.mimetype, media.data, ctx.query.logTimestamp);
+    ctx.archive.update(msg.id, msg.chatId, { media: { mimetype: media.mimetype, filename: media.filename || undefined, path: savedPath } });
+    return { msg, media };
+}
+
+/**
+ * LangChain tools the executor can call to gather context the planner did not request up front.
+ * Message IDs returned by the history tools can be passed to the media tools.
+ */
+export function createExecutorTools(ctx: ExecutorToolContext): StructuredToolInterface[] {
+    // Messages older than the chat's history limit are not visible to any tool
+    const cutoff = getHistoryCutoff(ctx.config);
+    const isVisible = (msg: ArchivedMessage) => !cutoff || msg.timestamp * 1000 >= cutoff.getTime();
+
+    const timeZone = ctx.config.bot.timezone;
+
+    const getMessagesInRange = tool(async ({ start, end }) => {
+        let startTime = parseDate(start, 'start', timeZone);
+        const endTime = end ? parseDate(end, 'end', timeZone) : new Date();
+        if (cutoff && startTime < cutoff) {
+            if (endTime <= cutoff) return `History before ${cutoff.toISOString()} is not available in this chat.`;
+            startTime = cutoff;
+        }
+        const messages = await ctx.archive.getRange(ctx.chat, startTime, endTime);
+        if (messages.length === 0) return `No messages between ${startTime.toISOString()} and ${endTime.toISOString()}.`;
+
+        const { kept, omitted } = fitToTokenBudget(messages, ctx.config.archive.historyTokenBudget);
+        const lines = kept.map(m => formatMessageLine(m, ctx.config));
+        if (omitted > 0) lines.unshift(`(${omitted} older messages omitted. Narrow the range to see them.)`);
+        return lines.join('\n');
+    }, {
+        name: "get_messages_in_range",
+        description: "Fetch the chat messages sent between two ISO-8601 timestamps. Each line starts with the message ID.",
+        schema: z.object({
+            start: z.string().describe("ISO-8601 start time"),
+            end: z.string().optional().describe("ISO-8601 end time (default: now)")
+        })
+    });
+
+    const searchHistory = tool(async ({ keyword, sender, limit }) => {
+        if (!keyword && !sender) throw new Error("Provide a keyword, a sender or both.");
+        const results = (await ctx.archive.search(ctx.chat, { keyword, sender, limit: limit ?? 20 })).filter(isVisible);
+        return results.length > 0 ? results.map(m => formatMessageLine(m, ctx.config)).join('\n') : `No matching messages.`;
+    }, {
+        name: "search_history",
+        description: "Search the chat history by keyword and/or sender name. Returns the newest matches first, each line starting with the message ID.",
+        schema: z.object({
+            keyword: z.string().optional().describe("Case-insensitive text to look for"),
+            sender: z.string().optional().describe("Part of the sender's name or phone number"),
+            limit: z.number().int().min(1).max(50).optional().describe("Maximum results (default 20)")
+        })
+    });
+
+    const semanticSearch = tool(async ({ query }) => {
+        const hits = (await ctx.semanticIndex!.search(ctx.chat, [query], ctx.query)).filter(h => isVisible(h.message));
+        if (hits.length === 0) return `No messages about "${query}".`;
+        return hits.map(h => `(score ${h.score.toFixed(2)}) ${formatMessageLine(h.message, ctx.config)}`).join('\n');
+    }, {
+        name: "semantic_search",
+        description: "Search the whole chat history by meaning (e.g. 'restaurant recommendation'), when you don't know when something was said. Returns the best matches with their message IDs; use get_messages_in_range around a match's time for the surrounding conversation.",
+        schema: z.object({
+            query: z.string().describe("Short description of the content you are looking for")
+        })
+    });
+
+    const transcribeAudio = tool(async ({ message_id }) => {
+        const { msg, media } = await getMediaMessage(ctx, message_id, ['audio', 'ptt']);
+        const transcription = await ctx.audioService.transcribe(Buffer.from(media.data, 'base64'), media.mimetype, { config: ctx.config, attribution: ctx.query });
+        ctx.archive.update(msg.id, msg.chatId, { transcription });
+        return transcription;
+    }, {
+        name: "transcribe_audio",
+        description: "Transcribe an audio or voice message by its message ID.",
+        schema: z.object({
+            message_id: z.string().describe("ID of the audio message")
+        })
+    });
+
+    const describeImage = tool(async ({ message_id, question }) => {
+        const { media } = await getMediaMessage(ctx, message_id, ['image', 'sticker']);
+        return ctx.describeImage(media, question || "Describe this image in detail, including any visible text.");
+    }, {
+        name: "describe_image",
+        description: "Look at an image message by its message ID and describe it or answer a question about it.",
+        schema: z.object({
+            message_id: z.string().describe("ID of the image message"),
+            question: z.string().optional().describe("What to look for in the image")
+        })
+    });
+
+    const readDocument = tool(async ({ message_id, question }) => {
+        const { media } = await getMediaMessage(ctx, message_id, ['document']);
+        const doc = await ctx.documents.extract(media);
+        if (!doc.scanned) return ctx.documents.formatForContext(doc, question || '', ctx.config.documents.maxTokens);
+
+        // Scanned PDF: look at the first pages instead
+        if (!ctx.config.features.imageAnalysis) return `${media.filename || 'The document'} is a scanned PDF without text, and image analysis is disabled.`;
+        const pages = await ctx.documents.renderPages(media);
+        const descriptions: string[] = [];
+        for (const [i, page] of pages.entries()) {
+            descriptions.push(`--- Page ${i + 1} ---\n${await ctx.describeImage(page, question || "Transcribe the text on this page.")}`);
+        }
+        return `[SCANNED DOCUMENT: ${doc.pages} pages, the first ${pages.length} read]\n${descriptions.join('\n')}`;
+    }, {
+        name: "read_document",
+        description: "Read a document message (PDF, DOCX, XLSX, CSV, TXT) by its message ID. Long documents return the parts most related to the question.",
+        schema: z.object({
+            message_id: z.string().describe("ID of the document message"),
+            question: z.string().optional().describe("What you are looking for in the document")
+        })
+    });
+
+    const calculate = tool(async ({ expression }) => {
+        return `${expression} = ${evaluateExpression(expression)}`;
+    }, {
+        name: "calculate",
+        description: "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round(x, digits), floor, ceil, min, max, pow, log, ln, exp, sin, cos, tan. Write numbers without thousands separators inside function arguments.",
+        schema: z.object({
+            expression: z.string().describe("e.g. '(1250 * 3) / 7' or 'round(sqrt(2), 3)'")
+        })
+    });
+
+    const dateCalc = tool(async ({ operation, date, amount, unit, other_date }) => {
+        const base = date ? parseDate(date, 'date', timeZone) : new Date();
+        const describe = (d: Date) => `${d.toISOString()}, local time ${formatPromptTime(d, timeZone)}`;
+
+        switch (operation) {
+            case 'now':
+                return describe(new Date());
+            case 'add': {
+                if (amount === undefined || !unit) throw new Error("'add' needs amount and unit.");
+                // Days and longer keep the local time of day across DST changes
+                return describe(unit === 'years' ? shiftTime(base, amount * 12, 'months', timeZone) : shiftTime(base, amount, unit, timeZone));
+            }
+            case 'diff': {
+                if (!other_date) throw new Error("'diff' needs other_date.");
+                const ms = parseDate(other_date, 'other_date', timeZone).getTime() - base.getTime();
+                const days = ms / DATE_UNITS_MS.days;
+                return `${days.toFixed(2)} days (${(ms / DATE_UNITS_MS.hours).toFixed(1)} hours, ${(days / 7).toFixed(2)} weeks)`;
+            }
+        }
+    }, {
+        name: "date_calc",
+        description: "Date arithmetic in the owner's time zone: the current time ('now'), adding an amount of time to a date ('add'), or the difference between two dates ('diff').",
+        schema: z.object({
+            operation: z.enum(['now', 'add', 'diff']),
+            date: z.string().optional().describe("ISO-8601 base date, local time unless it has an offset (default: now)"),
+            amount: z.number().optional().describe("Amount to add (negative to subtract)"),
+            unit: z.enum(['minutes', 'hours', 'days', 'weeks', 'months', 'years']).optional(),
+            other_date: z.string().optional().describe("ISO-8601 date to compare with, for 'diff'")
+        })
+    });
+
+    return [
+        getMessagesInRange,
+        searchHistory,
+        ...(ctx.semanticIndex ? [semanticSearch] : []),
+        ...(ctx.config.features.audioTranscription ? [transcribeAudio] : []),
+        ...(ctx.config.features.imageAnalysis ? [describeImage] : []),
+        ...(ctx.config.features.documentAnalysis ? [readDocument] : []),
+        calculate,
+        dateCalc
+    ];
+}
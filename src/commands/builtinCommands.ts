@@ -0,0 +1,339 @@
+import { ExecutorAgent } from '../agents/executor';
+import { DEFAULT_PERSONA } from '../agents/personaLibrary';
+import { ChatSettingsStore } from '../services/chatSettingsStore';
+import { ReminderScheduler } from '../services/reminderScheduler';
+import { ChatMemory, MemoryFact } from '../services/chatMemory';
+import { VoiceError, VoiceService } from '../services/voiceService';
+import { UsageLedger, UsageTotals, getPeriodStart } from '../services/usageLedger';
+import { ChatTransport } from '../transport/types';
+import { formatZonedTime, getLogTimestamp } from '../utils/dateUtils';
+import { saveMediaToLog } from '../utils/logUtils';
+import { getSenderName } from '../utils/messageUtils';
+import { CommandRegistry } from './commandRegistry';
+import { Command, CommandError } from './types';
+
+export interface BuiltinCommandDeps {
+    registry: CommandRegistry;
+    transport: ChatTransport;
+    executor: ExecutorAgent;
+    usageLedger: UsageLedger;
+    chatSettings: ChatSettingsStore;
+    reminders: ReminderScheduler;
+    memory: ChatMemory;
+    voice: VoiceService;
+    startedAt: Date;
+}
+
+const OPENAI_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer', 'verse', 'marin', 'cedar'];
+
+// Keys whose values must never be echoed back into a chat (exact names: "maxTokens" or "tokenEnvVar" are not secrets)
+const SECRET_KEY_PATTERN = /^(apiKey|token|secret|password)$/i;
+
+function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    return [days ? `${days}d` : '', hours ? `${hours}h` : '', `${minutes % 60}m`].filter(Boolean).join(' ');
+}
+
+function redactSecrets(value: any): any {
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, SECRET_KEY_PATTERN.test(k) ? '***' : redactSecrets(v)]));
+    }
+    return value;
+}
+
+export function createBuiltinCommands(deps: BuiltinCommandDeps): Command[] {
+    const { registry, transport, executor, usageLedger, chatSettings, reminders, memory, voice, startedAt } = deps;
+
+    const help: Command = {
+        name: 'help',
+        aliases: ['?'],
+        description: 'Show the available commands',
+        args: [{ name: 'command', description: 'Show details for one command' }],
+        permission: 'anyone',
+        handler: async ({ config, args }) => registry.generateHelp(config, args.command)
+    };
+
+    const status: Command = {
+        name: 'status',
+        description: 'Uptime and models in use',
+        permission: 'anyone',
+        handler: async ({ config, message }) => {
+            const settings = chatSettings.get(message.chatId);
+            const models = config.models;
+            return [
+                `*Status*`,
+                `- Uptime: ${formatDuration(Date.now() - startedAt.getTime())}`,
+                `- Transport: ${transport.name}`,
+                `- Planner: ${models.planner.provider}/${models.planner.modelName}`,
+                `- Fast: ${models.executorFast.provider}/${models.executorFast.modelName}`,
+                `- Reasoning: ${models.executorReasoning.provider}/${models.executorReasoning.modelName}`,
+                `- Vision: ${models.executorVision ? `${models.executorVision.provider}/${models.executorVision.modelName}` : 'none (fast model)'}`,
+                `- Persona (this chat): ${settings.persona || config.bot.persona || DEFAULT_PERSONA}`,
+                `- Muted (this chat): ${settings.muted ? 'yes' : 'no'}`,
+                ...(chatSettings.isGloballyMuted() ? [`- Paused globally (admin page): yes`] : [])
+            ].join('\n');
+        }
+    };
+
+    const usage: Command = {
+        name: 'usage',
+        description: 'Spend for you, this chat and the whole bot',
+        permission: 'anyone',
+        handler: async ({ config, message }) => {
+            const format = (t: UsageTotals) => `$${t.cost.toFixed(3)} (${t.calls} calls, ${t.promptTokens + t.completionTokens} tokens${t.audioSeconds ? `, ${Math.round(t.audioSeconds / 60)} min audio` : ''})`;
+
+            const lines = ["*Usage*"];
+            for (const period of ['daily', 'monthly'] as const) {
+                const since = getPeriodStart(period, config.bot.timezone);
+                lines.push(``, `*${period === 'daily' ? 'Today' : 'This month'}*`);
+                lines.push(`- You: ${format(usageLedger.getTotals({ senderId: message.senderId, since }))}`);
+                lines.push(`- This chat: ${format(usageLedger.getTotals({ chatId: message.chatId, since }))}`);
+                lines.push(`- Bot total: ${format(usageLedger.getTotals({ since }))}`);
+
+                const limits = config.usage.budgets[period];
+                if (limits) {
+                    const parts = [limits.user !== undefined ? `user $${limits.user}` : '', limits.chat !== undefined ? `chat $${limits.chat}` : '', limits.global !== undefined ? `bot $${limits.global}` : ''].filter(Boolean);
+                    if (parts.length > 0) lines.push(`- Budgets: ${parts.join(', ')}`);
+                }
+            }
+            return lines.join('\n');
+        }
+    };
+
+    const persona: Command = {
+        name: 'persona',
+        description: 'Show or switch the persona for this chat',
+        args: [{ name: 'name', description: `Persona to use ('reset' for the chat's default)` }],
+        permission: 'admin',
+        handler: async ({ config, message, args }) => {
+            const personas = executor.listPersonas();
+            const available = personas.map(p => p.name);
+            // The chat's configured persona (config.yaml `chats:`) applies until a persona is picked here
+            const configured = config.bot.persona || DEFAULT_PERSONA;
+            const current = chatSettings.get(message.chatId).persona || configured;
+
+            if (!args.name) {
+                const list = personas.map(p => `- *${p.name}*: ${p.description}${p.language ? ` (${p.language})` : ''}${p.name === current ? ' ✓' : ''}`);
+                return `Current persona: *${current}*\nAvailable:\n${list.join('\n')}`;
+            }
+
+            const name = args.name.toLowerCase();
+            if (name === 'reset' || name === configured) {
+                chatSettings.update(message.chatId, { persona: undefined });
+                return `Persona reset to *${configured}*.`;
+            }
+            if (!available.includes(name)) {
+                throw new CommandError(`Unknown persona "${name}". Available: ${available.join(', ')}`);
+            }
+            chatSettings.update(message.chatId, { persona: name });
+            return `Persona switched to *${name}*.`;
+        }
+    };
+
+    const mute: Command = {
+        name: 'mute',
+        description: 'Stop answering in this chat (commands still work)',
+        permission: 'admin',
+        handler: async ({ message }) => {
+            chatSettings.update(message.chatId, { muted: true });
+            return `Muted. Use 'unmute' to wake me up.`;
+        }
+    };
+
+    const unmute: Command = {
+        name: 'unmute',
+        description: 'Resume answering in this chat',
+        permission: 'admin',
+        handler: async ({ message }) => {
+            chatSettings.update(message.chatId, { muted: undefined });
+            return `Unmuted.`;
+        }
+    };
+
+    const listReminders: Command = {
+        name: 'reminders',
+        description: 'List the pending reminders in this chat',
+        permission: 'anyone',
+        handler: async ({ message }) => {
+            const pending = reminders.list(message.chatId);
+            if (pending.length === 0) return `No pending reminders in this chat.`;
+
+            const lines = [`*Reminders*`];
+            for (const r of pending) {
+                const repeat = r.recurrence ? ` (${r.recurrence})` : '';
+                lines.push(`- \`${r.id}\` ${formatZonedTime(new Date(r.dueAt), r.timeZone)}${repeat}: ${r.text} — _${r.creatorName}_`);
+            }
+            return lines.join('\n');
+        }
+    };
+
+    const cancel: Command = {
+        name: 'cancel',
+        description: 'Cancel a reminder (your own, or any in the chat for admins)',
+        args: [{ name: 'id', required: true, description: "Reminder ID from 'reminders'" }],
+        permission: 'anyone',
+        handler: async ({ message, args, senderPermission }) => {
+            const reminder = reminders.get(args.id!);
+            if (!reminder || reminder.chatId !== message.chatId) throw new CommandError(`No reminder with ID "${args.id}" in this chat.`);
+            if (reminder.creatorId !== message.senderId && senderPermission === 'anyone') {
+                throw new CommandError(`Only ${reminder.creatorName} or a group admin can cancel this reminder.`);
+            }
+            reminders.cancel(reminder.id);
+            return `Cancelled reminder \`${reminder.id}\`: ${reminder.text}`;
+        }
+    };
+
+    const formatFact = (fact: MemoryFact) => `- \`${fact.id}\` ${fact.text}${fact.authorName ? ` — _${fact.authorName}_` : ''}`;
+
+    const remember: Command = {
+        name: 'remember',
+        description: 'Remember a fact in this chat, e.g. remember Noa is vegetarian',
+        args: [{ name: 'fact', required: true, rest: true }],
+        permission: 'anyone',
+        handler: async ({ config, message, args }) => {
+            if (!config.memory.enabled) throw new CommandError(`Memory is disabled.`);
+            const fact = memory.remember(message.chatId, args.fact!, message.senderId, await getSenderName(message));
+            return `🧠 Got it: ${fact.text} (\`${fact.id}\`)`;
+        }
+    };
+
+    const listMemory: Command = {
+        name: 'memory',
+        description: 'Show what I remember about this chat',
+        permission: 'anyone',
+        handler: async ({ message }) => {
+            const { summary, facts } = memory.get(message.chatId);
+            if (!summary && facts.length === 0) return `I don't remember anything about this chat yet.`;
+
+            const lines = [`*Memory*`];
+            if (summary) lines.push(`_Summary:_ ${summary}`);
+            if (facts.length > 0) lines.push(`_Facts:_`, ...facts.map(formatFact));
+            return lines.join('\n');
+        }
+    };
+
+    const forget: Command = {
+        name: 'forget',
+        description: "Forget a fact (ID or part of its text), or 'all'",
+        args: [{ name: 'item', required: true, rest: true, description: "Fact ID from 'memory', part of its text, or 'all'" }],
+        permission: 'anyone',
+        handler: async ({ message, chat, args, senderPermission }) => {
+            // In groups, members may only remove what they asked to remember themselves
+            const mayForget = (fact: MemoryFact) => !chat.isGroup || senderPermission !== 'anyone' || fact.authorId === message.senderId;
+
+            if (args.item!.toLowerCase() === 'all') {
+                if (chat.isGroup && senderPermission === 'anyone') throw new CommandError(`Only a group admin can clear the memory.`);
+                memory.clear(message.chatId);
+                return `🧠 Memory of this chat cleared.`;
+            }
+
+            const matches = memory.find(message.chatId, args.item!);
+            if (matches.length === 0) throw new CommandError(`Nothing remembered matches "${args.item}". See 'memory'.`);
+            if (matches.length > 1) throw new CommandError(`"${args.item}" matches ${matches.length} facts, use an ID:\n${matches.map(formatFact).join('\n')}`);
+            if (!mayForget(matches[0])) throw new CommandError(`Only ${matches[0].authorName ? `${matches[0].authorName} or ` : ''}a group admin can remove this fact.`);
+
+            memory.forget(message.chatId, matches);
+            return `🧠 Forgotten: ${matches[0].text}`;
+        }
+    };
+
+    const say: Command = {
+        name: 'say',
+        description: 'Send a voice note of the text, or of the message you reply to',
+        args: [{ name: 'text', rest: true, description: 'What to say. Omit when replying to a message to read it out.' }],
+        permission: 'anyone',
+        costly: true,
+        handler: async ({ config, message, args }) => {
+            if (!config.voice.enabled) throw new CommandError(`Voice replies are disabled.`);
+            let text = args.text;
+            if (!text && message.hasQuotedMsg) text = (await message.getQuotedMessage())?.body.split(config.bot.ignoreLoopEmoji).join('').trim();
+            if (!text) throw new CommandError(`What should I say? E.g. 'say Good morning everyone', or reply to a message with 'say'.`);
+
+            // Logged like a query, so the audio lands in .llm_logs next to the other media
+            const queryId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+            const logTimestamp = getLogTimestamp(new Date());
+            let media;
+            try {
+                media = await voice.synthesize(text, { config, voice: chatSettings.get(message.chatId).voice, attribution: { queryId, senderId: message.senderId, chatId: message.chatId } });
+            } catch (e) {
+                if (e instanceof VoiceError) throw new CommandError(`${e.message}.`);
+                throw e;
+            }
+            saveMediaToLog(queryId, 'voice-reply', media.mimetype, media.data, logTimestamp);
+            await message.reply('', { media, sendAudioAsVoice: true });
+        }
+    };
+
+    const voiceSettings: Command = {
+        name: 'voice',
+        description: 'Show or change voice-note replies in this chat',
+        args: [{ name: 'setting', description: "'always', 'auto' (only when asked), 'never', a voice name, or 'reset'" }],
+        permission: 'admin',
+        handler: async ({ config, message, args }) => {
+            const settings = chatSettings.get(message.chatId);
+            const mode = settings.voiceReplies || 'auto';
+            const current = settings.voice || config.voice.voice;
+
+            if (!args.setting) {
+                if (!config.voice.enabled) return `Voice replies are disabled.`;
+                const voices = config.voice.provider === 'openai' ? `\nVoices: ${OPENAI_VOICES.join(', ')}` : '';
+                return `Voice replies: *${mode}*, voice: *${current}* (${config.voice.provider})${voices}`;
+            }
+
+            const setting = args.setting.trim();
+            const lower = setting.toLowerCase();
+            if (lower === 'always' || lower === 'never') {
+                chatSettings.update(message.chatId, { voiceReplies: lower });
+                return lower === 'always' ? `🔊 I'll answer with voice notes in this chat.` : `🔇 No voice notes in this chat.`;
+            }
+            if (lower === 'auto') {
+                chatSettings.update(message.chatId, { voiceReplies: undefined });
+                return `🔊 Voice notes only when asked for.`;
+            }
+            if (lower === 'reset') {
+                chatSettings.update(message.chatId, { voiceReplies: undefined, voice: undefined });
+                return `Voice settings reset (voice: *${config.voice.voice}*).`;
+            }
+
+            // Local engines get the voice as a command argument (often a model file), so no paths outside the working directory
+            const valid = config.voice.provider === 'openai' ? OPENAI_VOICES.includes(lower) : /^[\w.\-/]+$/.test(setting) && !setting.includes('..') && !setting.startsWith('/');
+            if (!valid) {
+                throw new CommandError(`Unknown voice "${setting}".${config.voice.provider === 'openai' ? ` Available: ${OPENAI_VOICES.join(', ')}` : ''}`);
+            }
+            const name = config.voice.provider === 'openai' ? lower : setting;
+            chatSettings.update(message.chatId, { voice: name });
+            return `🔊 Voice switched to *${name}*.`;
+        }
+    };
+
+    const config: Command = {
+        name: 'config',
+        description: 'Read a (non-secret) setting, e.g. config get bot.triggers',
+        args: [
+            { name: 'action', required: true, choices: ['get'] },
+            { name: 'key', description: 'Dotted path, e.g. models.planner.modelName. Omit for the top-level sections.' }
+        ],
+        permission: 'owner',
+        handler: async ({ config, args }) => {
+            const key = args.key;
+            if (!key) return `Sections: ${Object.keys(config).join(', ')}`;
+
+            const parts = key.split('.');
+            if (parts.some(p => SECRET_KEY_PATTERN.test(p))) throw new CommandError(`'${key}' is a secret setting.`);
+
+            let value: any = config;
+            for (const part of parts) {
+                if (value === null || typeof value !== 'object' || !(part in value)) {
+                    throw new CommandError(`Unknown setting: ${key}`);
+                }
+                value = value[part];
+            }
+            return `*${key}* =\n\`\`\`${JSON.stringify(redactSecrets(value), null, 2)}\`\`\``;
+        }
+    };
+
+    return [help, status, usage, persona, mute, unmute, listReminders, cancel, remember, listMemory, forget, say, voiceSettings, config];
+}
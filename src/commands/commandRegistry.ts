@@ -0,0 +1,175 @@
+import { AppConfig } from '../config/config';
+import { ChatMessage, ChatInfo } from '../transport/types';
+import * as utils from '../utils/messageUtils';
+import { Command, CommandContext, CommandError, CommandPermission, UsageGate } from './types';
+
+const PERMISSION_RANK: Record<CommandPermission, number> = { anyone: 0, admin: 1, owner: 2 };
+
+interface ParseResult {
+    command: Command;
+    args: Record<string, string | undefined>;
+    error?: string;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Registry of bot commands ("@g <command> [args]").
+ * A message is only treated as a command if the word after the trigger is a registered name or alias
+ * and the remaining words fit the command's argument schema; anything else goes to the LLM pipeline.
+ */
+export class CommandRegistry {
+    private commands: Command[] = [];
+
+    public register(command: Command): void {
+        for (const name of [command.name, ...(command.aliases || [])]) {
+            if (this.find(name)) throw new Error(`Command name already registered: ${name}`);
+        }
+        this.commands.push(command);
+    }
+
+    public list(): Command[] {
+        return [...this.commands];
+    }
+
+    public find(name: string): Command | undefined {
+        const lower = name.toLowerCase();
+        return this.commands.find(c => c.name === lower || c.aliases?.includes(lower));
+    }
+
+    /**
+     * Parses "<trigger> <command> [args]". Returns undefined if the message is not a command.
+     */
+    public parse(body: string, config: AppConfig): ParseResult | undefined {
+        // Longest trigger first so "@golem" is not read as "@g" + "olem"
+        const triggers = [...config.bot.triggers].sort((a, b) => b.length - a.length).map(escapeRegex);
+        const match = body.trim().match(new RegExp(`^(?:${triggers.join('|')})\\s+(\\S+)\\s*([\\s\\S]*)$`, 'i'));
+        if (!match) return undefined;
+
+        const command = this.find(match[1]);
+        if (!command) return undefined;
+
+        const words = match[2].trim() ? match[2].trim().split(/\s+/) : [];
+        const schema = command.args || [];
+        const args: Record<string, string | undefined> = {};
+
+        for (let i = 0; i < schema.length; i++) {
+            const arg = schema[i];
+            args[arg.name] = arg.rest ? (words.slice(i).join(' ') || undefined) : words[i];
+        }
+
+        // More words than the schema accepts: this is a question that happens to start with a command word
+        const hasRest = schema.some(a => a.rest);
+        if (!hasRest && words.length > schema.length) return undefined;
+
+        for (const arg of schema) {
+            const value = args[arg.name];
+            if (arg.required && !value) {
+                return { command, args, error: `Missing <${arg.name}>. Usage: ${this.formatUsage(command, config)}` };
+            }
+            if (value && arg.choices && !arg.choices.includes(value.toLowerCase())) {
+                return { command, args, error: `Invalid ${arg.name} "${value}". Expected one of: ${arg.choices.join(', ')}` };
+            }
+        }
+
+        return { command, args };
+    }
+
+    /**
+     * Resolves the sender's permission level in a chat.
+     */
+    public async getPermission(message: ChatMessage, chat: ChatInfo, config: AppConfig): Promise<CommandPermission> {
+        if (utils.isOwner(message, config)) return 'owner';
+        if (chat.isGroup) {
+            const admins = await chat.getAdminIds();
+            if (admins.includes(message.senderId)) return 'admin';
+        }
+        return 'anyone';
+    }
+
+    /**
+     * Executes the message as a command if it is one.
+     * Returns true if the message was handled (including permission and argument errors).
+     * `usageGate` runs before costly commands; without it they are not limited.
+     */
+    public async tryExecute(message: ChatMessage, config: AppConfig, usageGate?: UsageGate): Promise<boolean> {
+        const parsed = this.parse(message.body, config);
+        if (!parsed) return false;
+
+        const { command } = parsed;
+        const emoji = config.bot.ignoreLoopEmoji;
+        console.log(`[COMMAND] ${command.name} from ${message.senderId}`);
+
+        if (parsed.error) {
+            await message.reply(`${emoji} ⚠️ ${parsed.error}`);
+            return true;
+        }
+
+        const chat = await message.getChat();
+        const senderPermission = await this.getPermission(message, chat, config);
+        if (PERMISSION_RANK[senderPermission] < PERMISSION_RANK[command.permission]) {
+            console.warn(`[COMMAND] Denied ${command.name} for ${message.senderId} (${senderPermission} < ${command.permission})`);
+            await message.reply(`${emoji} ⛔ The '${command.name}' command is only available to the ${command.permission === 'admin' ? 'group admins' : 'owner'}.`);
+            return true;
+        }
+
+        if (command.costly && usageGate && !await usageGate(message, config)) return true;
+
+        const ctx: CommandContext = { message, chat, config, args: parsed.args, senderPermission };
+        try {
+            const reply = await command.handler(ctx);
+            if (reply) await message.reply(`${emoji} ${reply}`);
+        } catch (e) {
+            if (e instanceof CommandError) {
+                await message.reply(`${emoji} ⚠️ ${e.message}`);
+            } else {
+                console.error(`[COMMAND] ${command.name} failed:`, e);
+                await message.reply(`${emoji}🐛 Error running '${command.name}'.`);
+            }
+        }
+        return true;
+    }
+
+    public formatUsage(command: Command, config: AppConfig): string {
+        const trigger = config.bot.triggers[config.bot.triggers.length - 1] || "";
+        const args = (command.args || []).map(a => {
+            const label = a.choices ? a.choices.join('|') : a.name;
+            return a.required ? `<${label}>` : `[${label}]`;
+        });
+        return [trigger, command.name, ...args].join(' ');
+    }
+
+    /**
+     * Generates the help text from the registered commands.
+     */
+    public generateHelp(config: AppConfig, commandName?: string): string {
+        if (commandName) {
+            const command = this.find(commandName);
+            if (!command) throw new CommandError(`Unknown command: ${commandName}`);
+
+            const lines = [`*${command.name}* — ${command.description}`, ``, `Usage: ${this.formatUsage(command, config)}`];
+            if (command.aliases?.length) lines.push(`Aliases: ${command.aliases.join(', ')}`);
+            for (const arg of command.args || []) {
+                if (arg.description) lines.push(`- ${arg.name}: ${arg.description}`);
+            }
+            if (command.permission !== 'anyone') lines.push(`Permission: ${command.permission}`);
+            return lines.join('\n');
+        }
+
+        const trigger = config.bot.triggers[config.bot.triggers.length - 1] || "";
+        const lines = [
+            `*Golem Bot*`,
+            ``,
+            `Ask me anything with '${trigger} <question>'. Reply to a message (text, image, audio) to ask about it.`,
+            ``,
+            `*Commands*`
+        ];
+        for (const command of this.commands) {
+            const restriction = command.permission === 'anyone' ? '' : ` _(${command.permission})_`;
+            lines.push(`- ${this.formatUsage(command, config)} — ${command.description}${restriction}`);
+        }
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,45 @@
+import { AppConfig } from '../config/config';
+import { ChatMessage, ChatInfo } from '../transport/types';
+
+export type CommandPermission = 'owner' | 'admin' | 'anyone';
+
+export interface CommandArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+    /** Consumes the rest of the message (must be the last argument). */
+    rest?: boolean;
+    choices?: string[];
+}
+
+export interface CommandContext {
+    message: ChatMessage;
+    chat: ChatInfo;
+    config: AppConfig;
+    args: Record<string, string | undefined>;
+    /** Permission level of the sender, for commands that show more to privileged users. */
+    senderPermission: CommandPermission;
+}
+
+export interface Command {
+    name: string;
+    aliases?: string[];
+    description: string;
+    args?: CommandArgument[];
+    permission: CommandPermission;
+    /** Spends on a paid API (e.g. TTS): the sender's rate limit and budget apply like for a query. */
+    costly?: boolean;
+    /** Returns the reply text, or nothing if the command replied itself. */
+    handler(ctx: CommandContext): Promise<string | void>;
+}
+
+/**
+ * Checks and charges the rate limit and budget before a costly command runs.
+ * Returns false (after replying) if the sender is over them.
+ */
+export type UsageGate = (message: ChatMessage, config: AppConfig) => Promise<boolean>;
+
+/**
+ * Raised by handlers for user-facing errors (bad arguments, unknown names, ...).
+ */
+export class CommandError extends Error { }
@@ -2,46 +2,263 @@ import fs from 'fs';
 import yaml from 'js-yaml';
 import path from 'path';
 import dotenv from 'dotenv';
+import { z } from 'zod';
+import { AppConfigSchema } from './configSchema';
 
 dotenv.config();
 
+export interface ModelPricing {
+    promptPer1M: number;     // USD per 1M prompt tokens
+    completionPer1M: number; // USD per 1M completion tokens
+}
+
 export interface ModelConfig {
-    provider: 'grok' | 'openai' | 'anthropic';
+    provider: 'grok' | 'openai' | 'anthropic' | 'openai-compatible';
     modelName: string;
     apiKeyEnvVar: string;
+    baseURL?: string;             // API endpoint. Required for 'openai-compatible' (e.g. "http://localhost:11434/v1" for Ollama)
     temperature?: number;
+    timeoutSeconds?: number;      // Per attempt (default: the provider client's own)
+    maxRetries?: number;          // Retries of rate limits, server errors, timeouts and network errors (default 2)
+    retryBackoffSeconds?: number; // Wait before the first retry, doubled for each following one (default 1)
+    fallbacks?: ModelConfig[];    // Tried in order when this model still fails after its retries
+    pricing?: ModelPricing;
+    structuredOutput?: boolean; // Planner only: provider-native JSON schema output (default true)
+    supportsImages?: boolean;   // Executor only: false sends images and PDFs as text placeholders (default true)
+}
+
+export interface EmbedderConfig {
+    provider: 'openai' | 'local'; // 'local' is a deterministic offline stand-in (word hashing, no API)
+    modelName: string;
+    apiKeyEnvVar?: string;
+    dimensions?: number;          // 'local' only
+    pricing?: ModelPricing;
+}
+
+export interface SearchConfig {
+    enabled: boolean;
+    embedder: EmbedderConfig;
+    topK: number;                // Hits per search query
+    surroundingMessages: number; // Messages before and after each hit added for context
+    minScore: number;            // Cosine similarity below which hits are dropped
+}
+
+export interface TranscriptionConfig {
+    provider: 'openai' | 'local'; // 'local' runs a whisper.cpp-style CLI (no API, no cost)
+    model: string;                // OpenAI model: whisper-1, gpt-4o-transcribe, gpt-4o-mini-transcribe
+    apiKeyEnvVar: string;
+    language?: string;            // ISO-639-1 hint, e.g. "he". Auto-detected if omitted
+    prompt?: string;              // Names and terms that are often misheard
+    maxChunkSeconds: number;      // Longer audio is split into chunks (needs ffmpeg) whose transcripts are joined
+    maxUploadBytes: number;       // Larger files are re-encoded and split before upload (OpenAI accepts 25 MB)
+    local: {
+        command: string;          // e.g. "whisper-cli" from whisper.cpp
+        modelPath: string;        // e.g. "models/ggml-base.bin"
+        threads?: number;
+        timeoutSeconds: number;   // Per chunk
+    };
+}
+
+export interface VoiceConfig {
+    enabled: boolean;             // Voice-note replies ("@g say ...", or when the planner sets respond_with_voice)
+    provider: 'openai' | 'local'; // 'local' runs a command-line engine (e.g. piper, espeak-ng)
+    model: string;                // OpenAI: gpt-4o-mini-tts, tts-1, tts-1-hd
+    apiKeyEnvVar: string;
+    voice: string;                // OpenAI: alloy, ash, coral, nova, sage, ... Local: substituted for {voice} in the args
+    instructions?: string;        // gpt-4o-mini-tts only: tone, accent, pace
+    speed?: number;               // 0.25 - 4
+    maxCharacters: number;        // Longer answers are sent as text instead
+    pricePer1MCharacters: number; // USD, OpenAI TTS
+    local: {
+        command: string;
+        args: string[];           // The text is written to stdin; {output} is the audio file to write, {voice} the voice
+        timeoutSeconds: number;
+    };
+}
+
+export interface BudgetLimits {
+    user?: number;   // USD
+    chat?: number;
+    global?: number;
+}
+
+export interface UsageConfig {
+    audioPricePerMinute: number; // USD, OpenAI transcription
+    budgets: {
+        daily?: BudgetLimits;
+        monthly?: BudgetLimits;
+    };
+    onBudgetExceeded: 'block' | 'downgrade';
+    messages: {
+        budgetExceeded: string;
+        budgetDowngraded: string;
+    };
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LoggingConfig {
+    level: LogLevel;
+    format: 'pretty' | 'json'; // 'json' prints one JSON object per line (for log collectors)
+    queryEvents: boolean;      // Write each query's log lines to events.jsonl in its .llm_logs directory
+    retention: {
+        maxAgeDays: number;           // Query log directories older than this are deleted (0 = keep)
+        maxTotalMB: number;           // The oldest directories are deleted above this size (0 = unlimited)
+        redactMedia: boolean;         // Delete saved media and replace base64 blobs in finished queries' logs
+        sweepIntervalMinutes: number;
+    };
+}
+
+export interface AdminConfig {
+    enabled: boolean;
+    host: string;          // Keep on localhost; put a reverse proxy with TLS in front to reach it remotely
+    port: number;
+    tokenEnvVar: string;   // Env var holding the token every request must carry. Not started without it.
+    recentQueries: number; // Queries read from .llm_logs for the status page
+}
+
+export interface RateLimitRule {
+    maxRequests: number;
+    windowHours: number;
+    reasoningMaxRequests?: number; // Reasoning-model requests, on top of counting toward maxRequests. Unlimited if omitted.
+}
+
+export interface RateLimitTier extends Partial<RateLimitRule> {
+    unlimited?: boolean;
+    members?: string[]; // Sender IDs. A trailing '*' matches a prefix (e.g. "972*").
+}
+
+export interface RateLimitConfig extends RateLimitRule {
+    tiers: Record<string, RateLimitTier>;
+    defaultTier: string;
+    unknownContactTier?: string; // Tier for senders not saved in the owner's contacts
+    chat?: RateLimitRule;
+    global?: RateLimitRule;
+    messages: {
+        exceeded: string;
+        reasoningDowngraded: string;
+    };
+}
+
+export type ModelRole = 'planner' | 'executorFast' | 'executorReasoning' | 'executorVision';
+
+/**
+ * Settings a chat can override under `chats:`, keyed by chat ID or by chat name ("Family*" matches by prefix).
+ */
+export interface ChatOverride {
+    triggers?: string[];
+    persona?: string;                                      // Default persona of the chat (the persona command still wins)
+    models?: Partial<Record<ModelRole, Partial<ModelConfig>>>;
+    features?: Partial<AppConfig['features']>;
+    transcription?: Pick<Partial<TranscriptionConfig>, 'language' | 'prompt'>;
+    voice?: Pick<Partial<VoiceConfig>, 'enabled' | 'voice' | 'instructions' | 'speed'>;
+    rateLimit?: Partial<Omit<RateLimitConfig, 'messages'>>;
+    history?: {
+        tokenBudget?: number;
+        maxDays?: number;                                  // How far back history may be read (0 = unlimited)
+    };
 }
 
 export interface AppConfig {
     bot: {
         triggers: string[];
-        rateLimit: {
-            maxRequests: number;
-            windowHours: number;
-        };
+        rateLimit: RateLimitConfig;
         ignoreLoopEmoji: string;
         ownerName: string;
+        ownerIds: string[];
+        timezone: string; // IANA zone of the owner, e.g. "Asia/Jerusalem". Used for reminders, relative dates and budget periods.
+        persona?: string; // Default executor persona (a file in src/prompts/personas/)
     };
     models: {
         planner: ModelConfig;
         executorFast: ModelConfig;
         executorReasoning: ModelConfig;
+        executorVision?: ModelConfig; // Model for image content. The fast model is used if omitted.
     };
     features: {
         audioTranscription: boolean;
         imageAnalysis: boolean;
+        documentAnalysis: boolean; // PDF, DOCX, TXT, CSV and XLSX attachments read as text
+        videoAnalysis: boolean;    // Videos as keyframes and an audio transcript (needs ffmpeg)
+    };
+    transcription: TranscriptionConfig;
+    voice: VoiceConfig;
+    documents: {
+        maxBytes: number;          // Larger documents are not downloaded for analysis
+        maxTokens: number;         // Text of the queried document given to the executor; longer ones are chunked
+        historyMaxTokens: number;  // Per document in the history
+        chunkTokens: number;       // Chunk size; the chunks most related to the query are picked
+        maxScannedPages: number;   // PDFs without a text layer are sent as images of their first pages
     };
+    video: {
+        maxBytes: number;          // Larger videos are not downloaded for analysis
+        frames: number;            // Frames spread over the video the query is about
+        historyFrames: number;     // Per video in the history (0 = transcript only)
+        transcribeAudio: boolean;  // Transcribe the audio track (also needs features.audioTranscription)
+    };
+    vision: {
+        maxImages: number;         // Images and PDFs per executor request; older ones become placeholders
+        maxImageDimension: number; // Longest side in pixels; larger images are downscaled (needs ffmpeg)
+        maxImageBytes: number;     // Images still larger than this are left out
+    };
+    responses: {
+        whatsappFormatting: boolean; // Convert the executor's Markdown (headings, **bold**, tables) to WhatsApp formatting
+        maxMessageLength: number;    // Longer answers are split into numbered consecutive messages
+        maxParts: number;            // Messages per answer; the rest is truncated
+    };
+    usage: UsageConfig;
+    logging: LoggingConfig;
+    admin: AdminConfig;
+    tools: {
+        enabled: boolean;
+        maxSteps: number; // Max model calls per query in the executor tool loop
+    };
+    archive: {
+        backfillChats: number;      // Most recently active chats backfilled on startup (0 to disable)
+        backfillLimit: number;      // Messages fetched per chat on backfill
+        fetchLimit: number;         // Messages fetched from the transport when the archive has a gap
+        historyTokenBudget: number; // Max estimated tokens of history added to the executor context
+        maxHistoryDays: number;     // How far back history may be read for a query (0 = unlimited)
+    };
+    search: SearchConfig;
+    reminders: {
+        enabled: boolean;
+        maxPerChat: number;           // Pending reminders allowed per chat
+        checkIntervalSeconds: number; // How often the scheduler looks for due reminders
+    };
+    memory: {
+        enabled: boolean;
+        updateEveryMessages: number;   // New messages in a chat before its summary and facts are updated
+        maxMessagesPerUpdate: number;  // Only the newest messages are read when more piled up
+        maxFacts: number;              // Per chat; the oldest extracted facts are dropped first
+        maxFactsInContext: number;     // Facts given to the executor (most related to the query first)
+    };
+    chats: Record<string, ChatOverride>;
 }
 
-const DEFAULT_CONFIG: AppConfig = {
+/**
+ * Built-in defaults. config.yaml and GOLEM__* environment variables are merged on top.
+ */
+export const DEFAULT_CONFIG: AppConfig = {
     bot: {
         triggers: ["@golem", "@g"],
         rateLimit: {
             maxRequests: 10,
-            windowHours: 1
+            windowHours: 1,
+            tiers: {
+                owner: { unlimited: true },
+                default: {}
+            },
+            defaultTier: "default",
+            messages: {
+                exceeded: "🛑 Rate limit exceeded ({scope}: {limit} requests per {windowHours}h). {remaining} left, resets at {reset}.",
+                reasoningDowngraded: "_(Reasoning quota used up, answered with the fast model. Resets at {reset}.)_"
+            }
         },
         ignoreLoopEmoji: "🗿",
-        ownerName: "Evyatar"
+        ownerName: "Owner",
+        ownerIds: [],
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
     },
     models: {
         planner: {
@@ -65,44 +282,353 @@ const DEFAULT_CONFIG: AppConfig = {
     },
     features: {
         audioTranscription: true,
-        imageAnalysis: true
-    }
+        imageAnalysis: true,
+        documentAnalysis: true,
+        videoAnalysis: true
+    },
+    transcription: {
+        provider: 'openai',
+        model: 'whisper-1',
+        apiKeyEnvVar: 'OPENAI_API_KEY',
+        maxChunkSeconds: 600,
+        maxUploadBytes: 24 * 1024 * 1024,
+        local: {
+            command: 'whisper-cli',
+            modelPath: 'models/ggml-base.bin',
+            timeoutSeconds: 600
+        }
+    },
+    voice: {
+        enabled: true,
+        provider: 'openai',
+        model: 'gpt-4o-mini-tts',
+        apiKeyEnvVar: 'OPENAI_API_KEY',
+        voice: 'alloy',
+        maxCharacters: 1500,
+        pricePer1MCharacters: 15,
+        local: {
+            command: 'piper',
+            args: ['--model', '{voice}', '--output_file', '{output}'],
+            timeoutSeconds: 60
+        }
+    },
+    documents: {
+        maxBytes: 20 * 1024 * 1024,
+        maxTokens: 8000,
+        historyMaxTokens: 1000,
+        chunkTokens: 600,
+        maxScannedPages: 4
+    },
+    video: {
+        maxBytes: 64 * 1024 * 1024,
+        frames: 4,
+        historyFrames: 1,
+        transcribeAudio: true
+    },
+    vision: {
+        maxImages: 4,
+        maxImageDimension: 1568,
+        maxImageBytes: 5 * 1024 * 1024
+    },
+    responses: {
+        whatsappFormatting: true,
+        maxMessageLength: 3500,
+        maxParts: 8
+    },
+    usage: {
+        audioPricePerMinute: 0.006,
+        budgets: {},
+        onBudgetExceeded: 'downgrade',
+        messages: {
+            budgetExceeded: "💸 The {period} {scope} budget (${limit}) is used up. Try again later.",
+            budgetDowngraded: "_({period} {scope} budget used up, answered with the fast model.)_"
+        }
+    },
+    logging: {
+        level: 'info',
+        format: 'pretty',
+        queryEvents: true,
+        retention: {
+            maxAgeDays: 30,
+            maxTotalMB: 1024,
+            redactMedia: false,
+            sweepIntervalMinutes: 60
+        }
+    },
+    admin: {
+        enabled: false,
+        host: '127.0.0.1',
+        port: 8787,
+        tokenEnvVar: 'GOLEM_ADMIN_TOKEN',
+        recentQueries: 20
+    },
+    tools: {
+        enabled: true,
+        maxSteps: 5
+    },
+    archive: {
+        backfillChats: 20,
+        backfillLimit: 500,
+        fetchLimit: 300,
+        historyTokenBudget: 12000,
+        maxHistoryDays: 0
+    },
+    search: {
+        enabled: true,
+        embedder: {
+            provider: 'openai',
+            modelName: 'text-embedding-3-small',
+            apiKeyEnvVar: 'OPENAI_API_KEY'
+        },
+        topK: 5,
+        surroundingMessages: 2,
+        minScore: 0.3
+    },
+    reminders: {
+        enabled: true,
+        maxPerChat: 20,
+        checkIntervalSeconds: 30
+    },
+    memory: {
+        enabled: true,
+        updateEveryMessages: 50,
+        maxMessagesPerUpdate: 300,
+        maxFacts: 100,
+        maxFactsInContext: 15
+    },
+    chats: {}
 };
 
+// Chat IDs contain an '@' ("972501234567@c.us", "1203...@g.us"). Other keys are chat names, where '*' matches anything.
+function isChatId(key: string): boolean {
+    return key.includes('@');
+}
+
+function matchesNamePattern(pattern: string, name: string): boolean {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+    return regex.test(name);
+}
+
+/**
+ * Whether resolving a chat's config needs the chat name (some `chats:` keys are names rather than IDs).
+ */
+export function chatOverridesUseNames(config: AppConfig): boolean {
+    return Object.keys(config.chats).some(key => !isChatId(key));
+}
+
+/**
+ * The overrides that apply to a chat: name patterns in file order, then the exact chat ID (most specific wins).
+ */
+export function getChatOverrides(config: AppConfig, chat: { id: string; name?: string }): ChatOverride[] {
+    const overrides = Object.entries(config.chats)
+        .filter(([key]) => key !== chat.id && chat.name !== undefined && matchesNamePattern(key, chat.name))
+        .map(([, override]) => override || {});
+    if (config.chats[chat.id]) overrides.push(config.chats[chat.id]);
+    return overrides;
+}
+
+/**
+ * The effective config of a chat: the global config with the chat's overrides applied.
+ * Returns the global config itself when no override matches.
+ */
+export function resolveChatConfig(config: AppConfig, chat: { id: string; name?: string }): AppConfig {
+    const overrides = getChatOverrides(config, chat);
+    if (overrides.length === 0) return config;
+
+    return overrides.reduce<AppConfig>((effective, override) => ({
+        ...effective,
+        bot: {
+            ...effective.bot,
+            triggers: override.triggers ?? effective.bot.triggers,
+            persona: override.persona ?? effective.bot.persona,
+            rateLimit: {
+                ...effective.bot.rateLimit,
+                ...override.rateLimit,
+                tiers: { ...effective.bot.rateLimit.tiers, ...override.rateLimit?.tiers }
+            }
+        },
+        models: {
+            planner: { ...effective.models.planner, ...override.models?.planner },
+            executorFast: { ...effective.models.executorFast, ...override.models?.executorFast },
+            executorReasoning: { ...effective.models.executorReasoning, ...override.models?.executorReasoning },
+            // A chat may tweak the vision model even if only the fast model is configured globally
+            executorVision: effective.models.executorVision || override.models?.executorVision
+                ? { ...(effective.models.executorVision ?? effective.models.executorFast), ...override.models?.executorVision }
+                : undefined
+        },
+        features: { ...effective.features, ...override.features },
+        transcription: { ...effective.transcription, ...override.transcription },
+        voice: { ...effective.voice, ...override.voice },
+        archive: {
+            ...effective.archive,
+            historyTokenBudget: override.history?.tokenBudget ?? effective.archive.historyTokenBudget,
+            maxHistoryDays: override.history?.maxDays ?? effective.archive.maxHistoryDays
+        }
+    }), config);
+}
+
+export class ConfigError extends Error { }
+
+export type ConfigReloadListener = (config: AppConfig, previous: AppConfig) => void;
+
+// Environment overrides: GOLEM__<SECTION>__<KEY>=value, e.g. GOLEM__MODELS__EXECUTORFAST__MODELNAME=gpt-5-mini
+const ENV_PREFIX = 'GOLEM__';
+// Editors often write a file in several steps; wait for them to finish before reloading
+const RELOAD_DEBOUNCE_MS = 300;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively merges `override` into `base` without modifying either. Arrays and scalars replace,
+ * null/undefined keep the base value (an empty YAML section is null).
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return override === undefined || override === null ? base : override as T;
+    }
+    const merged: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        merged[key] = key in merged ? deepMerge(merged[key], value) : value;
+    }
+    return merged as T;
+}
+
+/**
+ * Applies GOLEM__* environment variables on top of the config. Path segments match keys case-insensitively;
+ * values are parsed as YAML scalars ("true", "5", "[a, b]"). Returns the names of the applied variables.
+ */
+function applyEnvOverrides(config: Record<string, any>, env: NodeJS.ProcessEnv): string[] {
+    const applied: string[] = [];
+    for (const [name, raw] of Object.entries(env)) {
+        if (!name.startsWith(ENV_PREFIX) || raw === undefined) continue;
+        const segments = name.slice(ENV_PREFIX.length).split('__').filter(Boolean);
+        if (segments.length === 0) continue;
+
+        let value: unknown = raw;
+        try {
+            value = yaml.load(raw);
+        } catch (e) {
+            // Not valid YAML, use the raw string
+        }
+
+        let node = config;
+        segments.forEach((segment, i) => {
+            const key = Object.keys(node).find(k => k.toLowerCase() === segment.toLowerCase()) ?? segment;
+            if (i === segments.length - 1) {
+                node[key] = value;
+            } else {
+                if (!isPlainObject(node[key])) node[key] = {};
+                node = node[key];
+            }
+        });
+        applied.push(name);
+    }
+    return applied;
+}
+
 export class ConfigLoader {
     private static instance: AppConfig;
+    private static listeners: ConfigReloadListener[] = [];
+    private static watcher?: fs.FSWatcher;
 
-    public static load(): AppConfig {
-        if (this.instance) return this.instance;
+    private static getConfigPath(): string {
+        return path.join(process.cwd(), 'config.yaml');
+    }
 
-        const configPath = path.join(process.cwd(), 'config.yaml');
-        let fileConfig: any = {};
+    /**
+     * Builds the config from the defaults, config.yaml and GOLEM__* environment variables, and validates it.
+     * Throws a ConfigError with every problem found.
+     */
+    private static build(): AppConfig {
+        const configPath = this.getConfigPath();
+        let fileConfig: unknown = {};
 
         if (fs.existsSync(configPath)) {
             try {
-                const fileContents = fs.readFileSync(configPath, 'utf8');
-                fileConfig = yaml.load(fileContents);
-                console.log(`[CONFIG] Loaded configuration from ${configPath}`);
-            } catch (e) {
-                console.warn(`[CONFIG] Failed to parse config.yaml, using defaults. Error: ${e}`);
+                fileConfig = yaml.load(fs.readFileSync(configPath, 'utf8')) ?? {};
+            } catch (e: any) {
+                throw new ConfigError(`Failed to parse ${configPath}: ${e.message}`);
             }
+            if (!isPlainObject(fileConfig)) throw new ConfigError(`${configPath} must contain a YAML mapping.`);
         } else {
             console.log(`[CONFIG] No config.yaml found, using defaults.`);
         }
 
-        // Deep merge is better, but for now simple spread is okay-ish if structure matches.
-        // To be safe, let's manually constructing the final object to ensure types.
+        const merged = deepMerge(DEFAULT_CONFIG, fileConfig);
+        const envOverrides = applyEnvOverrides(merged, process.env);
+        if (envOverrides.length > 0) console.log(`[CONFIG] Environment overrides: ${envOverrides.join(', ')}`);
 
-        this.instance = {
-            bot: { ...DEFAULT_CONFIG.bot, ...fileConfig.bot },
-            models: {
-                planner: { ...DEFAULT_CONFIG.models.planner, ...fileConfig.models?.planner },
-                executorFast: { ...DEFAULT_CONFIG.models.executorFast, ...fileConfig.models?.executorFast },
-                executorReasoning: { ...DEFAULT_CONFIG.models.executorReasoning, ...fileConfig.models?.executorReasoning },
-            },
-            features: { ...DEFAULT_CONFIG.features, ...fileConfig.features }
-        };
+        const result = AppConfigSchema.safeParse(merged);
+        if (!result.success) {
+            throw new ConfigError(`Invalid configuration (${configPath}):\n${z.prettifyError(result.error)}`);
+        }
+        return result.data;
+    }
 
+    public static load(): AppConfig {
+        if (this.instance) return this.instance;
+
+        this.instance = this.build();
+        console.log(`[CONFIG] Loaded configuration from ${this.getConfigPath()}`);
         return this.instance;
     }
+
+    /**
+     * Re-reads the config and swaps it in place, so everyone holding the config object sees the new values.
+     * An invalid config is reported and the current one is kept. Returns whether the config was replaced.
+     */
+    public static reload(): boolean {
+        const current = this.load();
+        let next: AppConfig;
+        try {
+            next = this.build();
+        } catch (e: any) {
+            console.error(`[CONFIG] Reload failed, keeping the current configuration.\n${e.message}`);
+            return false;
+        }
+
+        const previous = { ...current };
+        const changed = (Object.keys(next) as Array<keyof AppConfig>).filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+        if (changed.length === 0) return false;
+
+        Object.assign(current, next);
+        console.log(`[CONFIG] Reloaded configuration (changed: ${changed.join(', ')})`);
+        for (const listener of this.listeners) {
+            try {
+                listener(current, previous);
+            } catch (e) {
+                console.error(`[CONFIG] Reload listener failed`, e);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Reloads the config whenever config.yaml changes. The listener runs after each successful reload,
+     * with the (updated) config and a snapshot of the previous one.
+     */
+    public static watch(listener?: ConfigReloadListener): void {
+        if (listener) this.listeners.push(listener);
+        if (this.watcher) return;
+
+        // Watch the directory: editors replace the file rather than writing it in place
+        const configPath = this.getConfigPath();
+        let timer: NodeJS.Timeout | undefined;
+        this.watcher = fs.watch(path.dirname(configPath), (event, filename) => {
+            if (filename !== path.basename(configPath)) return;
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => this.reload(), RELOAD_DEBOUNCE_MS);
+        });
+        this.watcher.unref();
+        console.log(`[CONFIG] Watching ${configPath} for changes`);
+    }
+
+    /**
+     * The effective config of a chat (see resolveChatConfig).
+     */
+    public static forChat(chat: { id: string; name?: string }): AppConfig {
+        return resolveChatConfig(this.load(), chat);
+    }
 }
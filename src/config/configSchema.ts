@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import type { AppConfig } from './config';
+
+/**
+ * Schema of the merged configuration (defaults + config.yaml + environment overrides).
+ * Objects are strict so typos in keys are reported instead of silently ignored.
+ */
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+const PricingSchema = z.strictObject({
+    promptPer1M: z.number().nonnegative(),
+    completionPer1M: z.number().nonnegative()
+});
+
+const ProviderSchema = z.enum(['grok', 'openai', 'anthropic', 'openai-compatible']);
+
+const ModelConfigFields = {
+    provider: ProviderSchema,
+    modelName: z.string().min(1),
+    apiKeyEnvVar: z.string().min(1),
+    baseURL: z.url().optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    timeoutSeconds: z.number().positive().optional(),
+    maxRetries: z.number().int().nonnegative().optional(),
+    retryBackoffSeconds: z.number().nonnegative().optional(),
+    pricing: PricingSchema.optional(),
+    structuredOutput: z.boolean().optional(),
+    supportsImages: z.boolean().optional()
+};
+
+const requiresBaseURL = (c: { provider?: string; baseURL?: string }) => c.provider !== 'openai-compatible' || !!c.baseURL;
+const baseURLMessage = { message: "baseURL is required for the 'openai-compatible' provider", path: ['baseURL'] };
+
+// Fallback models can't have fallbacks of their own
+const FallbackModelSchema = z.strictObject(ModelConfigFields).refine(requiresBaseURL, baseURLMessage);
+
+const ModelConfigObjectSchema = z.strictObject({
+    ...ModelConfigFields,
+    fallbacks: z.array(FallbackModelSchema).optional()
+});
+
+export const ModelConfigSchema = ModelConfigObjectSchema.refine(requiresBaseURL, baseURLMessage);
+
+const RateLimitRuleSchema = z.strictObject({
+    maxRequests: z.number().int().nonnegative(),
+    windowHours: z.number().positive(),
+    reasoningMaxRequests: z.number().int().nonnegative().optional()
+});
+
+const RateLimitTierSchema = z.strictObject({
+    maxRequests: z.number().int().nonnegative().optional(),
+    windowHours: z.number().positive().optional(),
+    reasoningMaxRequests: z.number().int().nonnegative().optional(),
+    unlimited: z.boolean().optional(),
+    members: z.array(z.string()).optional()
+});
+
+const RateLimitConfigSchema = z.strictObject({
+    ...RateLimitRuleSchema.shape,
+    tiers: z.record(z.string(), RateLimitTierSchema),
+    defaultTier: z.string(),
+    unknownContactTier: z.string().optional(),
+    chat: RateLimitRuleSchema.optional(),
+    global: RateLimitRuleSchema.optional(),
+    messages: z.strictObject({
+        exceeded: z.string(),
+        reasoningDowngraded: z.string()
+    })
+}).refine(c => c.tiers[c.defaultTier] !== undefined, { message: "defaultTier must name one of the tiers", path: ['defaultTier'] })
+    .refine(c => !c.unknownContactTier || c.tiers[c.unknownContactTier] !== undefined, { message: "unknownContactTier must name one of the tiers", path: ['unknownContactTier'] });
+
+const FeaturesSchema = z.strictObject({
+    audioTranscription: z.boolean(),
+    imageAnalysis: z.boolean(),
+    documentAnalysis: z.boolean(),
+    videoAnalysis: z.boolean()
+});
+
+const TranscriptionSchema = z.strictObject({
+    provider: z.enum(['openai', 'local']),
+    model: z.string().min(1),
+    apiKeyEnvVar: z.string().min(1),
+    language: z.string().regex(/^[a-z]{2,3}$/, { message: "ISO-639-1 language code, e.g. \"he\"" }).optional(),
+    prompt: z.string().optional(),
+    maxChunkSeconds: z.number().int().min(30),
+    maxUploadBytes: z.number().int().positive(),
+    local: z.strictObject({
+        command: z.string().min(1),
+        modelPath: z.string().min(1),
+        threads: z.number().int().positive().optional(),
+        timeoutSeconds: z.number().positive()
+    })
+});
+
+const VoiceSchema = z.strictObject({
+    enabled: z.boolean(),
+    provider: z.enum(['openai', 'local']),
+    model: z.string().min(1),
+    apiKeyEnvVar: z.string().min(1),
+    voice: z.string().min(1),
+    instructions: z.string().optional(),
+    speed: z.number().min(0.25).max(4).optional(),
+    maxCharacters: z.number().int().positive(),
+    pricePer1MCharacters: z.number().nonnegative(),
+    local: z.strictObject({
+        command: z.string().min(1),
+        args: z.array(z.string()).refine(args => args.some(a => a.includes('{output}')), { message: "One argument must contain {output}" }),
+        timeoutSeconds: z.number().positive()
+    })
+});
+
+const ChatOverrideSchema = z.strictObject({
+    triggers: z.array(z.string().min(1)).min(1).optional(),
+    persona: z.string().min(1).optional(),
+    models: z.strictObject({
+        planner: ModelConfigObjectSchema.partial().optional(),
+        executorFast: ModelConfigObjectSchema.partial().optional(),
+        executorReasoning: ModelConfigObjectSchema.partial().optional(),
+        executorVision: ModelConfigObjectSchema.partial().optional()
+    }).optional(),
+    features: FeaturesSchema.partial().optional(),
+    transcription: TranscriptionSchema.pick({ language: true, prompt: true }).optional(),
+    voice: VoiceSchema.pick({ enabled: true, voice: true, instructions: true, speed: true }).partial().optional(),
+    rateLimit: z.strictObject({
+        ...RateLimitRuleSchema.partial().shape,
+        tiers: z.record(z.string(), RateLimitTierSchema).optional(),
+        defaultTier: z.string().optional(),
+        unknownContactTier: z.string().optional(),
+        chat: RateLimitRuleSchema.optional(),
+        global: RateLimitRuleSchema.optional()
+    }).optional(),
+    history: z.strictObject({
+        tokenBudget: z.number().int().positive().optional(),
+        maxDays: z.number().nonnegative().optional()
+    }).optional()
+});
+
+const BudgetLimitsSchema = z.strictObject({
+    user: z.number().nonnegative().optional(),
+    chat: z.number().nonnegative().optional(),
+    global: z.number().nonnegative().optional()
+});
+
+export const AppConfigSchema: z.ZodType<AppConfig> = z.strictObject({
+    bot: z.strictObject({
+        triggers: z.array(z.string().min(1)).min(1),
+        rateLimit: RateLimitConfigSchema,
+        ignoreLoopEmoji: z.string().min(1),
+        ownerName: z.string().min(1),
+        ownerIds: z.array(z.string()),
+        timezone: z.string().refine(isValidTimeZone, { message: "Unknown IANA time zone (e.g. \"Asia/Jerusalem\")" }),
+        persona: z.string().min(1).optional()
+    }),
+    models: z.strictObject({
+        planner: ModelConfigSchema,
+        executorFast: ModelConfigSchema,
+        executorReasoning: ModelConfigSchema,
+        executorVision: ModelConfigSchema.optional()
+    }),
+    features: FeaturesSchema,
+    transcription: TranscriptionSchema,
+    voice: VoiceSchema,
+    documents: z.strictObject({
+        maxBytes: z.number().int().positive(),
+        maxTokens: z.number().int().min(100),
+        historyMaxTokens: z.number().int().nonnegative(),
+        chunkTokens: z.number().int().min(50),
+        maxScannedPages: z.number().int().nonnegative()
+    }),
+    video: z.strictObject({
+        maxBytes: z.number().int().positive(),
+        frames: z.number().int().min(1),
+        historyFrames: z.number().int().nonnegative(),
+        transcribeAudio: z.boolean()
+    }),
+    vision: z.strictObject({
+        maxImages: z.number().int().min(1),
+        maxImageDimension: z.number().int().min(64),
+        maxImageBytes: z.number().int().positive()
+    }),
+    responses: z.strictObject({
+        whatsappFormatting: z.boolean(),
+        maxMessageLength: z.number().int().min(200),
+        maxParts: z.number().int().min(1)
+    }),
+    usage: z.strictObject({
+        audioPricePerMinute: z.number().nonnegative(),
+        budgets: z.strictObject({
+            daily: BudgetLimitsSchema.optional(),
+            monthly: BudgetLimitsSchema.optional()
+        }),
+        onBudgetExceeded: z.enum(['block', 'downgrade']),
+        messages: z.strictObject({
+            budgetExceeded: z.string(),
+            budgetDowngraded: z.string()
+        })
+    }),
+    logging: z.strictObject({
+        level: z.enum(['debug', 'info', 'warn', 'error']),
+        format: z.enum(['pretty', 'json']),
+        queryEvents: z.boolean(),
+        retention: z.strictObject({
+            maxAgeDays: z.number().nonnegative(),
+            maxTotalMB: z.number().nonnegative(),
+            redactMedia: z.boolean(),
+            sweepIntervalMinutes: z.number().positive()
+        })
+    }),
+    admin: z.strictObject({
+        enabled: z.boolean(),
+        host: z.string().min(1),
+        port: z.number().int().min(1).max(65535),
+        tokenEnvVar: z.string().min(1),
+        recentQueries: z.number().int().positive()
+    }),
+    tools: z.strictObject({
+        enabled: z.boolean(),
+        maxSteps: z.number().int().min(1)
+    }),
+    archive: z.strictObject({
+        backfillChats: z.number().int().nonnegative(),
+        backfillLimit: z.number().int().positive(),
+        fetchLimit: z.number().int().positive(),
+        historyTokenBudget: z.number().int().positive(),
+        maxHistoryDays: z.number().nonnegative()
+    }),
+    search: z.strictObject({
+        enabled: z.boolean(),
+        embedder: z.strictObject({
+            provider: z.enum(['openai', 'local']),
+            modelName: z.string().min(1),
+            apiKeyEnvVar: z.string().optional(),
+            dimensions: z.number().int().positive().optional(),
+            pricing: PricingSchema.optional()
+        }),
+        topK: z.number().int().positive(),
+        surroundingMessages: z.number().int().nonnegative(),
+        minScore: z.number().min(-1).max(1)
+    }),
+    reminders: z.strictObject({
+        enabled: z.boolean(),
+        maxPerChat: z.number().int().positive(),
+        checkIntervalSeconds: z.number().positive()
+    }),
+    memory: z.strictObject({
+        enabled: z.boolean(),
+        updateEveryMessages: z.number().int().positive(),
+        maxMessagesPerUpdate: z.number().int().positive(),
+        maxFacts: z.number().int().positive(),
+        maxFactsInContext: z.number().int().nonnegative()
+    }),
+    chats: z.record(z.string(), ChatOverrideSchema)
+});
@@ -0,0 +1,858 @@
+import { AppConfig, chatOverridesUseNames, resolveChatConfig } from '../config/config';
+import { PlannerAgent, PlannerOutput } from '../agents/planner';
+import { ExecutorAgent } from '../agents/executor';
+import { RateLimiter, RateLimitSubject, RateLimitDecision } from '../services/rateLimiter';
+import { AudioService } from '../services/audioService';
+import { UsageLedger, BudgetStatus } from '../services/usageLedger';
+import { ChatSettingsStore } from '../services/chatSettingsStore';
+import { ReminderScheduler } from '../services/reminderScheduler';
+import { MessageArchive, ArchivedMessage, fitToTokenBudget, getHistoryCutoff } from '../services/messageArchive';
+import { SemanticIndex } from '../services/semanticIndex';
+import { ChatMemory } from '../services/chatMemory';
+import { VoiceService } from '../services/voiceService';
+import { DocumentService } from '../services/documentService';
+import { VideoService } from '../services/videoService';
+import { CommandRegistry } from '../commands/commandRegistry';
+import { ChatTransport, ChatMessage, ChatInfo, MediaPayload } from '../transport/types';
+import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
+import * as utils from '../utils/messageUtils';
+import { getLogTimestamp, formatClockTime, formatPromptTime, formatZonedTime, parseZonedDate, resolveTimePoint, resolveTimeExpression } from '../utils/dateUtils';
+import { saveMediaToLog } from '../utils/logUtils';
+import { logger, runWithLogContext, setLogContext } from '../utils/logger';
+import { splitMessage, toWhatsAppFormat } from '../utils/formatUtils';
+import { QueryContext } from './types';
+import { createExecutorTools } from '../agents/tools/executorTools';
+
+export interface PipelineServices {
+    planner: PlannerAgent;
+    executor: ExecutorAgent;
+    rateLimiter: RateLimiter;
+    audioService: AudioService;
+    usageLedger: UsageLedger;
+    chatSettings: ChatSettingsStore;
+    commands: CommandRegistry;
+    reminders: ReminderScheduler;
+    archive: MessageArchive;
+    semanticIndex: SemanticIndex;
+    memory: ChatMemory;
+    voice: VoiceService;
+    documents: DocumentService;
+    video: VideoService;
+}
+
+
+/**
+ * The Planner -> Executor message flow, independent of the chat platform.
+ */
+export class MessagePipeline {
+    // Planners of chats that override the planner model, keyed by its config
+    private chatPlanners: Map<string, PlannerAgent> = new Map();
+
+    constructor(
+        private config: AppConfig,
+        private transport: ChatTransport,
+        private services: PipelineServices
+    ) { }
+
+    // --- High Level Flow Functions ---
+
+    /**
+     * Main message handler. Registered on the transport for every created message.
+     * Everything logged while handling it carries its chat and sender (and the query ID, once it has one).
+     */
+    public handle(message: ChatMessage): Promise<void> {
+        return runWithLogContext({ chatId: message.chatId, sender: message.senderId }, () => this.processMessage(message));
+    }
+
+    private async processMessage(message: ChatMessage): Promise<void> {
+        try {
+            // 1. Loop Prevention
+            if (this.shouldIgnoreLoop(message)) return;
+
+            // Every decision below uses the chat's effective config (global config + `chats:` overrides)
+            const config = await this.getChatConfig(message);
+
+            // 2. Triggers & Commands
+            const shouldProcess = await this.handleTriggersAndCommands(message, config);
+            if (!shouldProcess) return;
+
+            // 3. Rate Limit
+            const rateLimitSubject = await this.getRateLimitSubject(message);
+            const isAllowed = await this.checkRateLimit(message, rateLimitSubject, config);
+            if (!isAllowed) return;
+
+            // 3b. Budget
+            const budget = this.getBudgetStatus(message);
+            if (budget.exceeded && config.usage.onBudgetExceeded === 'block') {
+                console.warn(`[BUDGET] Blocked ${message.senderId}: ${budget.period} ${budget.scope} budget exceeded ($${budget.spent?.toFixed(2)} / $${budget.limit})`);
+                await message.reply(`${config.bot.ignoreLoopEmoji} ${this.formatBudgetMessage(config.usage.messages.budgetExceeded, budget)}`);
+                return;
+            }
+
+            console.log('\n\n[START] Processing request from', message.senderId);
+            const chat = await message.getChat();
+
+            // 4. Input Preparation
+            const isExplicitTranscription = utils.isExplicitTranscription(message.body);
+            if (isExplicitTranscription) console.log(`[TRIGGER] Explicit transcription detected`);
+
+            let cleanBody = utils.cleanMessageBody(message.body, config);
+            if (isExplicitTranscription && cleanBody.length === 0) cleanBody = "Transcribe this audio";
+
+            // 5. PLANNING
+            const plannerContext = await this.getPlannerContext(message, chat, config);
+            const senderName = await utils.getSenderName(message);
+            // The planner sees the chat's persona, e.g. to prefer the reasoning model for a tutor
+            const persona = this.services.executor.getPersona(this.services.chatSettings.get(message.chatId).persona || config.bot.persona);
+            const personaInfo = `${persona.name} (${persona.description}${persona.model ? `, prefers the ${persona.model} model` : ''})`;
+            const metadata = `Sender: ${senderName}, Timestamp: ${new Date().toISOString()}, Local Time: ${formatPromptTime(new Date(), config.bot.timezone)}, Persona: ${personaInfo}`;
+
+            // Extact timestamp from message (it's in seconds, convert to ms)
+            const messageDate = new Date(message.timestamp * 1000);
+            const logTimestamp = getLogTimestamp(messageDate);
+
+            // Generate Query ID
+            const queryId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+            const startedAt = Date.now();
+            setLogContext({ queryId, logTimestamp });
+            logger.info('START', `Query ID: ${queryId}`, { query: cleanBody, senderName });
+            const query: QueryContext = { queryId, logTimestamp, senderId: message.senderId, chatId: message.chatId };
+
+            console.log("[PLANNER] Analyzing context...");
+            const plan = await this.getPlanner(config).plan(cleanBody, metadata, plannerContext, queryId, logTimestamp, query);
+            console.log(`[PLAN]`, JSON.stringify(plan, null, 2));
+            const notes: string[] = [];
+            const rateLimitNote = this.chargeRateLimit(plan, rateLimitSubject, config);
+            if (rateLimitNote) notes.push(rateLimitNote);
+            if (budget.exceeded && plan.target_model !== 'fast') {
+                console.warn(`[BUDGET] ${budget.period} ${budget.scope} budget exceeded. Downgrading to fast.`);
+                plan.target_model = 'fast';
+                notes.push(this.formatBudgetMessage(config.usage.messages.budgetDowngraded, budget));
+            }
+
+            // 6. GATHER CONTEXT
+            const contextMessages = await this.gatherContext(message, chat, plan, cleanBody, isExplicitTranscription, query, config);
+
+            // 6b. REMINDERS (tell the executor what was scheduled so it can confirm, right before the query)
+            const reminderReport = this.scheduleReminders(plan, message, senderName, config);
+            if (reminderReport) contextMessages.splice(contextMessages.length - 1, 0, new HumanMessage(reminderReport));
+
+            // 6c. MEMORY (summary and facts of the chat from earlier conversations)
+            const memoryBlock = config.memory.enabled ? this.services.memory.formatForContext(message.chatId, cleanBody) : undefined;
+            if (memoryBlock) contextMessages.splice(contextMessages.length - 1, 0, new HumanMessage(memoryBlock));
+
+            // 6d. VOICE (the answer is written to be spoken)
+            const voiceReply = this.shouldReplyWithVoice(plan, message.chatId, config);
+            if (voiceReply) {
+                contextMessages.splice(contextMessages.length - 1, 0, new HumanMessage(`[VOICE_REPLY] Your answer will be sent as a voice note. Write it as natural speech: no Markdown, lists, tables, links or emojis, at most ${config.voice.maxCharacters} characters.`));
+            }
+
+            // 7. EXECUTION
+            const tools = config.tools.enabled ? this.createTools(chat, query, config) : undefined;
+            const responseText = await this.services.executor.execute(plan, contextMessages, queryId, logTimestamp, { attribution: query, persona: persona.name, tools, models: config.models });
+
+            // 8. RESPONSE
+            const footer = notes.length > 0 ? `\n\n${notes.join('\n')}` : "";
+            if (!voiceReply || !(await this.sendVoiceResponse(message, chat, responseText, notes, query, config))) {
+                await this.sendResponse(message, chat, `${responseText}${footer}`, config);
+            }
+            this.services.memory.maybeUpdate(message.chatId);
+            logger.info('DONE', `Answered in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`, { durationMs: Date.now() - startedAt, model: plan.target_model, abuse: plan.is_abuse, voice: voiceReply });
+
+        } catch (error) {
+            console.error("[ERROR] Processing failed:", error);
+            await message.reply(`${this.config.bot.ignoreLoopEmoji}🐛 Error processing your request.`);
+        }
+    }
+
+    /**
+     * Sends the executor's answer: converted to WhatsApp formatting and split into numbered messages if it is long.
+     * The first part replies to the query, the rest follow as plain messages. Every part carries the loop emoji.
+     */
+    private async sendResponse(message: ChatMessage, chat: ChatInfo, text: string, config: AppConfig) {
+        const emoji = config.bot.ignoreLoopEmoji;
+        const formatted = config.responses.whatsappFormatting ? toWhatsAppFormat(text) : text;
+        const parts = splitMessage(formatted, config.responses.maxMessageLength - emoji.length - 1, config.responses.maxParts);
+        if (parts.length > 1) console.log(`[RESPONSE] Long answer (${formatted.length} chars) split into ${parts.length} messages`);
+
+        await message.reply(`${emoji} ${parts[0]}`);
+        for (const part of parts.slice(1)) {
+            await chat.sendMessage(`${emoji} ${part}`);
+        }
+    }
+
+    /**
+     * Voice replies: the chat's 'voice always/never' setting, else what the planner decided.
+     */
+    private shouldReplyWithVoice(plan: PlannerOutput, chatId: string, config: AppConfig): boolean {
+        if (!config.voice.enabled) return false;
+        const mode = this.services.chatSettings.get(chatId).voiceReplies;
+        return mode === 'always' || (mode !== 'never' && plan.respond_with_voice);
+    }
+
+    /**
+     * Sends the answer as a voice note (PTT) replying to the query, followed by the notes as text.
+     * The audio is saved to the query's log directory. Returns false if the answer could not be
+     * synthesized (too long, TTS failure), so it is sent as text instead.
+     */
+    private async sendVoiceResponse(message: ChatMessage, chat: ChatInfo, text: string, notes: string[], query: QueryContext, config: AppConfig): Promise<boolean> {
+        if (!this.services.voice.fits(text, config)) {
+            console.log(`[VOICE] Answer too long for a voice note (max ${config.voice.maxCharacters} characters), sending text`);
+            return false;
+        }
+        try {
+            const media = await this.services.voice.synthesize(text, { config, voice: this.services.chatSettings.get(message.chatId).voice, attribution: query });
+            saveMediaToLog(query.queryId, 'voice-reply', media.mimetype, media.data, query.logTimestamp);
+            await message.reply('', { media, sendAudioAsVoice: true });
+        } catch (e) {
+            console.error(`[VOICE] Voice reply failed, sending text`, e);
+            return false;
+        }
+        if (notes.length > 0) await chat.sendMessage(`${config.bot.ignoreLoopEmoji} ${notes.join('\n')}`);
+        return true;
+    }
+
+    /**
+     * The effective config of the message's chat. The chat is only fetched when overrides are keyed by name.
+     */
+    private async getChatConfig(message: ChatMessage): Promise<AppConfig> {
+        if (Object.keys(this.config.chats).length === 0) return this.config;
+        const name = chatOverridesUseNames(this.config) ? (await message.getChat()).name : undefined;
+        return resolveChatConfig(this.config, { id: message.chatId, name });
+    }
+
+    /**
+     * The planner for the chat's planner model. Chats that don't override it share the default planner.
+     */
+    private getPlanner(config: AppConfig): PlannerAgent {
+        const key = JSON.stringify(config.models.planner);
+        if (key === JSON.stringify(this.config.models.planner)) return this.services.planner;
+
+        let planner = this.chatPlanners.get(key);
+        if (!planner) {
+            planner = new PlannerAgent(config.models.planner);
+            this.chatPlanners.set(key, planner);
+        }
+        return planner;
+    }
+
+    /**
+     * Schedules the reminders the planner extracted.
+     * Returns a report for the executor (scheduled IDs and times, or why scheduling failed), or undefined if there were none.
+     */
+    private scheduleReminders(plan: PlannerOutput, message: ChatMessage, senderName: string, config: AppConfig): string | undefined {
+        if (plan.reminders.length === 0) return undefined;
+        if (!config.reminders.enabled) {
+            return `[REMINDERS_DISABLED] Reminders are turned off for this bot. Tell the user you cannot schedule them.`;
+        }
+
+        const timeZone = config.bot.timezone;
+        const lines: string[] = [];
+        for (const intent of plan.reminders) {
+            const dueAt = parseZonedDate(intent.at, timeZone);
+            if (!dueAt) {
+                lines.push(`- FAILED "${intent.text}": could not understand the time "${intent.at}"`);
+                continue;
+            }
+            try {
+                const reminder = this.services.reminders.add({
+                    chatId: message.chatId,
+                    creatorId: message.senderId,
+                    creatorName: senderName,
+                    text: intent.text,
+                    dueAt: dueAt.toISOString(),
+                    recurrence: intent.recurrence || undefined,
+                    timeZone,
+                    sourceMessageId: message.id
+                });
+                lines.push(`- Scheduled "${reminder.text}" for ${formatZonedTime(dueAt, timeZone)}${reminder.recurrence ? `, repeating ${reminder.recurrence}` : ''} (ID: ${reminder.id})`);
+            } catch (e: any) {
+                lines.push(`- FAILED "${intent.text}": ${e.message}`);
+            }
+        }
+
+        const trigger = config.bot.triggers[config.bot.triggers.length - 1] || "";
+        return `[SCHEDULED_REMINDERS]
+${lines.join('\n')}
+Confirm this to the user briefly (what, when, ID). They can list reminders with '${trigger} reminders' and cancel with '${trigger} cancel <ID>'.
+[END_SCHEDULED_REMINDERS]`;
+    }
+
+    /**
+     * Tools the executor may call to look up context the plan did not request.
+     */
+    private createTools(chat: ChatInfo, query: QueryContext, config: AppConfig) {
+        return createExecutorTools({
+            chat,
+            transport: this.transport,
+            audioService: this.services.audioService,
+            archive: this.services.archive,
+            semanticIndex: config.search.enabled ? this.services.semanticIndex : undefined,
+            documents: this.services.documents,
+            config,
+            query,
+            describeImage: (media, question) => this.services.executor.describeImage(media, question, query.queryId, query.logTimestamp, query, config.models)
+        });
+    }
+
+    /**
+     * Checks if the message should be ignored due to Loop Prevention.
+     */
+    private shouldIgnoreLoop(message: ChatMessage): boolean {
+        if (utils.isLoopMessage(message.body, this.config)) {
+            console.log(`[IGNORE] Message contains ${this.config.bot.ignoreLoopEmoji} (Loop Prevention)`);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Runs registered commands, then checks for triggers.
+     * Returns true if processing should continue, false if ignored or handled (like a command).
+     */
+    private async handleTriggersAndCommands(message: ChatMessage, config: AppConfig): Promise<boolean> {
+        // Commands (help, status, mute, ...) work even in muted chats
+        if (await this.services.commands.tryExecute(message, config, (m, c) => this.chargeCommand(m, c))) {
+            return false; // Handled, stop processing
+        }
+
+        const isTriggered = utils.isTriggeredMessage(message.body, config);
+        if (isTriggered && this.services.chatSettings.isMuted(message.chatId)) {
+            console.log(`[IGNORE] ${this.services.chatSettings.isGloballyMuted() ? 'Bot is paused' : `Chat ${message.chatId} is muted`}`);
+            return false;
+        }
+
+        return isTriggered;
+    }
+
+    /**
+     * Rate limit and budget of a costly command (e.g. `say`), counted like a query on the fast bucket.
+     * Over budget it is blocked whatever `onBudgetExceeded` says: there is no cheaper model to downgrade to.
+     */
+    private async chargeCommand(message: ChatMessage, config: AppConfig): Promise<boolean> {
+        const subject = await this.getRateLimitSubject(message);
+        if (!await this.checkRateLimit(message, subject, config)) return false;
+
+        const budget = this.getBudgetStatus(message);
+        if (budget.exceeded) {
+            console.warn(`[BUDGET] Blocked command from ${message.senderId}: ${budget.period} ${budget.scope} budget exceeded`);
+            await message.reply(`${config.bot.ignoreLoopEmoji} ${this.formatBudgetMessage(config.usage.messages.budgetExceeded, budget)}`);
+            return false;
+        }
+
+        this.services.rateLimiter.record(subject, 'fast', config.bot.rateLimit);
+        return true;
+    }
+
+    /**
+     * Budgets apply to everyone except the owner.
+     */
+    private getBudgetStatus(message: ChatMessage): BudgetStatus {
+        if (utils.isOwner(message, this.config)) return { exceeded: false };
+        return this.services.usageLedger.checkBudget(this.config.usage, { senderId: message.senderId, chatId: message.chatId }, this.config.bot.timezone);
+    }
+
+    private formatBudgetMessage(template: string, budget: BudgetStatus): string {
+        return utils.fillTemplate(template, {
+            period: budget.period || "",
+            scope: budget.scope || "",
+            spent: (budget.spent || 0).toFixed(2),
+            limit: (budget.limit || 0).toFixed(2)
+        });
+    }
+
+    private async getRateLimitSubject(message: ChatMessage): Promise<RateLimitSubject> {
+        return {
+            userId: message.senderId,
+            chatId: message.chatId,
+            isOwner: utils.isOwner(message, this.config),
+            isKnownContact: await message.isFromKnownContact()
+        };
+    }
+
+    private formatRateLimitMessage(template: string, decision: RateLimitDecision): string {
+        return utils.fillTemplate(template, {
+            scope: decision.scope || "user",
+            tier: decision.tier,
+            limit: decision.limit,
+            remaining: decision.remaining,
+            windowHours: decision.windowHours,
+            reset: decision.resetAt ? formatClockTime(decision.resetAt) : "soon"
+        });
+    }
+
+    /**
+     * Checks rate limits for the user, chat and bot.
+     * Returns true if allowed, false if blocked.
+     */
+    private async checkRateLimit(message: ChatMessage, subject: RateLimitSubject, config: AppConfig): Promise<boolean> {
+        const decision = this.services.rateLimiter.check(subject, 'fast', config.bot.rateLimit);
+        if (!decision.allowed) {
+            console.warn(`[RATE LIMIT] Blocked ${subject.userId} in ${subject.chatId} (tier: ${decision.tier}, scope: ${decision.scope})`);
+            await message.reply(`${config.bot.ignoreLoopEmoji} ${this.formatRateLimitMessage(config.bot.rateLimit.messages.exceeded, decision)}`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Records the request: every request counts toward `maxRequests`, reasoning requests also toward
+     * `reasoningMaxRequests`. Downgrades reasoning requests to the fast model when that budget is used up.
+     * Returns a note for the user if the plan was downgraded.
+     */
+    private chargeRateLimit(plan: PlannerOutput, subject: RateLimitSubject, config: AppConfig): string | undefined {
+        const rateLimiter = this.services.rateLimiter;
+        let note: string | undefined;
+
+        if (plan.target_model === 'reasoning') {
+            const decision = rateLimiter.check(subject, 'reasoning', config.bot.rateLimit);
+            if (!decision.allowed) {
+                console.warn(`[RATE LIMIT] Reasoning budget exhausted for ${subject.userId} (scope: ${decision.scope}). Downgrading to fast.`);
+                plan.target_model = 'fast';
+                note = this.formatRateLimitMessage(config.bot.rateLimit.messages.reasoningDowngraded, decision);
+            }
+        }
+
+        // The fast bucket was checked before planning; it is the overall count, whatever model answers
+        rateLimiter.record(subject, 'fast', config.bot.rateLimit);
+        if (plan.target_model === 'reasoning') rateLimiter.record(subject, 'reasoning', config.bot.rateLimit);
+        return note;
+    }
+
+    /**
+     * Fetches and formats the Planner Context (Immediate history/quote).
+     */
+    private async getPlannerContext(message: ChatMessage, chat: ChatInfo, config: AppConfig): Promise<string> {
+        if (message.hasQuotedMsg) {
+            const q = await message.getQuotedMessage();
+            if (q) {
+                const qType = (q.type === 'ptt' || q.type === 'audio') ? " [Audio Message]" : q.type === 'document' ? " [Document]" : q.type === 'video' ? " [Video]" : "";
+                const qBody = utils.cleanMessageBody(q.body, config);
+                const qTime = await this.resolveQuotedTimestamp(q, chat);
+                return `[USER_REPLY_TO_MESSAGE] (Timestamp: ${qTime}): ${qBody}${qType}`;
+            }
+        }
+
+        // Default: the last message
+        const recent = await chat.fetchMessages({ limit: 1 });
+        return (await Promise.all(recent.map(async m => {
+            const mType = (m.type === 'ptt' || m.type === 'audio') ? " [Audio Message]" : m.type === 'document' ? " [Document]" : m.type === 'video' ? " [Video]" : "";
+            const sender = m.fromMe ? config.bot.ownerName : await utils.getSenderName(m);
+            const mBody = utils.cleanMessageBody(m.body, config);
+            return `[${sender}]: ${mBody}${mType}`;
+        }))).join('\n');
+    }
+
+    /**
+     * Resolves the ISO timestamp of a quoted message, or "Unknown".
+     * Transports recover what they can from their own payloads; here we fall back to fetching by ID and history.
+     */
+    private async resolveQuotedTimestamp(q: ChatMessage, chat: ChatInfo): Promise<string> {
+        let qTime = "Unknown";
+
+        // Strategy 1: Standard Property
+        if (q.timestamp) {
+            try {
+                qTime = new Date(q.timestamp * 1000).toISOString();
+            } catch (e) {
+                console.error(`[ERROR] Invalid timestamp for quoted message: ${q.timestamp}`);
+            }
+        }
+
+        // Strategy 2: Network Fetch by ID
+        if (qTime === "Unknown") {
+            try {
+                console.warn(`[WARN] Timestamp missing. Attempting fetch by ID: ${q.id}`);
+                const fullMsg = await this.transport.getMessageById(q.id);
+
+                if (fullMsg && fullMsg.timestamp) {
+                    qTime = new Date(fullMsg.timestamp * 1000).toISOString();
+                    console.log(`[INFO] Successfully fetched timestamp for quoted message via ID: ${qTime}`);
+                } else {
+                    // Strategy 3: Deep Search in History
+                    console.warn(`[WARN] Fetched message by ID missing timestamp. Trying Deep Search...`);
+                    const history = await chat.fetchMessages({ limit: 100 });
+                    const originalMsg = history.find(m => m.id === q.id);
+
+                    if (originalMsg && originalMsg.timestamp) {
+                        qTime = new Date(originalMsg.timestamp * 1000).toISOString();
+                        console.log(`[INFO] Found message in history. Recovered timestamp: ${qTime}`);
+                    } else {
+                        console.warn(`[WARN] Failed to recover timestamp even after Deep Search.`);
+                    }
+                }
+            } catch (err) {
+                console.error(`[ERROR] Failed to fetch quoted message by ID:`, err);
+            }
+        }
+
+        return qTime;
+    }
+
+    /**
+     * Gathers extended context based on the Plan (History search, downloading audio/images).
+     */
+    private async gatherContext(
+        message: ChatMessage,
+        chat: ChatInfo,
+        plan: PlannerOutput,
+        cleanBody: string,
+        isExplicitTranscription: boolean,
+        query: QueryContext,
+        config: AppConfig
+    ): Promise<BaseMessage[]> {
+        const contextMessages: BaseMessage[] = [];
+        let finalUserContent: any = `[CURRENT_QUERY] ${cleanBody}`;
+
+        // 1. Current Message Media (Audio/Document/Image)
+        await this.handleCurrentMessageMedia(message, plan, cleanBody, isExplicitTranscription, contextMessages, (content) => finalUserContent = content, query, config);
+
+        // 2. Historical Context (Time Ranges and Semantic Search)
+        await this.handleHistoricalContext(message, chat, plan, contextMessages, query, config);
+
+        // 3. Quoted Message Text (Crucial validity check: it is a reply)
+        // We add this AFTER history but BEFORE the current prompt to prioritize it.
+        if (message.hasQuotedMsg) {
+            const q = await message.getQuotedMessage();
+            if (q && (q.type === 'chat' || q.type === 'image' || q.type === 'video' || q.type === 'audio' || q.type === 'ptt')) {
+                const qSender = await utils.getSenderName(q);
+                const qBody = utils.cleanMessageBody(q.body, config);
+
+                // Stronger emphasis on the replied message
+                const replyContext = `
+IMPORTANT: CAREFULLY READ THIS.
+The user is specifically REPLYING to the following message.
+This message is the MOST critical context. Ignorance of this message constitutes a failure.
+[REPLIED_TO_MESSAGE]
+From: ${qSender}
+Message ID: ${q.id}${q.hasMedia ? ` (${q.type})` : ''}
+Content: "${qBody}"
+[END_REPLIED_TO_MESSAGE]
+`;
+                contextMessages.push(new HumanMessage(replyContext));
+                console.log(`[CTX] Added quoted message (High Priority): "${qBody.substring(0, 50)}..."`);
+            }
+        }
+
+        // Add final user query block
+        contextMessages.push(new HumanMessage({ content: finalUserContent }));
+        return contextMessages;
+    }
+
+    private async handleCurrentMessageMedia(
+        message: ChatMessage,
+        plan: PlannerOutput,
+        cleanBody: string,
+        isExplicitTranscription: boolean,
+        contextMessages: BaseMessage[],
+        updateUserContent: (c: any) => void,
+        query: QueryContext,
+        config: AppConfig
+    ) {
+        let targetMsg: ChatMessage = message;
+        if (message.hasQuotedMsg) {
+            targetMsg = (await message.getQuotedMessage()) || message;
+        }
+
+        if (!targetMsg.hasMedia) return;
+
+        // Audio
+        if ((targetMsg.type === 'audio' || targetMsg.type === 'ptt')) {
+            const wantsAudio = plan.needs_audio || isExplicitTranscription || cleanBody.includes("transcribe") || cleanBody.includes("listen");
+            if (wantsAudio && !config.features.audioTranscription) {
+                console.log(`[CTX] Audio transcription is disabled for this chat.`);
+                contextMessages.push(new HumanMessage(`[AUDIO NOT TRANSCRIBED: audio transcription is disabled in this chat]`));
+            } else if (wantsAudio) {
+                console.log(`[CTX] Downloading Audio from msg ${targetMsg.id}...`);
+                const media = await targetMsg.downloadMedia();
+                if (media) {
+                    saveMediaToLog(query.queryId, targetMsg.id, media.mimetype, media.data, query.logTimestamp);
+                    const buffer = Buffer.from(media.data, 'base64');
+                    const audioText = await this.services.audioService.transcribe(buffer, media.mimetype, { config, attribution: query });
+                    this.services.archive.update(targetMsg.id, targetMsg.chatId, { transcription: audioText });
+                    contextMessages.push(new HumanMessage(`[AUDIO TRANSCRIPTION]: ${audioText}`));
+                    console.log(`[CTX] Audio transcribed: "${audioText.substring(0, 100)}${audioText.length > 100 ? '...' : ''}"`);
+                }
+            }
+        }
+        // Documents (PDF, DOCX, XLSX, CSV, text)
+        else if (targetMsg.type === 'document') {
+            if (!config.features.documentAnalysis) {
+                console.log(`[CTX] Document analysis is disabled for this chat.`);
+                contextMessages.push(new HumanMessage(`[DOCUMENT NOT READ: document analysis is disabled in this chat]`));
+            } else {
+                console.log(`[CTX] Downloading document from msg ${targetMsg.id}...`);
+                const media = await targetMsg.downloadMedia();
+                if (media) {
+                    saveMediaToLog(query.queryId, targetMsg.id, media.mimetype, media.data, query.logTimestamp);
+                    await this.addDocument(media, cleanBody, contextMessages, updateUserContent, config);
+                }
+            }
+        }
+        // Video (frames and audio transcript, if Plan needs it)
+        else if (targetMsg.type === 'video' && (plan.needs_image || plan.needs_audio)) {
+            if (!config.features.videoAnalysis) {
+                console.log(`[CTX] Video analysis is disabled for this chat.`);
+                contextMessages.push(new HumanMessage(`[VIDEO NOT ANALYZED: video analysis is disabled in this chat]`));
+            } else {
+                console.log(`[CTX] Downloading video from msg ${targetMsg.id}...`);
+                const media = await targetMsg.downloadMedia();
+                if (media) {
+                    saveMediaToLog(query.queryId, targetMsg.id, media.mimetype, media.data, query.logTimestamp);
+                    await this.addVideo(media, targetMsg, cleanBody, contextMessages, updateUserContent, query, config);
+                }
+            }
+        }
+        // Image (if Plan needs it)
+        else if (targetMsg.type === 'image' && plan.needs_image && config.features.imageAnalysis) {
+            console.log(`[CTX] Downloading Image...`);
+            const media = await targetMsg.downloadMedia();
+            if (media) {
+                saveMediaToLog(query.queryId, targetMsg.id, media.mimetype, media.data, query.logTimestamp);
+                updateUserContent([
+                    { type: "text", text: cleanBody },
+                    { type: "image_url", image_url: { url: `data:${media.mimetype};base64,${media.data}` } }
+                ]);
+                console.log(`[CTX] Image attached. MIME: ${media.mimetype}, Size: ${media.data.length} chars.`);
+            }
+        }
+    }
+
+    /**
+     * Adds a document the query is about: its text (the parts most related to the query, up to `documents.maxTokens`),
+     * or for scanned PDFs the first pages as images. Unsupported or unreadable documents get a note instead.
+     */
+    private async addDocument(media: MediaPayload, cleanBody: string, contextMessages: BaseMessage[], updateUserContent: (c: any) => void, config: AppConfig) {
+        const documents = this.services.documents;
+        const name = media.filename || media.mimetype;
+        if (!documents.isSupported(media.mimetype, media.filename)) {
+            console.log(`[CTX] Unsupported document: ${name}`);
+            contextMessages.push(new HumanMessage(`[DOCUMENT NOT READ: ${name} is not a supported format (PDF, DOCX, XLSX, CSV, TXT)]`));
+            return;
+        }
+
+        try {
+            const doc = await documents.extract(media);
+            if (!doc.scanned) {
+                contextMessages.push(new HumanMessage(documents.formatForContext(doc, cleanBody, config.documents.maxTokens)));
+                console.log(`[CTX] Document text added (${doc.kind}, ${doc.sections.length} sections).`);
+                return;
+            }
+
+            // Scanned PDF: no text layer, so the model has to look at the pages
+            const pages = config.features.imageAnalysis ? await documents.renderPages(media) : [];
+            const shown = pages.length === 0 ? 'image analysis is disabled, so it cannot be read'
+                : pages.length < (doc.pages || 0) ? `the first ${pages.length} pages are attached as images` : `its pages are attached as images`;
+            updateUserContent([
+                { type: "text", text: `${cleanBody}\n[SCANNED DOCUMENT: ${name}, ${doc.pages} pages without a text layer; ${shown}]` },
+                ...pages.map(page => ({ type: "image_url", image_url: { url: `data:${page.mimetype};base64,${page.data}` } }))
+            ]);
+            console.log(`[CTX] Scanned PDF: ${pages.length} of ${doc.pages} pages attached as images.`);
+        } catch (e: any) {
+            console.error(`[CTX] Document extraction failed:`, e);
+            contextMessages.push(new HumanMessage(`[DOCUMENT NOT READ: ${name} could not be read (${e?.message || e})]`));
+        }
+    }
+
+    /**
+     * Adds a video the query is about: its frames as images next to the query, and the transcript of its audio
+     * (kept in the archive, like voice notes). Without image analysis only the transcript is added.
+     */
+    private async addVideo(media: MediaPayload, msg: ChatMessage, cleanBody: string, contextMessages: BaseMessage[], updateUserContent: (c: any) => void, query: QueryContext, config: AppConfig) {
+        try {
+            const known = this.services.archive.get(msg.chatId, msg.id)?.transcription;
+            const video = await this.services.video.analyze(media, { config, frames: config.features.imageAnalysis ? config.video.frames : 0, transcription: known, attribution: query });
+            if (video.transcript !== undefined && known === undefined) this.services.archive.update(msg.id, msg.chatId, { transcription: video.transcript });
+
+            const description = this.services.video.formatForContext(video);
+            if (video.frames.length === 0) {
+                contextMessages.push(new HumanMessage(description));
+            } else {
+                updateUserContent([
+                    { type: "text", text: `${cleanBody}\n${description}` },
+                    ...video.frames.map(frame => ({ type: "image_url", image_url: { url: `data:${frame.image.mimetype};base64,${frame.image.data}` } }))
+                ]);
+            }
+            console.log(`[CTX] Video added: ${video.frames.length} frame(s)${video.transcript !== undefined ? ' and transcript' : ''}.`);
+        } catch (e: any) {
+            console.error(`[CTX] Video analysis failed:`, e);
+            contextMessages.push(new HumanMessage(`[VIDEO NOT ANALYZED: ${e?.message || e}]`));
+        }
+    }
+
+    private async handleHistoricalContext(message: ChatMessage, chat: ChatInfo, plan: PlannerOutput, contextMessages: BaseMessage[], query: QueryContext, config: AppConfig) {
+        const searchQueries = config.search.enabled ? plan.search_queries : [];
+        if (plan.time_ranges.length === 0 && searchQueries.length === 0) {
+            console.log(`[CTX] No time ranges or search queries specified. Focused mode.`);
+            return;
+        }
+
+        // Keyed by message ID to avoid duplicates across overlapping ranges and search hits
+        const selected = new Map<string, ArchivedMessage>();
+        const hitIds = new Set<string>();
+
+        const timeZone = config.bot.timezone;
+        const now = new Date();
+        const cutoff = getHistoryCutoff(config, now);
+        // Expressions like "the day before the replied message" are anchored on the quoted message
+        let replied: Date | undefined;
+        if (message.hasQuotedMsg && plan.time_ranges.some(range => 'expression' in range)) {
+            const q = await message.getQuotedMessage();
+            const qTime = q ? await this.resolveQuotedTimestamp(q, chat) : "Unknown";
+            if (qTime !== "Unknown") replied = new Date(qTime);
+        }
+
+        for (const range of plan.time_ranges) {
+            let startTime: Date | undefined;
+            let endTime: Date | undefined;
+            if ('expression' in range) {
+                const resolved = resolveTimeExpression(range.expression, timeZone, { now, replied });
+                startTime = resolved?.start;
+                endTime = resolved?.end;
+            } else {
+                startTime = resolveTimePoint(range.start, timeZone, now);
+                endTime = resolveTimePoint(range.end, timeZone, now) || now;
+            }
+            if (!startTime || !endTime) {
+                console.log(`[CTX] Could not resolve time range: ${JSON.stringify(range)}. Skipping.`);
+                continue;
+            }
+            if (cutoff && startTime < cutoff) {
+                console.log(`[CTX] Range starts before the history limit of this chat (${config.archive.maxHistoryDays} days). Clamping.`);
+                startTime = cutoff;
+                if (endTime <= startTime) continue;
+            }
+
+            console.log(`[CTX] Fetching range${'expression' in range ? ` "${range.expression}"` : ''}: ${startTime.toISOString()} - ${endTime.toISOString()}`);
+            const messages = await this.services.archive.getRange(chat, startTime, endTime);
+            messages.forEach(m => selected.set(m.id, m));
+        }
+
+        if (searchQueries.length > 0) {
+            try {
+                const hits = await this.services.semanticIndex.search(chat, searchQueries, query);
+                for (const hit of hits) {
+                    if (cutoff && hit.message.timestamp * 1000 < cutoff.getTime()) continue;
+                    hitIds.add(hit.message.id);
+                    this.services.archive.getAround(chat.id, hit.message.id, config.search.surroundingMessages)
+                        .forEach(m => selected.set(m.id, m));
+                }
+            } catch (e) {
+                console.error(`[CTX] Semantic search failed:`, e);
+            }
+        }
+
+        // Search hits are kept even when they are older than the rest of the selected history
+        const ordered = [...selected.values()].sort((a, b) => a.timestamp - b.timestamp);
+        const { kept, omitted } = fitToTokenBudget(ordered, config.archive.historyTokenBudget, hitIds);
+        console.log(`[CTX] ${ordered.length} messages in range, ${kept.length} within the token budget`);
+        if (omitted > 0) {
+            contextMessages.push(new HumanMessage(`[HISTORY TRUNCATED] ${omitted} older messages in the requested time range were omitted to fit the context budget. Use your tools to look them up if they matter.`));
+        }
+
+        for (const msg of kept) {
+            await this.processHistoryMessage(msg, contextMessages, query, config, hitIds.has(msg.id));
+        }
+    }
+
+    /**
+     * Downloads the media of an archived message through the transport and records where it was saved.
+     */
+    private async downloadArchivedMedia(msg: ArchivedMessage, query: QueryContext): Promise<MediaPayload | null> {
+        const original = await this.transport.getMessageById(msg.id);
+        const media = original ? await original.downloadMedia() : null;
+        if (media) {
+            const savedPath = saveMediaToLog(query.queryId, msg.id, media.mimetype, media.data, query.logTimestamp);
+            this.services.archive.update(msg.id, msg.chatId, { media: { mimetype: media.mimetype, filename: media.filename || undefined, path: savedPath } });
+        }
+        return media;
+    }
+
+    private async processHistoryMessage(msg: ArchivedMessage, contextMessages: BaseMessage[], query: QueryContext, config: AppConfig, isSearchHit: boolean = false) {
+        const msgDate = new Date(msg.timestamp * 1000);
+        let additionalContent = "";
+        const bodyClean = utils.cleanMessageBody(msg.body, config);
+        const senderNameHistory = msg.fromMe ? config.bot.ownerName : msg.senderName;
+        // Search hits are marked so the executor can tell them from their surrounding messages
+        const marker = isSearchHit ? '[SEARCH MATCH] ' : '';
+
+        // Audio (transcriptions are cached in the archive)
+        if (msg.hasMedia && (msg.type === 'audio' || msg.type === 'ptt')) {
+            if (msg.transcription) {
+                additionalContent += `\n[Audio Transcription]: ${msg.transcription}`;
+            } else if (!config.features.audioTranscription) {
+                additionalContent += `\n[Audio, not transcribed]`;
+            } else {
+                try {
+                    const media = await this.downloadArchivedMedia(msg, query);
+                    if (media) {
+                        const buffer = Buffer.from(media.data, 'base64');
+                        const text = await this.services.audioService.transcribe(buffer, media.mimetype, { config, attribution: query });
+                        this.services.archive.update(msg.id, msg.chatId, { transcription: text });
+                        additionalContent += `\n[Audio Transcription]: ${text}`;
+                    }
+                } catch (e) { additionalContent += `\n[Audio Transcription Failed, message ID ${msg.id}]`; }
+            }
+        }
+
+        // Documents (text only, the first parts up to `documents.historyMaxTokens`; extractions are cached by content)
+        if (msg.hasMedia && msg.type === 'document' && config.features.documentAnalysis && config.documents.historyMaxTokens > 0) {
+            try {
+                const media = await this.downloadArchivedMedia(msg, query);
+                if (media && this.services.documents.isSupported(media.mimetype, media.filename)) {
+                    const doc = await this.services.documents.extract(media);
+                    additionalContent += doc.scanned
+                        ? `\n[SCANNED DOCUMENT: no text layer, message ID ${msg.id}]`
+                        : `\n${this.services.documents.formatForContext(doc, '', config.documents.historyMaxTokens)}`;
+                }
+            } catch (e) { additionalContent += `\n[Document Extraction Failed, message ID ${msg.id}]`; }
+        }
+
+        // Video (frames and audio transcript; the transcript is cached in the archive)
+        let videoFrames: MediaPayload[] = [];
+        if (msg.hasMedia && msg.type === 'video' && config.features.videoAnalysis) {
+            try {
+                const media = await this.downloadArchivedMedia(msg, query);
+                if (media) {
+                    const frames = config.features.imageAnalysis ? config.video.historyFrames : 0;
+                    const video = await this.services.video.analyze(media, { config, frames, transcription: msg.transcription, attribution: query });
+                    if (video.transcript !== undefined && msg.transcription === undefined) this.services.archive.update(msg.id, msg.chatId, { transcription: video.transcript });
+                    videoFrames = video.frames.map(frame => frame.image);
+                    additionalContent += `\n${this.services.video.formatForContext(video)}`;
+                }
+            } catch (e) { additionalContent += `\n[Video Analysis Failed, message ID ${msg.id}]`; }
+        }
+
+        // Image
+        let contentParts: any[] = [];
+        let hasRealImage = false;
+
+        if (msg.hasMedia && msg.type === 'image' && config.features.imageAnalysis) {
+            try {
+                const media = await this.downloadArchivedMedia(msg, query);
+                if (media) {
+                    hasRealImage = true;
+                    contentParts = [
+                        { type: "text", text: `${marker}[${senderNameHistory}] (${msgDate.toISOString()}): [IMAGE SENT] ${bodyClean}${additionalContent}` },
+                        { type: "image_url", image_url: { url: `data:${media.mimetype};base64,${media.data}` } }
+                    ];
+                }
+            } catch (e) { additionalContent += `\n[Image Download Failed]`; }
+        }
+        if (videoFrames.length > 0) {
+            hasRealImage = true;
+            contentParts = [
+                { type: "text", text: `${marker}[${senderNameHistory}] (${msgDate.toISOString()}): [VIDEO SENT] ${bodyClean}${additionalContent}` },
+                ...videoFrames.map(frame => ({ type: "image_url", image_url: { url: `data:${frame.mimetype};base64,${frame.data}` } }))
+            ];
+        }
+
+        if (!hasRealImage) {
+            if (msg.hasMedia && msg.type === 'image') additionalContent += `\n[IMAGE OMITTED: Placeholder, message ID ${msg.id}]`;
+            const formatted = `${marker}[${senderNameHistory}] (${msgDate.toISOString()}): ${bodyClean}${additionalContent}`;
+            contextMessages.push(msg.fromMe ? new AIMessage(formatted) : new HumanMessage(formatted));
+        } else {
+            contextMessages.push(msg.fromMe ? new AIMessage({ content: contentParts }) : new HumanMessage({ content: contentParts }));
+        }
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Per-query identifiers threaded through context gathering, tools and services
+ * (log directory and usage attribution).
+ */
+export interface QueryContext {
+    queryId: string;
+    logTimestamp: string;
+    senderId: string;
+    chatId: string;
+}
@@ -0,0 +1,319 @@
+import { PlannerAgent, PlannerOutput } from '../agents/planner';
+import { QueryLog, QuerySummary, LOG_ROOT, listQueryLogs, findQueryLog, readRunLogs, readQueryEvents, getRunOutputText, getRunTokens, summarizeQueryLog } from '../services/llmLogReader';
+import { LogRecord } from '../utils/logger';
+import { getLogTimestamp } from '../utils/dateUtils';
+
+const USAGE = `Usage: ts-node src/scripts/inspectLogs.ts [list|summary] [filters]
+       ts-node src/scripts/inspectLogs.ts show <queryDir|queryId> [--full]
+
+Reads the query logs in .llm_logs.
+
+Commands:
+  list               Recent queries: sender, chat, model, plan flags, latency, tokens (default)
+  show <query>       One query as a timeline: planner prompt, plan, context, tool calls, executor output
+  summary            Totals over the selected queries: models, flags, errors, latency, tokens, top chats
+
+Filters (list, summary):
+  --chat <text>      Chat ID (or part of it)
+  --sender <text>    Sender ID or name (or part of it)
+  --since <when>     yymmdd, yymmdd-hhmmss, or relative: 30m, 12h, 7d
+  --abuse            Only queries the planner flagged as abuse
+  --errors           Only queries with errors (failed model calls, error log lines)
+  --last <n>         The n most recent matching queries (list default: 20)
+  --replays          Include queries created by the replay script
+  --json             Machine-readable output
+
+Options (show):
+  --full             Don't shorten long messages, and include the system prompts`;
+
+interface InspectOptions {
+    command: 'list' | 'show' | 'summary';
+    ref?: string;
+    chat?: string;
+    sender?: string;
+    since?: string;
+    abuse: boolean;
+    errors: boolean;
+    last?: number;
+    replays: boolean;
+    json: boolean;
+    full: boolean;
+}
+
+// Messages longer than this are shortened in `show` (unless --full)
+const MAX_SHOWN_CHARS = 1500;
+const DATA_URL_PATTERN = /data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)/g;
+const BASE64_PATTERN = /[A-Za-z0-9+/]{500,}={0,2}/g;
+
+function parseArgs(argv: string[]): InspectOptions {
+    const options: InspectOptions = { command: 'list', abuse: false, errors: false, replays: false, json: false, full: false };
+    const positional: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--chat': options.chat = argv[++i]; break;
+            case '--sender': options.sender = argv[++i]; break;
+            case '--since': options.since = parseSince(argv[++i]); break;
+            case '--abuse': options.abuse = true; break;
+            case '--errors': options.errors = true; break;
+            case '--last': options.last = Number(argv[++i]); break;
+            case '--replays': options.replays = true; break;
+            case '--json': options.json = true; break;
+            case '--full': options.full = true; break;
+            case '--help':
+            case '-h':
+                console.log(USAGE);
+                process.exit(0);
+            default:
+                if (arg.startsWith('--')) {
+                    console.error(`Unknown option: ${arg}\n\n${USAGE}`);
+                    process.exit(1);
+                }
+                positional.push(arg);
+        }
+    }
+
+    const [command, ref] = positional;
+    if (command === 'list' || command === 'show' || command === 'summary') options.command = command;
+    else if (command) {
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        process.exit(1);
+    }
+    if (options.command === 'show') {
+        if (!ref) {
+            console.error(`show needs a query directory or ID\n\n${USAGE}`);
+            process.exit(1);
+        }
+        options.ref = ref;
+    }
+    return options;
+}
+
+/**
+ * --since as a log timestamp prefix (directory names start with yymmdd-hhmmss in local time).
+ */
+function parseSince(value: string | undefined): string {
+    const relative = value?.match(/^(\d+)([mhd])$/);
+    if (relative) {
+        const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[relative[2] as 'm' | 'h' | 'd'];
+        return getLogTimestamp(new Date(Date.now() - parseInt(relative[1]) * unitMs));
+    }
+    if (value && /^\d{6}(-\d{1,6})?$/.test(value)) return value;
+    console.error(`Invalid --since: ${value} (expected yymmdd, yymmdd-hhmmss, 30m, 12h or 7d)`);
+    process.exit(1);
+}
+
+function matches(s: QuerySummary, options: InspectOptions): boolean {
+    if (options.since && s.logTimestamp < options.since) return false;
+    if (options.chat && !s.chatId?.includes(options.chat)) return false;
+    if (options.sender) {
+        const needle = options.sender.toLowerCase();
+        if (!s.senderId?.toLowerCase().includes(needle) && !s.senderName?.toLowerCase().includes(needle)) return false;
+    }
+    if (options.abuse && !s.plan?.is_abuse) return false;
+    if (options.errors && s.errors.length === 0) return false;
+    return true;
+}
+
+function selectSummaries(options: InspectOptions): QuerySummary[] {
+    const summaries = listQueryLogs({ includeReplays: options.replays })
+        .filter(q => !options.since || q.logTimestamp >= options.since)
+        .map(summarizeQueryLog)
+        .filter(s => matches(s, options));
+    const last = options.last ?? (options.command === 'list' ? 20 : undefined);
+    return last ? summaries.slice(-last) : summaries;
+}
+
+function formatDuration(ms?: number): string {
+    return ms === undefined ? '-' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function planFlags(plan?: PlannerOutput): string[] {
+    if (!plan) return ['no-plan'];
+    return [
+        plan.is_abuse && 'abuse',
+        plan.is_self_reflection && 'self',
+        plan.needs_image && 'image',
+        plan.needs_audio && 'audio',
+        plan.time_ranges.length > 0 && `ranges:${plan.time_ranges.length}`,
+        plan.search_queries.length > 0 && `search:${plan.search_queries.length}`,
+        plan.reminders.length > 0 && 'reminder',
+        plan.respond_with_voice && 'voice'
+    ].filter((f): f is string => !!f);
+}
+
+function shorten(text: string, max: number): string {
+    const oneLine = text.replace(/\s+/g, ' ').trim();
+    return oneLine.length > max ? `${oneLine.substring(0, max - 1)}…` : oneLine;
+}
+
+function printList(summaries: QuerySummary[]) {
+    for (const s of summaries) {
+        const flags = planFlags(s.plan);
+        const columns = [
+            s.dirName,
+            `${s.senderName || s.senderId || '?'} @ ${s.chatId || '?'}`,
+            `${s.plan?.target_model || '?'}${s.model ? ` (${s.model})` : ''}`,
+            flags.length > 0 ? `[${flags.join(' ')}]` : '',
+            formatDuration(s.latencyMs),
+            `${s.tokens.toLocaleString('en-US')} tok`,
+            s.errors.length > 0 ? `ERRORS: ${s.errors.length}` : ''
+        ].filter(Boolean);
+        console.log(columns.join('  '));
+        if (s.message !== undefined) console.log(`    "${shorten(s.message, 100)}"`);
+    }
+    console.log(`\n${summaries.length} quer${summaries.length === 1 ? 'y' : 'ies'}`);
+}
+
+function percentile(sorted: number[], p: number): number {
+    return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function countBy(values: (string | undefined)[]): [string, number][] {
+    const counts = new Map<string, number>();
+    values.forEach(v => counts.set(v ?? '?', (counts.get(v ?? '?') || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+function aggregate(summaries: QuerySummary[]) {
+    const latencies = summaries.map(s => s.latencyMs).filter((l): l is number => l !== undefined).sort((a, b) => a - b);
+    const tokensByAgent: Record<string, number> = {};
+    summaries.forEach(s => Object.entries(s.tokensByAgent).forEach(([agent, tokens]) => tokensByAgent[agent] = (tokensByAgent[agent] || 0) + tokens));
+
+    return {
+        queries: summaries.length,
+        from: summaries[0]?.logTimestamp,
+        to: summaries[summaries.length - 1]?.logTimestamp,
+        planModels: countBy(summaries.map(s => s.plan?.target_model)),
+        answerModels: countBy(summaries.map(s => s.model)),
+        flags: countBy(summaries.flatMap(s => planFlags(s.plan).map(f => f.split(':')[0]))),
+        withErrors: summaries.filter(s => s.errors.length > 0).length,
+        latencyMs: latencies.length === 0 ? undefined : {
+            average: Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length),
+            p50: percentile(latencies, 50),
+            p95: percentile(latencies, 95),
+            max: latencies[latencies.length - 1]
+        },
+        tokens: summaries.reduce((sum, s) => sum + s.tokens, 0),
+        tokensByAgent: Object.entries(tokensByAgent).sort((a, b) => b[1] - a[1]),
+        topChats: countBy(summaries.map(s => s.chatId)).slice(0, 5),
+        topSenders: countBy(summaries.map(s => s.senderName || s.senderId)).slice(0, 5)
+    };
+}
+
+function printSummary(summary: ReturnType<typeof aggregate>) {
+    const format = (entries: [string, number][]) => entries.map(([k, v]) => `${k} ${v.toLocaleString('en-US')}`).join(', ') || '-';
+
+    console.log(`Queries: ${summary.queries}${summary.from ? ` (${summary.from} to ${summary.to})` : ''}`);
+    console.log(`Plan models: ${format(summary.planModels)}`);
+    console.log(`Answer models: ${format(summary.answerModels)}`);
+    console.log(`Flags: ${format(summary.flags)}`);
+    console.log(`With errors: ${summary.withErrors}`);
+    if (summary.latencyMs) {
+        const { average, p50, p95, max } = summary.latencyMs;
+        console.log(`Latency: avg ${formatDuration(average)}, p50 ${formatDuration(p50)}, p95 ${formatDuration(p95)}, max ${formatDuration(max)}`);
+    }
+    console.log(`Tokens: ${summary.tokens.toLocaleString('en-US')} (${format(summary.tokensByAgent)})`);
+    console.log(`Top chats: ${format(summary.topChats)}`);
+    console.log(`Top senders: ${format(summary.topSenders)}`);
+}
+
+/**
+ * Message content as text, with images and other base64 data replaced by their type and size.
+ */
+function renderContent(content: any, full: boolean): string {
+    const elide = (text: string) => text
+        .replace(DATA_URL_PATTERN, (_, mimetype, data) => `[${mimetype}, ${Math.round(data.length * 0.75 / 1024)} KB]`)
+        .replace(BASE64_PATTERN, data => `[base64, ${Math.round(data.length * 0.75 / 1024)} KB]`);
+    const text = typeof content === 'string' ? elide(content)
+        : Array.isArray(content) ? content.map(part => typeof part === 'string' ? elide(part)
+            : part.type === 'text' ? elide(part.text || '')
+                : part.type === 'image_url' ? elide(`[image] ${typeof part.image_url === 'string' ? part.image_url : part.image_url?.url || ''}`)
+                    : elide(JSON.stringify(part))).join('\n')
+            : elide(JSON.stringify(content));
+    return !full && text.length > MAX_SHOWN_CHARS ? `${text.substring(0, MAX_SHOWN_CHARS)}… [${text.length - MAX_SHOWN_CHARS} more chars]` : text;
+}
+
+function indent(text: string): string {
+    return text.split('\n').map(line => `    ${line}`).join('\n');
+}
+
+function printShow(q: QueryLog, options: InspectOptions) {
+    const s = summarizeQueryLog(q);
+    const runs = readRunLogs(q.dirPath);
+    const events = readQueryEvents(q.dirPath);
+
+    console.log(`Query ${s.queryId} (${s.dirName})`);
+    console.log(`From: ${s.senderName || '?'} (${s.senderId || '?'}) in ${s.chatId || '?'}`);
+    console.log(`Latency: ${formatDuration(s.latencyMs)}, tokens: ${s.tokens.toLocaleString('en-US')}${q.mediaFiles.length > 0 ? `, media: ${q.mediaFiles.join(', ')}` : ''}`);
+    if (s.message !== undefined) console.log(`Message: "${s.message}"`);
+
+    // Model calls, each showing only the messages added since the previous call of the same agent
+    const seen: Record<string, number> = {};
+    for (const { file, run } of runs) {
+        const agent = run.metadata?.agent || file.replace(/\.json$/, '');
+        const duration = run.endTime ? formatDuration(new Date(run.endTime).getTime() - new Date(run.timestamp).getTime()) : '-';
+        console.log(`\n── ${run.timestamp.substring(11, 23)} ${file} (${run.metadata?.model || run.modelName}, ${duration}, ${getRunTokens(run).toLocaleString('en-US')} tok) ──`);
+
+        const inputs = run.inputs?.[0] || [];
+        const start = seen[agent] ?? 0;
+        seen[agent] = inputs.length;
+        if (start > 0) console.log(`    (${start} earlier message(s) omitted)`);
+        for (const message of inputs.slice(start)) {
+            if (message.type.includes('System') && !options.full) {
+                console.log(`  ${message.type}: [system prompt, ${renderContent(message.content, true).length} chars, --full to show]`);
+                continue;
+            }
+            console.log(`  ${message.type}:`);
+            console.log(indent(renderContent(message.content, options.full) || '(no text)'));
+        }
+
+        if (run.error) {
+            console.log(`  ERROR: ${run.error}`);
+        } else {
+            const output = getRunOutputText(run) ?? '';
+            const plan = agent === 'Planner' ? PlannerAgent.validatePlanText(output, { fromLog: true }).plan : undefined;
+            console.log(`  → ${plan ? 'Plan' : 'Output'}:`);
+            // Executor steps that only called tools have no text
+            console.log(indent(plan ? JSON.stringify(plan, null, 2) : renderContent(output, options.full) || '(no text: tool calls)'));
+        }
+    }
+
+    if (events.length > 0) {
+        console.log(`\n── Log (${events.length} line(s)) ──`);
+        events.forEach((e: LogRecord) => console.log(`  ${e.time.substring(11, 23)} ${e.level.toUpperCase().padEnd(5)} ${e.component ? `[${e.component}] ` : ''}${renderContent(e.message, options.full)}`));
+    }
+
+    if (s.errors.length > 0) {
+        console.log(`\n── Errors ──`);
+        s.errors.forEach(e => console.log(`  ${e}`));
+    }
+}
+
+function main() {
+    const options = parseArgs(process.argv.slice(2));
+
+    if (options.command === 'show') {
+        const q = findQueryLog(options.ref!);
+        if (!q) {
+            console.error(`Query not found: ${options.ref}`);
+            process.exit(1);
+        }
+        printShow(q, options);
+        return;
+    }
+
+    const summaries = selectSummaries(options);
+    if (options.json) {
+        console.log(JSON.stringify(options.command === 'summary' ? aggregate(summaries) : summaries, null, 2));
+    } else if (summaries.length === 0) {
+        console.log(`No matching queries in ${LOG_ROOT}.`);
+    } else if (options.command === 'summary') {
+        printSummary(aggregate(summaries));
+    } else {
+        printList(summaries);
+    }
+}
+
+main();
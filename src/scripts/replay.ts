@@ -0,0 +1,276 @@
+import dotenv from 'dotenv';
+import fs from 'fs-extra';
+import path from 'path';
+import { BaseMessage, HumanMessage, AIMessage, SystemMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { ConfigLoader } from '../config/config';
+import { PlannerAgent, PlannerOutput } from '../agents/planner';
+import { ExecutorAgent } from '../agents/executor';
+import { QueryLog, LoggedMessage, LOG_ROOT, REPLAY_QUERY_PREFIX, listQueryLogs, findQueryLog, getRunOutputText } from '../services/llmLogReader';
+import { getLogTimestamp } from '../utils/dateUtils';
+
+dotenv.config();
+
+const USAGE = `Usage: ts-node src/scripts/replay.ts [options] [<queryDir|queryId> ...]
+
+Re-runs logged queries from .llm_logs against the current prompts/config and reports differences.
+
+Options:
+  --last <n>         Replay the n most recent queries (default when no query is given: 10)
+  --since <yymmdd>   Replay queries logged on or after this date
+  --fake <file>      Use a scripted fake model: JSON { "planner": [...], "executor": [...] }
+  --chain            Feed the replayed plan to the executor (default: the recorded plan)
+  --out <dir>        Report directory (default: .llm_logs/_replays/<timestamp>)
+  --strict           Exit with code 1 if any plan changed`;
+
+interface ReplayOptions {
+    refs: string[];
+    last?: number;
+    since?: string;
+    fakeScript?: string;
+    chain: boolean;
+    outDir: string;
+    strict: boolean;
+}
+
+interface PlanFieldDiff {
+    field: string;
+    recorded: any;
+    replayed: any;
+}
+
+interface QueryReplayResult {
+    dirName: string;
+    queryId: string;
+    userMessage?: string;
+    planDiffs: PlanFieldDiff[];
+    recordedPlan?: PlannerOutput;
+    replayedPlan?: PlannerOutput;
+    recordedResponse?: string;
+    replayedResponse?: string;
+    responseChanged: boolean;
+    responseSimilarity?: number;
+    error?: string;
+}
+
+// Reasoning is free text and differs on every run, so it is reported but not diffed.
+const IGNORED_PLAN_FIELDS = ['reasoning'];
+
+function parseArgs(argv: string[]): ReplayOptions {
+    const options: ReplayOptions = {
+        refs: [],
+        chain: false,
+        strict: false,
+        outDir: path.join(LOG_ROOT, '_replays', getLogTimestamp())
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--last': options.last = Number(argv[++i]); break;
+            case '--since': options.since = argv[++i]; break;
+            case '--fake': options.fakeScript = argv[++i]; break;
+            case '--chain': options.chain = true; break;
+            case '--out': options.outDir = argv[++i]; break;
+            case '--strict': options.strict = true; break;
+            case '--help':
+            case '-h':
+                console.log(USAGE);
+                process.exit(0);
+            default:
+                if (arg.startsWith('--')) {
+                    console.error(`Unknown option: ${arg}\n\n${USAGE}`);
+                    process.exit(1);
+                }
+                options.refs.push(arg);
+        }
+    }
+    return options;
+}
+
+function selectQueries(options: ReplayOptions): QueryLog[] {
+    if (options.refs.length > 0) {
+        return options.refs.map(ref => {
+            const q = findQueryLog(ref);
+            if (!q) console.warn(`[REPLAY] Query not found: ${ref}`);
+            return q;
+        }).filter((q): q is QueryLog => !!q);
+    }
+
+    let queries = listQueryLogs().filter(q => q.planner);
+    if (options.since) queries = queries.filter(q => q.logTimestamp >= options.since!);
+    const last = options.last ?? (options.since ? undefined : 10);
+    return last ? queries.slice(-last) : queries;
+}
+
+function toBaseMessage(m: LoggedMessage): BaseMessage {
+    if (m.type.includes('System')) return new SystemMessage({ content: m.content });
+    if (m.type.includes('AI')) return new AIMessage({ content: m.content });
+    return new HumanMessage({ content: m.content });
+}
+
+/**
+ * Recovers the arguments of PlannerAgent.plan from a logged run.
+ */
+function parsePlannerInput(q: QueryLog): { userMessage: string; metadata: string; history: string } | undefined {
+    const run = q.planner;
+    const human = run?.inputs?.[0]?.find(m => !m.type.includes('System'));
+    if (!run || !human || typeof human.content !== 'string') return undefined;
+
+    const match = human.content.match(/^METADATA: ([\s\S]*?)\n\nIMMEDIATE HISTORY:\n([\s\S]*?)\n\nUSER MESSAGE: ([\s\S]*)$/);
+    if (!match) return undefined;
+
+    return {
+        metadata: run.metadata?.full_metadata ?? match[1],
+        history: match[2],
+        userMessage: run.metadata?.query ?? match[3]
+    };
+}
+
+function diffPlans(recorded: PlannerOutput, replayed: PlannerOutput): PlanFieldDiff[] {
+    const fields = new Set([...Object.keys(recorded), ...Object.keys(replayed)]);
+    const diffs: PlanFieldDiff[] = [];
+    for (const field of fields) {
+        if (IGNORED_PLAN_FIELDS.includes(field)) continue;
+        const a = (recorded as any)[field];
+        const b = (replayed as any)[field];
+        if (JSON.stringify(a) !== JSON.stringify(b)) diffs.push({ field, recorded: a, replayed: b });
+    }
+    return diffs;
+}
+
+/**
+ * Word-level Jaccard similarity, a cheap signal for how far a response drifted.
+ */
+function similarity(a: string, b: string): number {
+    const words = (s: string) => new Set(s.toLowerCase().split(/\s+/).filter(Boolean));
+    const wa = words(a);
+    const wb = words(b);
+    if (wa.size === 0 && wb.size === 0) return 1;
+    const intersection = [...wa].filter(w => wb.has(w)).length;
+    return intersection / (wa.size + wb.size - intersection);
+}
+
+async function replayQuery(q: QueryLog, planner: PlannerAgent, executor: ExecutorAgent, options: ReplayOptions): Promise<QueryReplayResult> {
+    const result: QueryReplayResult = { dirName: q.dirName, queryId: q.queryId, planDiffs: [], responseChanged: false };
+    const replayQueryId = `${REPLAY_QUERY_PREFIX}${q.queryId}`;
+    const logTimestamp = getLogTimestamp();
+
+    try {
+        // 1. Planner
+        const input = parsePlannerInput(q);
+        const recordedPlanText = getRunOutputText(q.plannerFinal);
+        if (input && recordedPlanText !== undefined) {
+            result.userMessage = input.userMessage;
+            result.recordedPlan = PlannerAgent.parsePlan(recordedPlanText, { fromLog: true });
+            result.replayedPlan = await planner.plan(input.userMessage, input.metadata, input.history, replayQueryId, logTimestamp);
+            result.planDiffs = diffPlans(result.recordedPlan, result.replayedPlan);
+        } else {
+            console.warn(`[REPLAY] ${q.dirName}: planner input/output not recoverable, skipping planner.`);
+        }
+
+        // 2. Executor
+        const recordedContext = q.executor?.inputs?.[0];
+        const plan = options.chain ? result.replayedPlan : result.recordedPlan;
+        if (recordedContext && plan) {
+            const contextMessages = recordedContext.filter(m => !m.type.includes('System')).map(toBaseMessage);
+            result.recordedResponse = getRunOutputText(q.executorFinal);
+            result.replayedResponse = await executor.execute(plan, contextMessages, replayQueryId, logTimestamp);
+            result.responseChanged = result.recordedResponse !== result.replayedResponse;
+            result.responseSimilarity = similarity(result.recordedResponse || "", result.replayedResponse);
+        }
+    } catch (e: any) {
+        result.error = e?.message || String(e);
+    }
+
+    return result;
+}
+
+function renderMarkdown(results: QueryReplayResult[], options: ReplayOptions): string {
+    const planChanged = results.filter(r => r.planDiffs.length > 0).length;
+    const responseChanged = results.filter(r => r.responseChanged).length;
+    const errors = results.filter(r => r.error).length;
+
+    const lines = [
+        `# Replay Report (${new Date().toISOString()})`,
+        ``,
+        `- Queries: ${results.length}`,
+        `- Plans changed: ${planChanged}`,
+        `- Responses changed: ${responseChanged}`,
+        `- Errors: ${errors}`,
+        `- Executor plan source: ${options.chain ? 'replayed' : 'recorded'}${options.fakeScript ? ` (fake model: ${options.fakeScript})` : ''}`,
+        ``
+    ];
+
+    for (const r of results) {
+        lines.push(`## ${r.dirName}`, ``);
+        if (r.userMessage !== undefined) lines.push(`> ${r.userMessage}`, ``);
+        if (r.error) lines.push(`**Error:** ${r.error}`, ``);
+
+        if (r.planDiffs.length === 0) {
+            lines.push(`Plan: unchanged`, ``);
+        } else {
+            lines.push(`| Field | Recorded | Replayed |`, `|---|---|---|`);
+            r.planDiffs.forEach(d => lines.push(`| ${d.field} | \`${JSON.stringify(d.recorded)}\` | \`${JSON.stringify(d.replayed)}\` |`));
+            lines.push(``, `Reasoning (replayed): ${r.replayedPlan?.reasoning}`, ``);
+        }
+
+        if (r.replayedResponse !== undefined) {
+            if (!r.responseChanged) {
+                lines.push(`Response: unchanged`, ``);
+            } else {
+                lines.push(`Response changed (similarity ${r.responseSimilarity?.toFixed(2)}):`, ``);
+                lines.push(`**Recorded:**`, ``, '```', r.recordedResponse || '', '```', ``);
+                lines.push(`**Replayed:**`, ``, '```', r.replayedResponse, '```', ``);
+            }
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function createFakeModels(scriptPath: string): { planner: FakeListChatModel; executor: FakeListChatModel } {
+    const script = fs.readJSONSync(scriptPath);
+    const asText = (items: any[] = []) => items.map(i => typeof i === 'string' ? i : JSON.stringify(i));
+    return {
+        planner: new FakeListChatModel({ responses: asText(script.planner) }),
+        executor: new FakeListChatModel({ responses: asText(script.executor) })
+    };
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const queries = selectQueries(options);
+
+    if (queries.length === 0) {
+        console.error(`No logged queries found in ${LOG_ROOT}.\n\n${USAGE}`);
+        process.exit(1);
+    }
+
+    const config = ConfigLoader.load();
+    const fakes = options.fakeScript ? createFakeModels(options.fakeScript) : undefined;
+    // Scripted fake responses are plain text, not structured output
+    const planner = new PlannerAgent(fakes ? { ...config.models.planner, structuredOutput: false } : config.models.planner, fakes?.planner);
+    const executor = new ExecutorAgent(config, fakes ? { fast: fakes.executor, reasoning: fakes.executor, vision: fakes.executor } : undefined);
+
+    const results: QueryReplayResult[] = [];
+    for (const q of queries) {
+        console.log(`[REPLAY] ${q.dirName}`);
+        const result = await replayQuery(q, planner, executor, options);
+        const status = result.error ? `ERROR: ${result.error}` : `plan diffs: ${result.planDiffs.map(d => d.field).join(', ') || 'none'}, response ${result.responseChanged ? 'changed' : 'unchanged'}`;
+        console.log(`[REPLAY]   ${status}`);
+        results.push(result);
+    }
+
+    await fs.ensureDir(options.outDir);
+    await fs.writeJSON(path.join(options.outDir, 'report.json'), results, { spaces: 2 });
+    await fs.writeFile(path.join(options.outDir, 'report.md'), renderMarkdown(results, options));
+
+    const planChanged = results.filter(r => r.planDiffs.length > 0).length;
+    console.log(`\n--- Replayed ${results.length} queries: ${planChanged} plan(s) changed, ${results.filter(r => r.responseChanged).length} response(s) changed ---`);
+    console.log(`Report saved to: ${options.outDir}`);
+
+    if (options.strict && planChanged > 0) process.exit(1);
+}
+
+main();
@@ -1,15 +1,20 @@
 import dotenv from 'dotenv';
-import { AudioService } from '../services/audioService';
+import { AudioService, TranscriptionDisabledError } from '../services/audioService';
+import { ConfigLoader } from '../config/config';
 import fs from 'fs-extra';
+import mime from 'mime-types';
 import path from 'path';
 
 dotenv.config();
 
 async function main() {
-    const filePath = process.argv[2];
+    const args = process.argv.slice(2);
+    const languageIndex = args.indexOf('--language');
+    const language = languageIndex >= 0 ? args.splice(languageIndex, 2)[1] : undefined;
+    const filePath = args[0];
 
     if (!filePath) {
-        console.error("Usage: ts-node src/scripts/transcribe.ts <file-path>");
+        console.error("Usage: ts-node src/scripts/transcribe.ts <file-path> [--language <code>]");
         process.exit(1);
     }
 
@@ -18,27 +23,31 @@ async function main() {
         process.exit(1);
     }
 
-    const audioService = new AudioService();
-    const mediaId = path.basename(filePath);
-    
+    const config = ConfigLoader.load();
+    if (language) config.transcription.language = language;
+    const audioService = new AudioService(config);
+
     console.log(`Reading file: ${filePath}`);
     const buffer = await fs.readFile(filePath);
-    
+
     try {
-        console.log("Starting transcription...");
-        const transcription = await audioService.transcribe(mediaId, buffer);
-        
+        console.log(`Starting transcription (${config.transcription.provider})...`);
+        const transcription = await audioService.transcribe(buffer, mime.lookup(filePath) || undefined);
+
         const outputFilePath = filePath.replace(path.extname(filePath), '.txt');
         await fs.writeFile(outputFilePath, transcription);
-        
+
         console.log("\n--- Transcription saved to: " + outputFilePath + " ---\n");
         console.log(transcription);
         console.log("\n--- End of Transcription ---\n");
     } catch (error) {
-        console.error("Transcription failed:", error);
+        if (error instanceof TranscriptionDisabledError) {
+            console.error("Audio transcription is disabled (features.audioTranscription in config.yaml).");
+        } else {
+            console.error("Transcription failed:", error);
+        }
         process.exit(1);
     }
 }
 
 main();
-
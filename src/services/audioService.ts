@@ -1,25 +1,60 @@
 import fs from 'fs-extra';
 import path from 'path';
-import OpenAI from 'openai';
+import crypto from 'crypto';
+import { AppConfig } from '../config/config';
+import { UsageLedger, UsageAttribution } from './usageLedger';
+import { createTranscriber, Transcriber } from './transcriber';
+import { getAudioDuration, getAudioExtension, splitAudio } from '../utils/audioUtils';
 
+export interface CachedTranscription {
+    text: string;
+    model: string;
+    language?: string;
+    durationSeconds?: number;
+    createdAt: string;
+}
+
+export interface TranscribeOptions {
+    config?: AppConfig;             // The chat's config (feature flag, language hint). Defaults to the global config.
+    attribution?: UsageAttribution;
+}
+
+export class TranscriptionDisabledError extends Error {
+    constructor() {
+        super('Audio transcription is disabled');
+    }
+}
+
+// End of the previous chunk passed as the prompt of the next, so sentences and names carry over
+const CHUNK_CONTEXT_CHARS = 200;
+
+/**
+ * Transcribes audio with the configured backend (`transcription.provider`). Results are cached by the
+ * hash of the audio content, so a forwarded voice note is transcribed once. Audio that is longer than
+ * `transcription.maxChunkSeconds` or larger than the backend accepts is split with ffmpeg and the
+ * chunk transcripts are joined.
+ */
 export class AudioService {
     private cachePath: string;
-    private cache: Record<string, string>;
-    private openai: OpenAI;
+    private cache: Record<string, CachedTranscription>;
+    private transcriber?: Transcriber;
+    private transcriberKey?: string;
+    // Concurrent requests for the same audio (e.g. the pipeline and a tool) share one transcription
+    private pending: Map<string, Promise<string>> = new Map();
 
-    constructor() {
+    constructor(private config: AppConfig, transcriber?: Transcriber) {
+        this.transcriber = transcriber;
         this.cachePath = path.join(process.cwd(), '.cache', 'transcriptions.json');
         this.cache = {}; // Initialize empty, load async in init method could be better, but sync load is fine for startup
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY,
-        });
         this.loadCache();
     }
 
     private loadCache() {
         try {
             if (fs.existsSync(this.cachePath)) {
-                this.cache = fs.readJSONSync(this.cachePath);
+                // Entries of the old format (message ID -> text) are dropped
+                const raw: Record<string, unknown> = fs.readJSONSync(this.cachePath);
+                this.cache = Object.fromEntries(Object.entries(raw).filter(([, v]) => typeof v === 'object' && v !== null)) as Record<string, CachedTranscription>;
             }
         } catch (e) {
             console.error("Failed to load audio cache", e);
@@ -29,51 +64,130 @@ export class AudioService {
 
     private saveCache() {
         try {
+            fs.ensureDirSync(path.dirname(this.cachePath));
             fs.writeJSONSync(this.cachePath, this.cache, { spaces: 2 });
         } catch (e) {
             console.error("Failed to save audio cache", e);
         }
     }
 
-    public async transcribe(mediaId: string, audioBuffer: Buffer): Promise<string> {
+    /**
+     * Forgets all cached transcriptions (e.g. after changing the transcription model). Returns how many were removed.
+     */
+    public clearCache(): number {
+        const count = Object.keys(this.cache).length;
+        this.cache = {};
+        this.saveCache();
+        console.log(`[AUDIO] Cleared ${count} cached transcription(s)`);
+        return count;
+    }
+
+    private getTranscriber(): Transcriber {
+        // Rebuilt when `transcription` changes on a config reload
+        const key = JSON.stringify(this.config.transcription);
+        if (!this.transcriber || (this.transcriberKey !== undefined && this.transcriberKey !== key)) {
+            this.transcriber = createTranscriber(this.config.transcription);
+            this.transcriberKey = key;
+        }
+        return this.transcriber;
+    }
+
+    /**
+     * @param mimetype As reported by WhatsApp (e.g. "audio/ogg; codecs=opus"). The format is sniffed from the content if missing.
+     * @throws TranscriptionDisabledError if `features.audioTranscription` is off (for the chat, when its config is given)
+     */
+    public async transcribe(audioBuffer: Buffer, mimetype: string | undefined, options: TranscribeOptions = {}): Promise<string> {
+        const config = options.config ?? this.config;
+        if (!config.features.audioTranscription) throw new TranscriptionDisabledError();
+
+        const { language, prompt } = config.transcription;
+        const hash = crypto.createHash('sha256').update(audioBuffer).digest('hex');
+        const key = language ? `${hash}:${language}` : hash;
+
         // 1. Check Cache
-        if (this.cache[mediaId]) {
-            console.log(`[AUDIO] Cache Hit for ${mediaId}`);
-            return this.cache[mediaId];
+        if (this.cache[key]) {
+            console.log(`[AUDIO] Cache Hit for ${hash.substring(0, 12)}`);
+            return this.cache[key].text;
         }
+        const running = this.pending.get(key);
+        if (running) return running;
+
+        const transcription = this.run(audioBuffer, mimetype, hash, key, { language, prompt }, options.attribution || {});
+        this.pending.set(key, transcription);
+        try {
+            return await transcription;
+        } finally {
+            this.pending.delete(key);
+        }
+    }
 
-        console.log(`[AUDIO] Transcribing ${mediaId}...`);
+    private async run(audioBuffer: Buffer, mimetype: string | undefined, hash: string, key: string, hints: { language?: string; prompt?: string }, attribution: UsageAttribution): Promise<string> {
+        const transcriber = this.getTranscriber();
+        const { maxChunkSeconds } = this.config.transcription;
+        const extension = getAudioExtension(mimetype, audioBuffer);
+        console.log(`[AUDIO] Transcribing ${hash.substring(0, 12)} (${extension}, ${(audioBuffer.length / 1024).toFixed(0)} KB) with ${transcriber.name}...`);
 
+        const tempDir = path.join(process.cwd(), '.cache', 'temp', `${hash.substring(0, 12)}-${Date.now()}`);
         try {
-            // OpenAI requires a File-like object. We can write to tmp or use specific buffer handling.
-            // Simplest way for Node: write to temp file
-            const tempDir = path.join(process.cwd(), '.cache', 'temp');
             await fs.ensureDir(tempDir);
-            const tempFilePath = path.join(tempDir, `${mediaId}.mp3`); // Assuming generic extension, ffmpeg usually handles it or we detect mime
+            const inputPath = path.join(tempDir, `input.${extension}`);
+            await fs.writeFile(inputPath, audioBuffer);
 
-            await fs.writeFile(tempFilePath, audioBuffer);
+            // 2. Prepare: convert and split when the backend needs it
+            const duration = await getAudioDuration(inputPath);
+            const tooLarge = transcriber.maxUploadBytes !== undefined && audioBuffer.length > transcriber.maxUploadBytes;
+            const tooLong = duration !== undefined && duration > maxChunkSeconds;
+            let files = [inputPath];
+            if (transcriber.inputFormat !== 'any' || tooLarge || tooLong) {
+                try {
+                    files = await splitAudio(inputPath, path.join(tempDir, 'chunks'), transcriber.inputFormat === 'wav' ? 'wav' : 'ogg', maxChunkSeconds);
+                    if (files.length > 1) console.log(`[AUDIO] Split ${duration ? `${Math.round(duration)}s ` : ''}into ${files.length} chunks`);
+                } catch (e: any) {
+                    if (e?.code !== 'ENOENT') throw e;
+                    // Without ffmpeg the file can still go as it is, unless the backend can't take it
+                    if (tooLarge) throw new Error(`Audio is ${(audioBuffer.length / 1024 / 1024).toFixed(1)} MB, over the ${transcriber.name} limit, and ffmpeg (needed to split it) is not installed`);
+                    if (transcriber.inputFormat !== 'any' && transcriber.inputFormat !== extension) throw new Error(`${transcriber.name} needs ${transcriber.inputFormat} audio and ffmpeg (needed to convert ${extension}) is not installed`);
+                    console.warn(`[AUDIO] ffmpeg not found, transcribing the file as it is.`);
+                }
+            }
 
-            const fileStream = fs.createReadStream(tempFilePath);
+            // 3. Transcribe the chunks in order and stitch them together
+            const texts: string[] = [];
+            let reportedSeconds = 0;
+            for (const file of files) {
+                const previous = texts.length > 0 ? texts[texts.length - 1].slice(-CHUNK_CONTEXT_CHARS) : '';
+                const result = await transcriber.transcribe(file, {
+                    language: hints.language,
+                    prompt: [hints.prompt, previous].filter(Boolean).join(' ') || undefined
+                });
+                texts.push(result.text.trim());
+                reportedSeconds += result.durationSeconds || 0;
+            }
+            const text = texts.filter(Boolean).join(' ');
 
-            const response = await this.openai.audio.transcriptions.create({
-                file: fileStream,
-                model: "whisper-1",
+            const audioSeconds = reportedSeconds || duration || 0;
+            UsageLedger.getInstance().record({
+                ...attribution,
+                agent: "Whisper",
+                model: transcriber.name,
+                promptTokens: 0,
+                completionTokens: 0,
+                audioSeconds,
+                cost: transcriber.billed ? (audioSeconds / 60) * this.config.usage.audioPricePerMinute : 0
             });
 
-            const text = response.text;
-
             // Update Cache
-            this.cache[mediaId] = text;
+            this.cache[key] = { text, model: transcriber.name, language: hints.language, durationSeconds: audioSeconds || undefined, createdAt: new Date().toISOString() };
             this.saveCache();
 
-            // Cleanup
-            fs.unlink(tempFilePath).catch(() => { });
-
             return text;
 
         } catch (error) {
             console.error("[AUDIO] Transcription failed", error);
             throw error;
+        } finally {
+            // Cleanup
+            fs.remove(tempDir).catch(() => { });
         }
     }
 }
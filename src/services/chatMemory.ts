@@ -0,0 +1,264 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { AppConfig } from '../config/config';
+import { LLMFactory } from './llmFactory';
+import { ArchivedMessage, MessageArchive } from './messageArchive';
+import { formatPromptTime } from '../utils/dateUtils';
+import { getMessageText } from '../utils/formatUtils';
+
+export interface MemoryFact {
+    id: string;
+    text: string;
+    source: 'remembered' | 'extracted'; // "@g remember ..." or found in the conversation by the memory model
+    authorId?: string;                  // Who asked to remember it
+    authorName?: string;
+    createdAt: string;
+}
+
+export interface ChatMemoryData {
+    summary?: string;
+    summaryUpdatedAt?: string;
+    updatedUntil: number; // Timestamp (seconds) of the last archived message the summary and facts include
+    facts: MemoryFact[];
+}
+
+const MemoryUpdateSchema = z.object({
+    summary: z.string().describe("Updated rolling summary of the chat"),
+    new_facts: z.array(z.string()).describe("Durable facts learned from the new messages"),
+    outdated_fact_ids: z.array(z.string()).describe("IDs of facts the new messages contradict or make obsolete")
+});
+
+type MemoryUpdate = z.infer<typeof MemoryUpdateSchema>;
+
+function tokenize(text: string): Set<string> {
+    return new Set((text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+}
+
+/**
+ * Long-term memory of a chat: a rolling summary and durable facts, kept across queries.
+ * Facts come from "@g remember ..." and from the memory model, which reads the archived messages
+ * every `memory.updateEveryMessages` new messages of a chat the bot is used in.
+ * Stored as one JSON file per chat in .cache/memory.
+ */
+export class ChatMemory {
+    private chats: Map<string, ChatMemoryData> = new Map();
+    private updating: Set<string> = new Set();
+    private model?: BaseChatModel;
+    private modelKey?: string;
+    private systemPrompt: string;
+
+    /**
+     * @param storeDir Directory of the memory files. null keeps the memory in memory only.
+     */
+    constructor(private config: AppConfig, private archive: MessageArchive, private storeDir: string | null = path.join(process.cwd(), '.cache', 'memory'), model?: BaseChatModel) {
+        this.model = model;
+        this.systemPrompt = fs.readFileSync(path.join(process.cwd(), 'src', 'prompts', 'memory.txt'), 'utf-8');
+    }
+
+    // --- Persistence ---
+
+    private getChatPath(chatId: string): string {
+        return path.join(this.storeDir!, `${chatId.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`);
+    }
+
+    public get(chatId: string): ChatMemoryData {
+        let memory = this.chats.get(chatId);
+        if (memory) return memory;
+
+        memory = { updatedUntil: 0, facts: [] };
+        if (this.storeDir && fs.existsSync(this.getChatPath(chatId))) {
+            try {
+                memory = fs.readJSONSync(this.getChatPath(chatId)) as ChatMemoryData;
+            } catch (e) {
+                console.error(`[MEMORY] Failed to load memory of ${chatId}`, e);
+            }
+        }
+        this.chats.set(chatId, memory);
+        return memory;
+    }
+
+    private save(chatId: string) {
+        if (!this.storeDir) return;
+        try {
+            fs.ensureDirSync(this.storeDir);
+            fs.writeJSONSync(this.getChatPath(chatId), this.get(chatId), { spaces: 2 });
+        } catch (e) {
+            console.error(`[MEMORY] Failed to save memory of ${chatId}`, e);
+        }
+    }
+
+    private generateId(memory: ChatMemoryData): string {
+        let id: string;
+        do {
+            id = Math.random().toString(36).substring(2, 7);
+        } while (memory.facts.some(f => f.id === id));
+        return id;
+    }
+
+    /**
+     * Adds facts, skipping ones that are already remembered. Beyond `memory.maxFacts` the oldest extracted facts are dropped first.
+     */
+    private addFacts(chatId: string, facts: Array<Omit<MemoryFact, 'id' | 'createdAt'>>): MemoryFact[] {
+        const memory = this.get(chatId);
+        const added: MemoryFact[] = [];
+        for (const fact of facts) {
+            const text = fact.text.trim();
+            if (!text || memory.facts.some(f => f.text.toLowerCase() === text.toLowerCase())) continue;
+            const created: MemoryFact = { ...fact, text, id: this.generateId(memory), createdAt: new Date().toISOString() };
+            memory.facts.push(created);
+            added.push(created);
+        }
+
+        while (memory.facts.length > this.config.memory.maxFacts) {
+            const oldestExtracted = memory.facts.findIndex(f => f.source === 'extracted');
+            memory.facts.splice(oldestExtracted >= 0 ? oldestExtracted : 0, 1);
+        }
+        return added;
+    }
+
+    // --- Commands ---
+
+    /**
+     * Stores a fact the user asked to remember. Returns the existing fact if it is already remembered.
+     */
+    public remember(chatId: string, text: string, authorId: string, authorName: string): MemoryFact {
+        const [added] = this.addFacts(chatId, [{ text, source: 'remembered', authorId, authorName }]);
+        if (added) {
+            this.save(chatId);
+            console.log(`[MEMORY] ${chatId}: remembered ${added.id} "${added.text}"`);
+            return added;
+        }
+        return this.get(chatId).facts.find(f => f.text.toLowerCase() === text.trim().toLowerCase())!;
+    }
+
+    /**
+     * Removes facts. Returns the removed facts.
+     */
+    public forget(chatId: string, facts: MemoryFact[]): MemoryFact[] {
+        const memory = this.get(chatId);
+        const ids = new Set(facts.map(f => f.id));
+        const removed = memory.facts.filter(f => ids.has(f.id));
+        memory.facts = memory.facts.filter(f => !ids.has(f.id));
+        this.save(chatId);
+        console.log(`[MEMORY] ${chatId}: forgot ${removed.map(f => f.id).join(', ')}`);
+        return removed;
+    }
+
+    /**
+     * Facts matching an ID or a part of their text.
+     */
+    public find(chatId: string, target: string): MemoryFact[] {
+        const facts = this.get(chatId).facts;
+        const needle = target.trim().toLowerCase();
+        const byId = facts.find(f => f.id === needle);
+        return byId ? [byId] : facts.filter(f => f.text.toLowerCase().includes(needle));
+    }
+
+    /**
+     * Clears the summary and all facts of a chat.
+     */
+    public clear(chatId: string) {
+        const memory = this.get(chatId);
+        memory.summary = undefined;
+        memory.summaryUpdatedAt = undefined;
+        memory.facts = [];
+        // Keep updatedUntil, so what was forgotten isn't extracted again from the same messages
+        this.save(chatId);
+        console.log(`[MEMORY] ${chatId}: cleared`);
+    }
+
+    // --- Context ---
+
+    /**
+     * The [CHAT_MEMORY] block for the executor: the summary and the facts most related to the query
+     * (words in common, then the newest), up to `memory.maxFactsInContext`. Undefined if there is nothing.
+     */
+    public formatForContext(chatId: string, query: string): string | undefined {
+        const memory = this.get(chatId);
+        if (!memory.summary && memory.facts.length === 0) return undefined;
+
+        const queryWords = tokenize(query);
+        const ranked = memory.facts
+            .map((fact, index) => ({ fact, index, score: [...tokenize(fact.text)].filter(word => queryWords.has(word)).length }))
+            .sort((a, b) => b.score - a.score || b.index - a.index)
+            .slice(0, this.config.memory.maxFactsInContext)
+            .map(({ fact }) => fact);
+
+        const lines = [`[CHAT_MEMORY] Long-term memory of this chat (may be outdated; recent messages win):`];
+        if (memory.summary) lines.push(`Summary: ${memory.summary}`);
+        if (ranked.length > 0) {
+            lines.push(`Facts:`);
+            for (const fact of ranked) lines.push(`- ${fact.text}${fact.authorName ? ` (noted by ${fact.authorName})` : ''}`);
+        }
+        return lines.join('\n');
+    }
+
+    // --- Updates ---
+
+    private getModel(): BaseChatModel {
+        // Summaries and fact extraction use the planner model (cheap, deterministic). Rebuilt after a config reload.
+        const key = JSON.stringify(this.config.models.planner);
+        if (!this.model || (this.modelKey !== undefined && this.modelKey !== key)) {
+            this.model = LLMFactory.createLLM(this.config.models.planner);
+            this.modelKey = key;
+        }
+        return this.model;
+    }
+
+    private formatMessage(message: ArchivedMessage): string {
+        const name = message.fromMe ? this.config.bot.ownerName : message.senderName;
+        const time = formatPromptTime(new Date(message.timestamp * 1000), this.config.bot.timezone);
+        const text = message.transcription ? `${message.body} [voice message: ${message.transcription}]` : message.body;
+        return `[${name}] (${time}): ${text || `<${message.type}>`}`;
+    }
+
+    /**
+     * Updates the summary and facts of a chat in the background once it has `memory.updateEveryMessages`
+     * new archived messages. Called after each answered query.
+     */
+    public maybeUpdate(chatId: string) {
+        if (!this.config.memory.enabled || this.updating.has(chatId)) return;
+        const memory = this.get(chatId);
+        const pending = this.archive.list(chatId).filter(m => m.timestamp > memory.updatedUntil);
+        if (pending.length < this.config.memory.updateEveryMessages) return;
+
+        this.updating.add(chatId);
+        this.update(chatId, pending.slice(-this.config.memory.maxMessagesPerUpdate))
+            .catch(e => console.error(`[MEMORY] Update of ${chatId} failed`, e))
+            .finally(() => this.updating.delete(chatId));
+    }
+
+    private async update(chatId: string, messages: ArchivedMessage[]) {
+        const memory = this.get(chatId);
+        console.log(`[MEMORY] Updating ${chatId} with ${messages.length} new messages...`);
+
+        const facts = memory.facts.map(f => `- ${f.id}: ${f.text}`).join('\n') || '(none)';
+        const input = [
+            new SystemMessage(this.systemPrompt),
+            new HumanMessage(`CURRENT SUMMARY:\n${memory.summary || '(none)'}\n\nREMEMBERED FACTS:\n${facts}\n\nNEW MESSAGES:\n${messages.map(m => this.formatMessage(m)).join('\n')}`)
+        ];
+        const callOptions = { metadata: { agent: "Memory", chatId } };
+
+        let result: MemoryUpdate;
+        if (this.config.models.planner.structuredOutput !== false) {
+            result = await this.getModel().withStructuredOutput(MemoryUpdateSchema, { name: "memory_update" }).invoke(input, callOptions);
+        } else {
+            const raw = getMessageText((await this.getModel().invoke(input, callOptions)).content);
+            result = MemoryUpdateSchema.parse(JSON.parse(raw.substring(raw.indexOf('{'), raw.lastIndexOf('}') + 1)));
+        }
+
+        // Remembered facts are only removed by "forget"
+        const outdated = new Set(result.outdated_fact_ids);
+        memory.facts = memory.facts.filter(f => f.source === 'remembered' || !outdated.has(f.id));
+        const added = this.addFacts(chatId, result.new_facts.map(text => ({ text, source: 'extracted' as const })));
+
+        memory.summary = result.summary.trim() || memory.summary;
+        memory.summaryUpdatedAt = new Date().toISOString();
+        memory.updatedUntil = messages[messages.length - 1].timestamp;
+        this.save(chatId);
+        console.log(`[MEMORY] ${chatId}: summary updated, ${added.length} new fact(s), ${outdated.size} outdated`);
+    }
+}
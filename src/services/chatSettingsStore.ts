@@ -0,0 +1,80 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+export interface ChatSettings {
+    muted?: boolean;
+    persona?: string;
+    voice?: string;                    // TTS voice for voice-note replies
+    voiceReplies?: 'always' | 'never'; // Unset: only when asked for (planner's respond_with_voice)
+}
+
+// Settings stored under this key apply to every chat (chat IDs always contain '@')
+const GLOBAL_KEY = '*';
+
+/**
+ * Per-chat settings changed at runtime through commands (mute, persona, ...).
+ * Persisted to disk so they survive restarts.
+ */
+export class ChatSettingsStore {
+    private storePath: string;
+    private settings: Record<string, ChatSettings> = {};
+
+    constructor(storePath: string = path.join(process.cwd(), '.cache', 'chat_settings.json')) {
+        this.storePath = storePath;
+        this.load();
+    }
+
+    private load() {
+        try {
+            if (fs.existsSync(this.storePath)) {
+                this.settings = fs.readJSONSync(this.storePath);
+            }
+        } catch (e) {
+            console.error("[SETTINGS] Failed to load chat settings", e);
+            this.settings = {};
+        }
+    }
+
+    private save() {
+        try {
+            fs.ensureDirSync(path.dirname(this.storePath));
+            fs.writeJSONSync(this.storePath, this.settings, { spaces: 2 });
+        } catch (e) {
+            console.error("[SETTINGS] Failed to save chat settings", e);
+        }
+    }
+
+    public get(chatId: string): ChatSettings {
+        return this.settings[chatId] || {};
+    }
+
+    public update(chatId: string, changes: Partial<ChatSettings>): ChatSettings {
+        const updated = { ...this.get(chatId), ...changes };
+        // Drop cleared values so the file stays readable
+        for (const key of Object.keys(updated) as Array<keyof ChatSettings>) {
+            if (updated[key] === undefined) delete updated[key];
+        }
+        this.settings[chatId] = updated;
+        this.save();
+        return updated;
+    }
+
+    public getAll(): Record<string, ChatSettings> {
+        const { [GLOBAL_KEY]: _global, ...chats } = this.settings;
+        return chats;
+    }
+
+    /** Whether the bot is muted everywhere (paused from the admin page). */
+    public isGloballyMuted(): boolean {
+        return !!this.settings[GLOBAL_KEY]?.muted;
+    }
+
+    public setGloballyMuted(muted: boolean) {
+        this.update(GLOBAL_KEY, { muted: muted || undefined });
+    }
+
+    /** Muted in this chat or globally. */
+    public isMuted(chatId: string): boolean {
+        return this.isGloballyMuted() || !!this.get(chatId).muted;
+    }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import mime from 'mime-types';
+import mammoth from 'mammoth';
+import ExcelJS from 'exceljs';
+import { PDFParse } from 'pdf-parse';
+import { AppConfig } from '../config/config';
+import { MediaPayload } from '../transport/types';
+
+export type DocumentKind = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'text';
+
+export interface DocumentSection {
+    label: string;   // "Page 3", "Sheet Budget". Empty for documents without pages.
+    text: string;
+    header?: string; // Repeated at the top of every chunk of the section (the header row of a table)
+}
+
+export interface ExtractedDocument {
+    hash: string;
+    kind: DocumentKind;
+    filename?: string;
+    pages?: number;   // PDF only
+    scanned: boolean; // PDF without a text layer: its pages have to be looked at as images
+    sections: DocumentSection[];
+    extractedAt: string;
+}
+
+export interface DocumentChunk {
+    index: number;
+    label: string;
+    text: string;
+    tokens: number;
+}
+
+const KIND_BY_MIMETYPE: Record<string, DocumentKind> = {
+    'application/pdf': 'pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'text/csv': 'csv',
+    'text/plain': 'text',
+    'text/markdown': 'text',
+    'application/json': 'text'
+};
+
+// A PDF with less text than this per page is treated as scanned
+const MIN_TEXT_CHARS_PER_PAGE = 25;
+// Width of rendered scanned pages; the executor downscales them further if needed
+const PAGE_IMAGE_WIDTH = 1400;
+
+function estimateTextTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function tokenize(text: string): Set<string> {
+    return new Set((text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+}
+
+/**
+ * The kind of a document from its mimetype, else from its file name. Undefined if it can't be read.
+ */
+export function getDocumentKind(mimetype: string | undefined, filename?: string | null): DocumentKind | undefined {
+    const type = mimetype?.split(';')[0].trim().toLowerCase();
+    if (type && KIND_BY_MIMETYPE[type]) return KIND_BY_MIMETYPE[type];
+    const byName = filename ? mime.lookup(filename) : false;
+    return byName ? KIND_BY_MIMETYPE[byName] : undefined;
+}
+
+/**
+ * Splits the sections into chunks of about `chunkTokens`, at line boundaries. Chunks of a table repeat its header row.
+ */
+export function chunkDocument(doc: ExtractedDocument, chunkTokens: number): DocumentChunk[] {
+    const maxChars = chunkTokens * 4;
+    const chunks: DocumentChunk[] = [];
+
+    for (const section of doc.sections) {
+        const lines = section.text.split('\n').flatMap(line => {
+            const pieces: string[] = [];
+            for (let i = 0; i < line.length; i += maxChars) pieces.push(line.slice(i, i + maxChars));
+            return pieces.length > 0 ? pieces : [''];
+        });
+
+        const parts: string[] = [];
+        let current: string[] = [];
+        let length = 0;
+        for (const line of lines) {
+            if (current.length > 0 && length + line.length > maxChars) {
+                parts.push(current.join('\n'));
+                current = [];
+                length = 0;
+            }
+            current.push(line);
+            length += line.length + 1;
+        }
+        if (current.some(line => line.trim())) parts.push(current.join('\n'));
+
+        parts.forEach((part, i) => {
+            const text = section.header && i > 0 ? `${section.header}\n${part}` : part;
+            const label = parts.length > 1 ? `${section.label || 'Part'} (${i + 1}/${parts.length})` : section.label;
+            chunks.push({ index: chunks.length, label, text: text.trim(), tokens: estimateTextTokens(text) });
+        });
+    }
+    return chunks;
+}
+
+/**
+ * Picks the chunks that fit in the token budget: everything if the document fits, else the first chunk
+ * (title, introduction) and then the chunks sharing the most words with the query. Returned in document order.
+ */
+export function selectChunks(chunks: DocumentChunk[], query: string, tokenBudget: number): DocumentChunk[] {
+    const total = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+    if (total <= tokenBudget) return chunks;
+
+    const queryWords = tokenize(query);
+    const ranked = chunks
+        .map(chunk => ({ chunk, score: chunk.index === 0 ? Infinity : [...tokenize(chunk.text)].filter(word => queryWords.has(word)).length }))
+        .sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index);
+
+    const selected: DocumentChunk[] = [];
+    let used = 0;
+    for (const { chunk } of ranked) {
+        if (used + chunk.tokens > tokenBudget) continue;
+        selected.push(chunk);
+        used += chunk.tokens;
+    }
+    return selected.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Extracts the text of attached documents (PDF, DOCX, XLSX, CSV, plain text), with page and sheet markers.
+ * Results are cached by the hash of the file content in .cache/documents, so a document forwarded to
+ * several chats or asked about again is parsed once.
+ */
+export class DocumentService {
+    private cacheDir: string;
+
+    constructor(private config: AppConfig, cacheDir: string = path.join(process.cwd(), '.cache', 'documents')) {
+        this.cacheDir = cacheDir;
+    }
+
+    public isSupported(mimetype: string | undefined, filename?: string | null): boolean {
+        return getDocumentKind(mimetype, filename) !== undefined;
+    }
+
+    private loadCached(hash: string): ExtractedDocument | undefined {
+        const cachePath = path.join(this.cacheDir, `${hash}.json`);
+        try {
+            if (fs.existsSync(cachePath)) return fs.readJSONSync(cachePath);
+        } catch (e) {
+            console.error(`[DOCS] Failed to load cached extraction ${hash}`, e);
+        }
+        return undefined;
+    }
+
+    private saveCached(doc: ExtractedDocument) {
+        try {
+            fs.ensureDirSync(this.cacheDir);
+            fs.writeJSONSync(path.join(this.cacheDir, `${doc.hash}.json`), doc);
+        } catch (e) {
+            console.error(`[DOCS] Failed to cache extraction ${doc.hash}`, e);
+        }
+    }
+
+    /**
+     * Extracts the text of a document.
+     * @throws Error if the format is not supported, the file is over `documents.maxBytes` or can't be parsed
+     */
+    public async extract(media: MediaPayload): Promise<ExtractedDocument> {
+        const kind = getDocumentKind(media.mimetype, media.filename);
+        if (!kind) throw new Error(`Unsupported document type: ${media.mimetype}${media.filename ? ` (${media.filename})` : ''}`);
+
+        const buffer = Buffer.from(media.data, 'base64');
+        if (buffer.length > this.config.documents.maxBytes) {
+            throw new Error(`Document is ${(buffer.length / 1024 / 1024).toFixed(1)} MB, over the limit of ${(this.config.documents.maxBytes / 1024 / 1024).toFixed(1)} MB`);
+        }
+
+        const hash = crypto.createHash('sha256').update(buffer).digest('hex');
+        const cached = this.loadCached(hash);
+        if (cached) {
+            console.log(`[DOCS] Cache Hit for ${hash.substring(0, 12)}`);
+            return { ...cached, filename: media.filename || cached.filename };
+        }
+
+        console.log(`[DOCS] Extracting ${kind} ${media.filename || hash.substring(0, 12)} (${(buffer.length / 1024).toFixed(0)} KB)...`);
+        const doc: ExtractedDocument = { hash, kind, filename: media.filename || undefined, scanned: false, sections: [], extractedAt: new Date().toISOString() };
+
+        if (kind === 'pdf') {
+            const parser = new PDFParse({ data: new Uint8Array(buffer) });
+            try {
+                const result = await parser.getText({ pageJoiner: '' });
+                doc.pages = result.total;
+                doc.sections = result.pages.map(page => ({ label: `Page ${page.num}`, text: page.text.trim() }));
+                const textChars = doc.sections.reduce((sum, s) => sum + s.text.replace(/\s/g, '').length, 0);
+                doc.scanned = textChars < MIN_TEXT_CHARS_PER_PAGE * Math.max(result.total, 1);
+            } finally {
+                await parser.destroy();
+            }
+        } else if (kind === 'docx') {
+            const result = await mammoth.extractRawText({ buffer });
+            doc.sections = [{ label: '', text: result.value.replace(/\n{3,}/g, '\n\n').trim() }];
+        } else if (kind === 'xlsx') {
+            const workbook = new ExcelJS.Workbook();
+            await workbook.xlsx.load(buffer as any);
+            workbook.eachSheet(sheet => {
+                const rows: string[] = [];
+                sheet.eachRow(row => {
+                    const cells: string[] = [];
+                    row.eachCell({ includeEmpty: true }, cell => cells.push(cell.text.replace(/\s+/g, ' ').trim()));
+                    rows.push(cells.join(' | '));
+                });
+                if (rows.length > 0) doc.sections.push({ label: `Sheet "${sheet.name}"`, text: rows.join('\n'), header: rows[0] });
+            });
+        } else {
+            const text = buffer.toString('utf-8').replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').trim();
+            doc.sections = [{ label: '', text, header: kind === 'csv' ? text.split('\n')[0] : undefined }];
+        }
+
+        doc.sections = doc.sections.filter(s => s.text.length > 0);
+        console.log(`[DOCS] Extracted ${doc.sections.length} section(s), ~${estimateTextTokens(doc.sections.map(s => s.text).join('\n'))} tokens${doc.scanned ? ' (scanned PDF, no text layer)' : ''}`);
+        this.saveCached(doc);
+        return doc;
+    }
+
+    /**
+     * Renders the first pages of a PDF as PNG images (for scanned PDFs), up to `documents.maxScannedPages`.
+     */
+    public async renderPages(media: MediaPayload, maxPages: number = this.config.documents.maxScannedPages): Promise<MediaPayload[]> {
+        if (maxPages <= 0) return [];
+        const parser = new PDFParse({ data: new Uint8Array(Buffer.from(media.data, 'base64')) });
+        try {
+            const result = await parser.getScreenshot({ first: maxPages, desiredWidth: PAGE_IMAGE_WIDTH, imageBuffer: true, imageDataUrl: false });
+            return result.pages.map(page => ({ mimetype: 'image/png', data: Buffer.from(page.data).toString('base64'), filename: `page-${page.pageNumber}.png` }));
+        } finally {
+            await parser.destroy();
+        }
+    }
+
+    /**
+     * The document as a context block for the executor: the chunks most related to the query that fit in the
+     * token budget, each with its page/sheet marker, and a note on what was left out.
+     */
+    public formatForContext(doc: ExtractedDocument, query: string, tokenBudget: number): string {
+        const chunks = chunkDocument(doc, this.config.documents.chunkTokens);
+        const selected = selectChunks(chunks, query, tokenBudget);
+        const name = doc.filename || `${doc.kind.toUpperCase()} document`;
+        const size = doc.pages ? `${doc.pages} pages` : `${doc.sections.length} section(s)`;
+
+        const lines = [`[DOCUMENT: ${name}, ${size}${selected.length < chunks.length ? `, showing ${selected.length} of ${chunks.length} parts most related to the query` : ''}]`];
+        let previous = -1;
+        for (const chunk of selected) {
+            if (chunk.index > previous + 1) lines.push(`[... ${chunk.index - previous - 1} part(s) omitted ...]`);
+            if (chunk.label) lines.push(`--- ${chunk.label} ---`);
+            lines.push(chunk.text);
+            previous = chunk.index;
+        }
+        if (previous < chunks.length - 1) lines.push(`[... ${chunks.length - previous - 1} part(s) omitted ...]`);
+        lines.push(`[END_DOCUMENT]`);
+        return lines.join('\n');
+    }
+}
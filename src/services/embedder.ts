@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import { EmbedderConfig } from '../config/config';
+import { UsageLedger, UsageAttribution, estimateTokenCost } from './usageLedger';
+
+/**
+ * Turns texts into vectors for semantic search. Vectors of one embedder are only comparable with each other,
+ * so indexes are stored per embedder name.
+ */
+export interface Embedder {
+    readonly name: string;
+    embed(texts: string[], attribution?: UsageAttribution): Promise<number[][]>;
+}
+
+function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map(x => x / norm) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Deterministic offline embedder: hashes words and character trigrams into a fixed-size vector.
+ * No semantics beyond shared words/word parts, but it needs no network and gives stable results in tests and the REPL.
+ */
+export class LocalHashEmbedder implements Embedder {
+    public readonly name: string;
+
+    constructor(private dimensions: number = 512) {
+        this.name = `local-hash-${dimensions}`;
+    }
+
+    private bucket(feature: string): { index: number; sign: number } {
+        const hash = crypto.createHash('md5').update(feature).digest();
+        return { index: hash.readUInt32LE(0) % this.dimensions, sign: hash[4] & 1 ? 1 : -1 };
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array(this.dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+        for (const word of words) {
+            const { index, sign } = this.bucket(`w:${word}`);
+            vector[index] += sign * 2;
+
+            // Trigrams make "restaurant" match "restaurants" and Hebrew prefixes (ה, ב, ל...)
+            const padded = `#${word}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                const gram = this.bucket(`g:${padded.slice(i, i + 3)}`);
+                vector[gram.index] += gram.sign;
+            }
+        }
+        return normalize(vector);
+    }
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+}
+
+/**
+ * OpenAI embeddings API (e.g. text-embedding-3-small). Usage is recorded in the UsageLedger.
+ */
+export class OpenAIEmbedder implements Embedder {
+    public readonly name: string;
+    private client: OpenAI;
+
+    constructor(private config: EmbedderConfig) {
+        this.name = `openai-${config.modelName}`;
+        this.client = new OpenAI({ apiKey: process.env[config.apiKeyEnvVar || 'OPENAI_API_KEY'] });
+    }
+
+    public async embed(texts: string[], attribution: UsageAttribution = {}): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        const response = await this.client.embeddings.create({ model: this.config.modelName, input: texts });
+
+        const promptTokens = response.usage?.prompt_tokens || 0;
+        UsageLedger.getInstance().record({
+            ...attribution,
+            agent: "Embeddings",
+            model: this.config.modelName,
+            promptTokens,
+            completionTokens: 0,
+            cost: estimateTokenCost(this.config.pricing, promptTokens, 0)
+        });
+
+        return response.data.sort((a, b) => a.index - b.index).map(d => d.embedding);
+    }
+}
+
+export function createEmbedder(config: EmbedderConfig): Embedder {
+    switch (config.provider) {
+        case 'openai':
+            return new OpenAIEmbedder(config);
+        case 'local':
+            return new LocalHashEmbedder(config.dimensions);
+        default:
+            throw new Error(`Unsupported embedder provider: ${config.provider}`);
+    }
+}
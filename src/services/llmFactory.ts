@@ -1,32 +1,64 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatXAI } from '@langchain/xai';
 import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
 import { ModelConfig } from '../config/config';
 import { FileLoggingCallbackHandler } from './loggingCallbackHandler';
+import { UsageCallbackHandler } from './usageCallbackHandler';
+import { ResilientChatModel } from './resilientChatModel';
 
 export class LLMFactory {
+    /**
+     * Creates the model for a config, with its retries and fallback chain (ModelConfig.fallbacks).
+     */
     public static createLLM(config: ModelConfig): BaseChatModel {
+        const chain = [config, ...(config.fallbacks || [])].map(modelConfig => ({
+            config: modelConfig,
+            runnable: LLMFactory.createProviderModel(modelConfig)
+        }));
+        return new ResilientChatModel(chain);
+    }
+
+    /**
+     * Creates a single provider model. Retries are done by ResilientChatModel, so the client's own are off.
+     */
+    private static createProviderModel(config: ModelConfig): BaseChatModel {
         const apiKey = process.env[config.apiKeyEnvVar];
-        if (!apiKey) {
+        // Self-hosted OpenAI-compatible servers usually don't check the key
+        if (!apiKey && config.provider !== 'openai-compatible') {
             console.warn(`[LLMFactory] Missing API key for env var: ${config.apiKeyEnvVar}. Model instantiation may fail.`);
         }
 
+        const callbacks = [new FileLoggingCallbackHandler(), new UsageCallbackHandler(config)];
+
         switch (config.provider) {
             case 'grok':
                 return new ChatXAI({
                     apiKey: apiKey,
                     model: config.modelName,
                     temperature: config.temperature ?? 0.7,
-                    callbacks: [new FileLoggingCallbackHandler()]
+                    maxRetries: 0,
+                    callbacks: callbacks
                 });
             case 'openai':
+            case 'openai-compatible':
                 return new ChatOpenAI({
-                    apiKey: apiKey,
+                    apiKey: apiKey || 'not-needed',
                     modelName: config.modelName,
                     temperature: config.temperature ?? 0.7,
-                    callbacks: [new FileLoggingCallbackHandler()]
+                    maxRetries: 0,
+                    configuration: config.baseURL ? { baseURL: config.baseURL } : undefined,
+                    callbacks: callbacks
+                });
+            case 'anthropic':
+                return new ChatAnthropic({
+                    apiKey: apiKey,
+                    model: config.modelName,
+                    temperature: config.temperature ?? 0.7,
+                    maxRetries: 0,
+                    anthropicApiUrl: config.baseURL,
+                    callbacks: callbacks
                 });
-            // Add other providers here (Anthropic, etc.)
             default:
                 throw new Error(`Unsupported LLM provider: ${config.provider}`);
         }
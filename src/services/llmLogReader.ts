@@ -0,0 +1,218 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { LogRecord } from '../utils/logger';
+import { PlannerAgent, PlannerOutput } from '../agents/planner';
+
+/**
+ * Reads back the query directories written by FileLoggingCallbackHandler:
+ * .llm_logs/<yymmdd-hhmmss>-<queryId>/{Planner,Executor}.json plus saved media and the query's events.jsonl.
+ * Agents that call their model more than once (planner repairs, executor tool steps) also write <Agent>.step<N>.json.
+ */
+
+export interface LoggedMessage {
+    type: string;
+    content: any;
+}
+
+export interface LlmRunLog {
+    timestamp: string;
+    runId: string;
+    modelName: string;
+    inputs: LoggedMessage[][];
+    metadata?: Record<string, any>;
+    tags?: string[];
+    output?: any[][];
+    tokenUsage?: Record<string, number>;
+    endTime?: string;
+    error?: string;
+}
+
+export interface QueryLog {
+    dirName: string;
+    dirPath: string;
+    logTimestamp: string;
+    queryId: string;
+    planner?: LlmRunLog;
+    executor?: LlmRunLog;
+    plannerFinal?: LlmRunLog;  // Last planner step (the plan that was used)
+    executorFinal?: LlmRunLog; // Last executor step (the response that was sent)
+    mediaFiles: string[];
+}
+
+export interface RunLogFile {
+    file: string;
+    run: LlmRunLog;
+}
+
+export interface QuerySummary {
+    dirName: string;
+    queryId: string;
+    logTimestamp: string;
+    chatId?: string;
+    senderId?: string;
+    senderName?: string;
+    message?: string;
+    plan?: PlannerOutput;
+    response?: string;      // Text of the answer that was sent
+    model?: string;         // Model that wrote the answer
+    latencyMs?: number;
+    tokens: number;
+    tokensByAgent: Record<string, number>;
+    errors: string[];
+}
+
+export const LOG_ROOT = path.join(process.cwd(), '.llm_logs');
+export const REPLAY_QUERY_PREFIX = "replay-";
+
+const QUERY_DIR_PATTERN = /^(\d{6}-\d{6})-(.+)$/;
+
+function readRunLog(filePath: string): LlmRunLog | undefined {
+    if (!fs.existsSync(filePath)) return undefined;
+    try {
+        return fs.readJSONSync(filePath);
+    } catch (e) {
+        console.warn(`[LOGS] Failed to read ${filePath}: ${e}`);
+        return undefined;
+    }
+}
+
+/**
+ * Reads the last step of an agent's runs (<agent>.stepN.json, or <agent>.json if it ran once).
+ */
+function readFinalRunLog(dirPath: string, files: string[], agent: string): LlmRunLog | undefined {
+    const pattern = new RegExp(`^${agent}\\.step(\\d+)\\.json$`);
+    const lastStep = Math.max(0, ...files.map(f => f.match(pattern)).filter(Boolean).map(m => parseInt(m![1])));
+    return readRunLog(path.join(dirPath, lastStep > 1 ? `${agent}.step${lastStep}.json` : `${agent}.json`));
+}
+
+/**
+ * Reads a single query directory.
+ */
+export function readQueryLog(dirPath: string): QueryLog | undefined {
+    const dirName = path.basename(dirPath);
+    const match = dirName.match(QUERY_DIR_PATTERN);
+    if (!match || !fs.existsSync(dirPath)) return undefined;
+
+    const files = fs.readdirSync(dirPath);
+    return {
+        dirName,
+        dirPath,
+        logTimestamp: match[1],
+        queryId: match[2],
+        planner: readRunLog(path.join(dirPath, 'Planner.json')),
+        executor: readRunLog(path.join(dirPath, 'Executor.json')),
+        plannerFinal: readFinalRunLog(dirPath, files, 'Planner'),
+        executorFinal: readFinalRunLog(dirPath, files, 'Executor'),
+        mediaFiles: files.filter(f => !f.endsWith('.json') && !f.endsWith('.jsonl'))
+    };
+}
+
+/**
+ * Every model call of a query (planner steps, executor steps, failed attempts, image descriptions), oldest first.
+ */
+export function readRunLogs(dirPath: string): RunLogFile[] {
+    if (!fs.existsSync(dirPath)) return [];
+    return fs.readdirSync(dirPath)
+        .filter(file => file.endsWith('.json'))
+        .map(file => ({ file, run: readRunLog(path.join(dirPath, file)) }))
+        .filter((r): r is RunLogFile => !!r.run?.runId)
+        .sort((a, b) => a.run.timestamp.localeCompare(b.run.timestamp));
+}
+
+/**
+ * The log lines of a query (events.jsonl). Empty for queries logged before it existed.
+ */
+export function readQueryEvents(dirPath: string): LogRecord[] {
+    const filePath = path.join(dirPath, 'events.jsonl');
+    if (!fs.existsSync(filePath)) return [];
+    return fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean).flatMap(line => {
+        try {
+            return [JSON.parse(line)];
+        } catch (e) {
+            return [];
+        }
+    });
+}
+
+/**
+ * Lists query directories, oldest first. Directories produced by replays are skipped unless requested.
+ */
+export function listQueryLogs(options: { root?: string; includeReplays?: boolean; last?: number } = {}): QueryLog[] {
+    const root = options.root || LOG_ROOT;
+    if (!fs.existsSync(root)) return [];
+
+    return fs.readdirSync(root)
+        .filter(name => QUERY_DIR_PATTERN.test(name))
+        .filter(name => options.includeReplays || !name.match(QUERY_DIR_PATTERN)![2].startsWith(REPLAY_QUERY_PREFIX))
+        .filter(name => fs.statSync(path.join(root, name)).isDirectory())
+        .sort()
+        // Directory names start with the timestamp, so the newest are last
+        .slice(options.last ? -options.last : 0)
+        .map(name => readQueryLog(path.join(root, name)))
+        .filter((q): q is QueryLog => !!q);
+}
+
+/**
+ * Finds a query by directory path, directory name or queryId.
+ */
+export function findQueryLog(ref: string, root: string = LOG_ROOT): QueryLog | undefined {
+    if (fs.existsSync(ref) && fs.statSync(ref).isDirectory()) return readQueryLog(path.resolve(ref));
+    return listQueryLogs({ root, includeReplays: true }).find(q => q.dirName === ref || q.queryId === ref);
+}
+
+/**
+ * Returns the first generation of a run as text.
+ */
+export function getRunOutputText(run?: LlmRunLog): string | undefined {
+    const first = run?.output?.[0]?.[0];
+    if (first === undefined || first === null) return undefined;
+    if (typeof first === 'string') return first;
+    if (Array.isArray(first)) return first.map((p: any) => typeof p === 'string' ? p : p.text || '').join('');
+    return JSON.stringify(first);
+}
+
+export function getRunTokens(run: LlmRunLog): number {
+    const usage = run.tokenUsage || {};
+    return usage.totalTokens ?? ((usage.promptTokens || 0) + (usage.completionTokens || 0));
+}
+
+/**
+ * Who asked what in a query, the plan, the answer, latency, tokens and errors.
+ */
+export function summarizeQueryLog(q: QueryLog): QuerySummary {
+    const runs = readRunLogs(q.dirPath);
+    const events = readQueryEvents(q.dirPath);
+    const meta = q.planner?.metadata || q.executor?.metadata || {};
+    const planText = getRunOutputText(q.plannerFinal);
+
+    const summary: QuerySummary = {
+        dirName: q.dirName,
+        queryId: q.queryId,
+        logTimestamp: q.logTimestamp,
+        chatId: meta.chatId ?? events.find(e => e.chatId)?.chatId,
+        senderId: meta.senderId ?? events.find(e => e.sender)?.sender,
+        senderName: typeof meta.full_metadata === 'string' ? meta.full_metadata.match(/Sender: ([^,]+)/)?.[1] : undefined,
+        message: meta.query,
+        plan: planText !== undefined ? PlannerAgent.validatePlanText(planText, { fromLog: true }).plan : undefined,
+        response: getRunOutputText(q.executorFinal),
+        model: q.executorFinal?.metadata?.model ?? q.executorFinal?.modelName,
+        tokens: 0,
+        tokensByAgent: {},
+        errors: []
+    };
+
+    for (const { file, run } of runs) {
+        const tokens = getRunTokens(run);
+        const agent = run.metadata?.agent || 'Other';
+        summary.tokens += tokens;
+        summary.tokensByAgent[agent] = (summary.tokensByAgent[agent] || 0) + tokens;
+        if (run.error) summary.errors.push(`${file}: ${run.error}`);
+    }
+    events.filter(e => e.level === 'error').forEach(e => summary.errors.push(`${e.component ? `[${e.component}] ` : ''}${e.message.split('\n')[0]}`));
+
+    // From the pipeline's own start/end lines when they were logged, else from the model calls
+    const start = events.find(e => e.component === 'START' && e.queryId)?.time ?? runs[0]?.run.timestamp;
+    const end = events.find(e => e.component === 'DONE')?.time ?? runs[runs.length - 1]?.run.endTime;
+    if (start && end) summary.latencyMs = new Date(end).getTime() - new Date(start).getTime();
+    return summary;
+}
@@ -0,0 +1,153 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AppConfig } from '../config/config';
+import { LLM_LOG_ROOT } from '../utils/logUtils';
+
+export interface SweepResult {
+    deleted: number;    // Query directories (and loose run logs) removed
+    redacted: number;   // Query directories stripped of media
+    freedBytes: number;
+}
+
+interface LogEntry {
+    name: string;
+    path: string;
+    isDirectory: boolean;
+    modifiedAt: number; // Newest modification of the entry or anything in it
+    size: number;
+}
+
+// Queries written to in this window may still be running: they are not redacted or deleted for size
+const ACTIVE_QUERY_MS = 10 * 60 * 1000;
+// Written into a query directory once its media is removed, so it is not redacted again
+const REDACTED_MARKER = 'redacted.json';
+const DATA_URL_PATTERN = /data:([\w.+-]+\/[\w.+-]+);base64,[A-Za-z0-9+/=]+/g;
+// Base64 media stored without a data URL prefix (e.g. audio parts)
+const BASE64_STRING_PATTERN = /"[A-Za-z0-9+/]{1000,}={0,2}"/g;
+
+function getSize(entryPath: string): number {
+    const stat = fs.statSync(entryPath);
+    if (!stat.isDirectory()) return stat.size;
+    return fs.readdirSync(entryPath).reduce((sum, name) => sum + getSize(path.join(entryPath, name)), 0);
+}
+
+// Appending to a file doesn't touch its directory's mtime, so a query directory is as new as its newest file
+function getModifiedAt(entryPath: string): number {
+    const stat = fs.statSync(entryPath);
+    if (!stat.isDirectory()) return stat.mtimeMs;
+    return fs.readdirSync(entryPath).reduce((newest, name) => Math.max(newest, getModifiedAt(path.join(entryPath, name))), stat.mtimeMs);
+}
+
+/**
+ * Enforces `logging.retention` on .llm_logs: deletes query logs older than `maxAgeDays`, then the oldest ones
+ * while the total is over `maxTotalMB`, and with `redactMedia` removes saved media files and base64 blobs from
+ * finished queries (the prompts and answers stay readable). Runs every `sweepIntervalMinutes`.
+ */
+export class LogRetentionSweeper {
+    private timer?: NodeJS.Timeout;
+    private sweeping = false;
+
+    constructor(private config: AppConfig, private root: string = LLM_LOG_ROOT) { }
+
+    public start() {
+        this.stop();
+        this.timer = setInterval(() => this.sweep(), this.config.logging.retention.sweepIntervalMinutes * 60 * 1000);
+        this.timer.unref();
+        this.sweep();
+    }
+
+    public stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private listEntries(): LogEntry[] {
+        if (!fs.existsSync(this.root)) return [];
+        // "_replays" and other "_" directories hold reports, not query logs
+        return fs.readdirSync(this.root).filter(name => !name.startsWith('_')).map(name => {
+            const entryPath = path.join(this.root, name);
+            return { name, path: entryPath, isDirectory: fs.statSync(entryPath).isDirectory(), modifiedAt: getModifiedAt(entryPath), size: getSize(entryPath) };
+        });
+    }
+
+    public async sweep(now: Date = new Date()): Promise<SweepResult> {
+        const result: SweepResult = { deleted: 0, redacted: 0, freedBytes: 0 };
+        if (this.sweeping) return result;
+        this.sweeping = true;
+
+        try {
+            const { maxAgeDays, maxTotalMB, redactMedia } = this.config.logging.retention;
+            let entries = this.listEntries();
+
+            const remove = async (entry: LogEntry) => {
+                await fs.remove(entry.path);
+                result.deleted++;
+                result.freedBytes += entry.size;
+            };
+
+            // 1. Age
+            if (maxAgeDays > 0) {
+                const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+                for (const entry of entries.filter(e => e.modifiedAt < cutoff)) await remove(entry);
+                entries = entries.filter(e => e.modifiedAt >= cutoff);
+            }
+
+            const finished = (entry: LogEntry) => now.getTime() - entry.modifiedAt > ACTIVE_QUERY_MS;
+
+            // 2. Media
+            if (redactMedia) {
+                for (const entry of entries.filter(e => e.isDirectory && finished(e) && !fs.existsSync(path.join(e.path, REDACTED_MARKER)))) {
+                    const before = entry.size;
+                    await this.redact(entry.path, entry.modifiedAt);
+                    entry.size = getSize(entry.path);
+                    result.redacted++;
+                    result.freedBytes += Math.max(0, before - entry.size);
+                }
+            }
+
+            // 3. Total size, oldest first
+            if (maxTotalMB > 0) {
+                let total = entries.reduce((sum, e) => sum + e.size, 0);
+                const maxBytes = maxTotalMB * 1024 * 1024;
+                for (const entry of entries.filter(finished).sort((a, b) => a.modifiedAt - b.modifiedAt)) {
+                    if (total <= maxBytes) break;
+                    await remove(entry);
+                    total -= entry.size;
+                }
+            }
+
+            if (result.deleted > 0 || result.redacted > 0) {
+                console.log(`[LOGS] Retention: deleted ${result.deleted}, redacted ${result.redacted}, freed ${(result.freedBytes / 1024 / 1024).toFixed(1)} MB`);
+            }
+        } catch (e) {
+            console.error(`[LOGS] Retention sweep failed`, e);
+        } finally {
+            this.sweeping = false;
+        }
+        return result;
+    }
+
+    /**
+     * Deletes the saved media of a query directory and replaces base64 data in its JSON logs with placeholders.
+     */
+    private async redact(dirPath: string, modifiedAt: number) {
+        const removed: string[] = [];
+        for (const name of await fs.readdir(dirPath)) {
+            const filePath = path.join(dirPath, name);
+            if (name.endsWith('.json') || name.endsWith('.jsonl')) {
+                const content = await fs.readFile(filePath, 'utf-8');
+                const redacted = content
+                    .replace(DATA_URL_PATTERN, (_, mimetype) => `data:${mimetype};base64,[REDACTED]`)
+                    .replace(BASE64_STRING_PATTERN, '"[REDACTED BASE64]"');
+                if (redacted !== content) await fs.writeFile(filePath, redacted);
+            } else {
+                await fs.remove(filePath);
+                removed.push(name);
+            }
+        }
+        await fs.writeJSON(path.join(dirPath, REDACTED_MARKER), { redactedAt: new Date().toISOString(), removedFiles: removed }, { spaces: 2 });
+        // Keep the query's age: it is what maxAgeDays and the size limit go by
+        for (const name of await fs.readdir(dirPath)) await fs.utimes(path.join(dirPath, name), new Date(), new Date(modifiedAt));
+        await fs.utimes(dirPath, new Date(), new Date(modifiedAt));
+    }
+}
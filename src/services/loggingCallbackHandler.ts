@@ -5,6 +5,7 @@ import { ChatGeneration } from "@langchain/core/outputs";
 import fs from 'fs-extra';
 import path from 'path';
 import { getLogTimestamp } from '../utils/dateUtils';
+import { logger } from '../utils/logger';
 
 export class FileLoggingCallbackHandler extends BaseCallbackHandler {
     name = "FileLoggingCallbackHandler";
@@ -75,15 +76,24 @@ export class FileLoggingCallbackHandler extends BaseCallbackHandler {
             }
 
             // Filename can be simpler if we are in a dedicated dir
-            // Use Agent name if available
+            // Use Agent name if available (multi-step agents log follow-up steps separately)
             if (entry.metadata.agent) {
-                filename = `${entry.metadata.agent}.json`;
+                const step = entry.metadata.step;
+                const base = step && step > 1 ? `${entry.metadata.agent}.step${step}` : entry.metadata.agent;
+                // Failed attempts are kept next to the answer of the retry or fallback model
+                filename = entry.error ? `${base}.error-${runId.substring(0, 8)}.json` : `${base}.json`;
             }
         }
 
         const filePath = path.join(entryDir, filename);
         const logContent = JSON.stringify(entry, null, 2);
         fs.writeFileSync(filePath, logContent);
+
+        // One line per model call in the query's events.jsonl, pointing to the full log
+        const durationMs = new Date(entry.endTime).getTime() - new Date(entry.timestamp).getTime();
+        const fields = { agent: entry.metadata?.agent, model: entry.modelName, durationMs, tokenUsage: entry.tokenUsage, file: filename };
+        if (entry.error) logger.warn('LLM', `${entry.metadata?.agent || 'Model'} call failed: ${entry.error}`, fields);
+        else logger.debug('LLM', `${entry.metadata?.agent || 'Model'} call finished in ${durationMs}ms`, fields);
     }
 
     async handleLLMEnd(output: LLMResult, runId: string): Promise<void> {
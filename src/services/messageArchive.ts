@@ -0,0 +1,436 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AppConfig } from '../config/config';
+import { ChatInfo, ChatMessage, ChatTransport, MessageType } from '../transport/types';
+
+export interface ArchivedMedia {
+    mimetype: string;
+    filename?: string;
+    path?: string; // Local copy (relative to the working directory), set once the media was downloaded
+}
+
+export interface ArchivedMessage {
+    id: string;
+    chatId: string;
+    senderId: string;
+    senderName: string;
+    body: string;
+    type: MessageType;
+    timestamp: number; // Seconds since epoch
+    fromMe: boolean;
+    hasMedia: boolean;
+    hasQuotedMsg: boolean;
+    transcription?: string;
+    media?: ArchivedMedia;
+}
+
+export interface ArchiveSearchFilter {
+    keyword?: string;
+    sender?: string; // Part of the sender's name or ID
+    limit: number;
+}
+
+// Time span (seconds, inclusive) for which the archive holds every message of a chat
+interface CoveredSpan {
+    from: number;
+    to: number;
+}
+
+interface ChatArchive {
+    messages: ArchivedMessage[]; // Sorted by timestamp
+    byId: Map<string, ArchivedMessage>;
+    bySender: Map<string, ArchivedMessage[]>;
+    lineCount: number;
+}
+
+// Don't hit the transport again for the same chat's gap within this window
+const FALLBACK_COOLDOWN_MS = 10 * 60 * 1000;
+// Live messages extend the coverage all the time; it is written at most this often (a crash only loses the
+// newest span, which is fetched from the transport again)
+const COVERAGE_SAVE_DELAY_MS = 30 * 1000;
+// Rough token cost of an attached image
+const IMAGE_TOKENS = 800;
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for context budgeting.
+ */
+export function estimateTokens(message: ArchivedMessage): number {
+    const text = message.body.length + (message.transcription?.length || 0) + message.senderName.length + 30;
+    return Math.ceil(text / 4) + (message.type === 'image' ? IMAGE_TOKENS : 0);
+}
+
+/**
+ * Keeps the newest messages that fit in the token budget. Returns them in chronological order.
+ * Pinned messages (e.g. search hits) are kept first, regardless of age.
+ */
+export function fitToTokenBudget(messages: ArchivedMessage[], tokenBudget: number, pinnedIds: Set<string> = new Set()): { kept: ArchivedMessage[]; omitted: number } {
+    const keep = new Set<ArchivedMessage>();
+    let used = 0;
+    const tryKeep = (message: ArchivedMessage): boolean => {
+        const cost = estimateTokens(message);
+        if (used + cost > tokenBudget) return false;
+        used += cost;
+        keep.add(message);
+        return true;
+    };
+
+    messages.filter(m => pinnedIds.has(m.id)).reverse().forEach(tryKeep);
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (pinnedIds.has(messages[i].id)) continue;
+        if (!tryKeep(messages[i])) break;
+    }
+
+    const kept = messages.filter(m => keep.has(m));
+    return { kept, omitted: messages.length - kept.length };
+}
+
+/**
+ * The oldest time a query in this chat may read history from (archive.maxHistoryDays), or undefined if unlimited.
+ */
+export function getHistoryCutoff(config: AppConfig, now: Date = new Date()): Date | undefined {
+    const days = config.archive.maxHistoryDays;
+    return days > 0 ? new Date(now.getTime() - days * 24 * 60 * 60 * 1000) : undefined;
+}
+
+function lowerBound(messages: ArchivedMessage[], timestamp: number): number {
+    let lo = 0, hi = messages.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (messages[mid].timestamp < timestamp) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+/**
+ * Local archive of every message the bot has seen, so history lookups are not limited to what the transport
+ * returns for the last N messages.
+ * Messages are captured live (message_create) and backfilled on startup. Each chat is an append-only JSONL file
+ * under .cache/archive, indexed in memory by id, sender and timestamp. The archive also tracks which time spans it
+ * holds completely and falls back to the transport only for gaps.
+ */
+export class MessageArchive {
+    private chats: Map<string, ChatArchive> = new Map();
+    private coverage: Record<string, CoveredSpan[]> = {};
+    private lastFallback: Map<string, number> = new Map();
+    private coverageSaveTimer?: NodeJS.Timeout;
+    // Everything created since startup is captured live
+    private sessionStart = Math.floor(Date.now() / 1000);
+
+    /**
+     * @param storeDir Directory of the archive files. null keeps the archive in memory only.
+     */
+    constructor(private config: AppConfig, private storeDir: string | null = path.join(process.cwd(), '.cache', 'archive')) {
+        this.loadCoverage();
+    }
+
+    // --- Persistence ---
+
+    private getChatPath(chatId: string): string {
+        return path.join(this.storeDir!, `${chatId.replace(/[^a-zA-Z0-9@._-]/g, '_')}.jsonl`);
+    }
+
+    private getCoveragePath(): string {
+        return path.join(this.storeDir!, 'coverage.json');
+    }
+
+    private loadCoverage() {
+        if (!this.storeDir) return;
+        try {
+            if (fs.existsSync(this.getCoveragePath())) {
+                this.coverage = fs.readJSONSync(this.getCoveragePath());
+            }
+        } catch (e) {
+            console.error("[ARCHIVE] Failed to load coverage", e);
+            this.coverage = {};
+        }
+    }
+
+    private saveCoverage() {
+        if (!this.storeDir) return;
+        try {
+            fs.ensureDirSync(this.storeDir);
+            fs.writeJSONSync(this.getCoveragePath(), this.coverage, { spaces: 2 });
+        } catch (e) {
+            console.error("[ARCHIVE] Failed to save coverage", e);
+        }
+    }
+
+    private scheduleCoverageSave() {
+        if (!this.storeDir || this.coverageSaveTimer) return;
+        this.coverageSaveTimer = setTimeout(() => {
+            this.coverageSaveTimer = undefined;
+            this.saveCoverage();
+        }, COVERAGE_SAVE_DELAY_MS);
+        this.coverageSaveTimer.unref();
+    }
+
+    private getChat(chatId: string): ChatArchive {
+        let chat = this.chats.get(chatId);
+        if (chat) return chat;
+
+        chat = { messages: [], byId: new Map(), bySender: new Map(), lineCount: 0 };
+        this.chats.set(chatId, chat);
+
+        if (this.storeDir && fs.existsSync(this.getChatPath(chatId))) {
+            try {
+                const lines = fs.readFileSync(this.getChatPath(chatId), 'utf-8').split('\n').filter(line => line.trim());
+                for (const line of lines) this.upsertInMemory(chat, JSON.parse(line));
+                chat.lineCount = lines.length;
+
+                // Updates (transcriptions, media paths) append a new line per message. Compact when it doubles the file.
+                if (chat.lineCount > 2 * chat.messages.length) this.compact(chatId, chat);
+            } catch (e) {
+                console.error(`[ARCHIVE] Failed to load archive of ${chatId}`, e);
+            }
+        }
+        return chat;
+    }
+
+    private compact(chatId: string, chat: ChatArchive) {
+        try {
+            fs.writeFileSync(this.getChatPath(chatId), chat.messages.map(m => JSON.stringify(m)).join('\n') + '\n');
+            chat.lineCount = chat.messages.length;
+        } catch (e) {
+            console.error(`[ARCHIVE] Failed to compact archive of ${chatId}`, e);
+        }
+    }
+
+    private append(chat: ChatArchive, message: ArchivedMessage) {
+        if (!this.storeDir) return;
+        try {
+            fs.ensureDirSync(this.storeDir);
+            fs.appendFileSync(this.getChatPath(message.chatId), JSON.stringify(message) + '\n');
+            chat.lineCount++;
+        } catch (e) {
+            console.error(`[ARCHIVE] Failed to write message ${message.id}`, e);
+        }
+    }
+
+    // --- Indexing ---
+
+    /**
+     * Inserts or merges a message. Returns the stored message and whether anything changed.
+     */
+    private upsertInMemory(chat: ChatArchive, incoming: ArchivedMessage): { stored: ArchivedMessage; changed: boolean } {
+        const existing = chat.byId.get(incoming.id);
+        if (existing) {
+            // Never lose a transcription or media reference to a re-fetch that doesn't have them
+            const merged: ArchivedMessage = {
+                ...existing,
+                ...incoming,
+                transcription: incoming.transcription ?? existing.transcription,
+                media: incoming.media || existing.media ? { ...existing.media, ...incoming.media } as ArchivedMedia : undefined
+            };
+            const changed = JSON.stringify(merged) !== JSON.stringify(existing);
+            Object.assign(existing, merged);
+            return { stored: existing, changed };
+        }
+
+        chat.messages.splice(lowerBound(chat.messages, incoming.timestamp + 1), 0, incoming);
+        chat.byId.set(incoming.id, incoming);
+        const senderMessages = chat.bySender.get(incoming.senderId) || [];
+        senderMessages.splice(lowerBound(senderMessages, incoming.timestamp + 1), 0, incoming);
+        chat.bySender.set(incoming.senderId, senderMessages);
+        return { stored: incoming, changed: true };
+    }
+
+    private async toArchived(message: ChatMessage): Promise<ArchivedMessage> {
+        let senderName = message.senderId;
+        try {
+            senderName = await message.getSenderName();
+        } catch (e) { /* keep the ID */ }
+
+        return {
+            id: message.id,
+            chatId: message.chatId,
+            senderId: message.senderId,
+            senderName,
+            body: message.body,
+            type: message.type,
+            timestamp: message.timestamp,
+            fromMe: message.fromMe,
+            hasMedia: message.hasMedia,
+            hasQuotedMsg: message.hasQuotedMsg
+        };
+    }
+
+    private store(message: ArchivedMessage): ArchivedMessage {
+        const chat = this.getChat(message.chatId);
+        const { stored, changed } = this.upsertInMemory(chat, message);
+        if (changed) this.append(chat, stored);
+        return stored;
+    }
+
+    // --- Coverage ---
+
+    private addCoverage(chatId: string, from: number, to: number) {
+        const existing = this.coverage[chatId] || [];
+        if (existing.some(span => span.from <= from && span.to >= to)) return;
+
+        const spans = [...existing, { from, to }].sort((a, b) => a.from - b.from);
+        const merged: CoveredSpan[] = [];
+        for (const span of spans) {
+            const last = merged[merged.length - 1];
+            if (last && span.from <= last.to + 1) last.to = Math.max(last.to, span.to);
+            else merged.push({ ...span });
+        }
+        this.coverage[chatId] = merged;
+        this.scheduleCoverageSave();
+    }
+
+    /**
+     * Whether the archive holds every message of the chat between the two times (seconds).
+     */
+    public isCovered(chatId: string, from: number, to: number): boolean {
+        const now = Math.floor(Date.now() / 1000);
+        const spans = [...(this.coverage[chatId] || []), { from: this.sessionStart, to: now }].sort((a, b) => a.from - b.from);
+
+        let cursor = from;
+        for (const span of spans) {
+            if (span.from > cursor) break;
+            cursor = Math.max(cursor, span.to + 1);
+            if (cursor > to) return true;
+        }
+        return cursor > to;
+    }
+
+    // --- Capture ---
+
+    /**
+     * Archives a live message (every message_create event).
+     */
+    public async record(message: ChatMessage): Promise<void> {
+        try {
+            this.store(await this.toArchived(message));
+            if (message.timestamp >= this.sessionStart) this.addCoverage(message.chatId, this.sessionStart, message.timestamp);
+        } catch (e) {
+            console.error(`[ARCHIVE] Failed to record message ${message.id}`, e);
+        }
+    }
+
+    /**
+     * Archives the last `limit` messages of a chat as returned by the transport.
+     * The span from the oldest returned message until now is then complete (from the beginning if fewer came back).
+     */
+    public async ingest(chat: ChatInfo, limit: number): Promise<number> {
+        const now = Math.floor(Date.now() / 1000);
+        const messages = await chat.fetchMessages({ limit });
+        for (const message of messages) this.store(await this.toArchived(message));
+
+        const oldest = messages.length > 0 ? Math.min(...messages.map(m => m.timestamp)) : now;
+        this.addCoverage(chat.id, messages.length < limit ? 0 : oldest, now);
+        return messages.length;
+    }
+
+    /**
+     * Backfills the most recently active chats, covering what happened while the bot was offline.
+     */
+    public async backfill(transport: ChatTransport): Promise<void> {
+        const { backfillChats, backfillLimit } = this.config.archive;
+        if (backfillChats <= 0) return;
+
+        try {
+            const chats = (await transport.getChats()).slice(0, backfillChats);
+            console.log(`[ARCHIVE] Backfilling ${chats.length} chats (up to ${backfillLimit} messages each)...`);
+            let total = 0;
+            for (const chat of chats) {
+                try {
+                    total += await this.ingest(chat, backfillLimit);
+                } catch (e) {
+                    console.error(`[ARCHIVE] Backfill failed for ${chat.id}`, e);
+                }
+            }
+            console.log(`[ARCHIVE] Backfill done: ${total} messages`);
+        } catch (e) {
+            console.error("[ARCHIVE] Backfill failed", e);
+        }
+    }
+
+    /**
+     * Attaches derived data (transcription, saved media path) to an archived message.
+     */
+    public update(messageId: string, chatId: string, changes: Partial<Pick<ArchivedMessage, 'transcription' | 'media'>>) {
+        const existing = this.getChat(chatId).byId.get(messageId);
+        if (!existing) return;
+        this.store({ ...existing, ...changes });
+    }
+
+    // --- Queries ---
+
+    public get(chatId: string, messageId: string): ArchivedMessage | undefined {
+        return this.getChat(chatId).byId.get(messageId);
+    }
+
+    /**
+     * All archived messages of a chat, oldest first.
+     */
+    public list(chatId: string): ArchivedMessage[] {
+        return [...this.getChat(chatId).messages];
+    }
+
+    /**
+     * A message with up to `count` messages before and after it, oldest first.
+     */
+    public getAround(chatId: string, messageId: string, count: number): ArchivedMessage[] {
+        const messages = this.getChat(chatId).messages;
+        const index = messages.findIndex(m => m.id === messageId);
+        if (index < 0) return [];
+        return messages.slice(Math.max(0, index - count), index + count + 1);
+    }
+
+    /**
+     * Messages of a chat between two times, oldest first.
+     * If the archive has a gap in the range, fetches the latest messages from the transport first.
+     */
+    public async getRange(chat: ChatInfo, start: Date, end: Date): Promise<ArchivedMessage[]> {
+        const from = Math.floor(start.getTime() / 1000);
+        const to = Math.floor(end.getTime() / 1000);
+
+        if (!this.isCovered(chat.id, from, to)) {
+            const last = this.lastFallback.get(chat.id) || 0;
+            if (Date.now() - last > FALLBACK_COOLDOWN_MS) {
+                console.log(`[ARCHIVE] Gap in ${chat.id} for ${start.toISOString()} - ${end.toISOString()}. Fetching from transport...`);
+                this.lastFallback.set(chat.id, Date.now());
+                await this.ingest(chat, this.config.archive.fetchLimit);
+            }
+        }
+
+        const messages = this.getChat(chat.id).messages;
+        return messages.slice(lowerBound(messages, from), lowerBound(messages, to + 1));
+    }
+
+    /**
+     * Searches a chat by keyword and/or sender (name or ID). Newest first.
+     * Falls back to the transport if the archive knows nothing about the chat yet.
+     */
+    public async search(chat: ChatInfo, filter: ArchiveSearchFilter): Promise<ArchivedMessage[]> {
+        const archive = this.getChat(chat.id);
+        if (archive.messages.length === 0 && !this.lastFallback.has(chat.id)) {
+            this.lastFallback.set(chat.id, Date.now());
+            await this.ingest(chat, this.config.archive.fetchLimit);
+        }
+
+        let candidates = archive.messages;
+        if (filter.sender) {
+            const needle = filter.sender.toLowerCase();
+            const senderIds = [...archive.bySender.entries()]
+                .filter(([senderId, messages]) => {
+                    const latest = messages[messages.length - 1];
+                    const name = latest.fromMe ? this.config.bot.ownerName : latest.senderName;
+                    return senderId.toLowerCase().includes(needle) || name.toLowerCase().includes(needle);
+                })
+                .map(([senderId]) => senderId);
+            candidates = senderIds.flatMap(id => archive.bySender.get(id)!).sort((a, b) => a.timestamp - b.timestamp);
+        }
+
+        const keyword = filter.keyword?.toLowerCase();
+        const results: ArchivedMessage[] = [];
+        for (let i = candidates.length - 1; i >= 0 && results.length < filter.limit; i--) {
+            const m = candidates[i];
+            if (keyword && !m.body.toLowerCase().includes(keyword) && !m.transcription?.toLowerCase().includes(keyword)) continue;
+            results.push(m);
+        }
+        return results;
+    }
+}
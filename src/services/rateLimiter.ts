@@ -1,34 +1,226 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { RateLimitConfig, RateLimitRule, RateLimitTier } from '../config/config';
 
+export type RateLimitBucket = 'fast' | 'reasoning';
+export type RateLimitScope = 'user' | 'chat' | 'global';
+
+export interface RateLimitSubject {
+    userId: string;
+    chatId: string;
+    isOwner: boolean;
+    isKnownContact: boolean;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    tier: string;
+    /** The scope that blocked the request, or the tightest scope if allowed. */
+    scope?: RateLimitScope;
+    remaining: number;
+    limit: number;
+    windowHours: number;
+    resetAt?: Date;
+}
+
+export interface RateLimitUsage {
+    scope: RateLimitScope;
+    id: string; // User or chat ID, "*" for global
+    bucket: RateLimitBucket;
+    requests: number;
+    windowHours: number;
+    lastRequestAt: Date;
+}
+
+interface ScopeCheck {
+    scope: RateLimitScope;
+    key: string;
+    limit: number;
+    windowMs: number;
+    windowHours: number;
+}
+
+/**
+ * Sliding-window rate limiter scoped per user, per chat and globally.
+ * Request timestamps are persisted to disk so limits survive restarts.
+ * Methods take an optional config for chats that override the limits; counters are shared either way.
+ */
 export class RateLimiter {
     private requests: Map<string, number[]> = new Map();
-    private limit: number;
-    private windowMs: number;
+    private config: RateLimitConfig;
+    private storePath: string;
+    // Longest window of the configured rules and of chat overrides seen since; older counters are dropped when saving
+    private longestWindowMs: number;
 
-    constructor(limit: number = 10, windowHour: number = 1) {
-        this.limit = limit;
-        this.windowMs = windowHour * 60 * 60 * 1000;
+    constructor(config: RateLimitConfig, storePath: string = path.join(process.cwd(), '.cache', 'rate_limits.json')) {
+        this.config = config;
+        this.storePath = storePath;
+        const windows = [config, config.chat, config.global, ...Object.values(config.tiers)].map(rule => rule?.windowHours ?? 0);
+        this.longestWindowMs = Math.max(...windows) * 60 * 60 * 1000;
+        this.load();
+    }
+
+    private load() {
+        try {
+            if (fs.existsSync(this.storePath)) {
+                const stored: Record<string, number[]> = fs.readJSONSync(this.storePath);
+                this.requests = new Map(Object.entries(stored));
+            }
+        } catch (e) {
+            console.error("[RATE LIMIT] Failed to load rate limit store", e);
+            this.requests = new Map();
+        }
     }
 
-    public canRequest(userId: string): boolean {
+    private save() {
         const now = Date.now();
-        const timestamps = this.requests.get(userId) || [];
+        for (const [key, timestamps] of this.requests) {
+            if (timestamps.length === 0 || now - timestamps[timestamps.length - 1] >= this.longestWindowMs) this.requests.delete(key);
+        }
+        try {
+            fs.ensureDirSync(path.dirname(this.storePath));
+            fs.writeJSONSync(this.storePath, Object.fromEntries(this.requests));
+        } catch (e) {
+            console.error("[RATE LIMIT] Failed to save rate limit store", e);
+        }
+    }
 
-        // Filter out old requests
-        const validTimestamps = timestamps.filter(ts => now - ts < this.windowMs);
+    /**
+     * Resolves the tier name for a subject: owner > explicit members > unknown contacts > default.
+     */
+    public resolveTier(subject: RateLimitSubject, config: RateLimitConfig = this.config): string {
+        if (subject.isOwner && config.tiers.owner) return 'owner';
+
+        for (const [name, tier] of Object.entries(config.tiers)) {
+            if (tier.members?.some(m => m.endsWith('*') ? subject.userId.startsWith(m.slice(0, -1)) : m === subject.userId)) {
+                return name;
+            }
+        }
+
+        if (!subject.isKnownContact && config.unknownContactTier && config.tiers[config.unknownContactTier]) {
+            return config.unknownContactTier;
+        }
+        return config.defaultTier;
+    }
+
+    /**
+     * Checks all scopes without recording the request.
+     */
+    public check(subject: RateLimitSubject, bucket: RateLimitBucket = 'fast', config: RateLimitConfig = this.config): RateLimitDecision {
+        const tierName = this.resolveTier(subject, config);
+        const tier: RateLimitTier = config.tiers[tierName] || {};
+
+        if (tier.unlimited) {
+            return { allowed: true, tier: tierName, remaining: Infinity, limit: Infinity, windowHours: 0 };
+        }
+
+        const now = Date.now();
+        let tightest: RateLimitDecision | undefined;
 
-        if (validTimestamps.length >= this.limit) {
-            return false;
+        for (const check of this.getScopeChecks(subject, tier, bucket, config)) {
+            const timestamps = this.getValidTimestamps(check.key, check.windowMs, now);
+            const remaining = Math.max(0, check.limit - timestamps.length);
+            const decision: RateLimitDecision = {
+                allowed: remaining > 0,
+                tier: tierName,
+                scope: check.scope,
+                remaining,
+                limit: check.limit,
+                windowHours: check.windowHours,
+                resetAt: timestamps.length > 0 ? new Date(timestamps[0] + check.windowMs) : undefined
+            };
+
+            if (!decision.allowed) return decision;
+            if (!tightest || decision.remaining < tightest.remaining) tightest = decision;
         }
 
-        validTimestamps.push(now);
-        this.requests.set(userId, validTimestamps);
-        return true;
+        return tightest || { allowed: true, tier: tierName, remaining: Infinity, limit: Infinity, windowHours: 0 };
     }
 
-    public getRemaining(userId: string): number {
+    /**
+     * Records a request against every scope of the subject.
+     */
+    public record(subject: RateLimitSubject, bucket: RateLimitBucket = 'fast', config: RateLimitConfig = this.config) {
+        const tier: RateLimitTier = config.tiers[this.resolveTier(subject, config)] || {};
+        if (tier.unlimited) return;
+
         const now = Date.now();
-        const timestamps = this.requests.get(userId) || [];
-        const validTimestamps = timestamps.filter(ts => now - ts < this.windowMs);
-        return this.limit - validTimestamps.length;
+        for (const check of this.getScopeChecks(subject, tier, bucket, config)) {
+            const timestamps = this.getValidTimestamps(check.key, check.windowMs, now);
+            timestamps.push(now);
+            this.requests.set(check.key, timestamps);
+            this.longestWindowMs = Math.max(this.longestWindowMs, check.windowMs);
+        }
+        this.save();
+    }
+
+    /**
+     * Checks and, if allowed, records the request.
+     */
+    public consume(subject: RateLimitSubject, bucket: RateLimitBucket = 'fast', config: RateLimitConfig = this.config): RateLimitDecision {
+        const decision = this.check(subject, bucket, config);
+        if (decision.allowed) {
+            this.record(subject, bucket, config);
+            if (isFinite(decision.remaining)) decision.remaining -= 1;
+        }
+        return decision;
+    }
+
+    public getRemaining(subject: RateLimitSubject, bucket: RateLimitBucket = 'fast', config: RateLimitConfig = this.config): number {
+        return this.check(subject, bucket, config).remaining;
+    }
+
+    /**
+     * Requests per user, chat and global counter within the configured window of their scope (the base
+     * window for users; tiers may use another), most recent first. Counters with no requests left are skipped.
+     */
+    public getUsage(config: RateLimitConfig = this.config): RateLimitUsage[] {
+        const now = Date.now();
+        const usage: RateLimitUsage[] = [];
+        for (const key of this.requests.keys()) {
+            // IDs never contain ':' (they are "<number>@c.us" style), so the key splits cleanly
+            const [scope, id, bucket] = key.split(':') as [RateLimitScope, string, RateLimitBucket];
+            const windowHours = scope === 'user' ? config.windowHours : config[scope]?.windowHours;
+            if (windowHours === undefined) continue;
+            const timestamps = this.getValidTimestamps(key, windowHours * 60 * 60 * 1000, now);
+            if (timestamps.length === 0) continue;
+            usage.push({ scope, id, bucket, requests: timestamps.length, windowHours, lastRequestAt: new Date(timestamps[timestamps.length - 1]) });
+        }
+        return usage.sort((a, b) => b.lastRequestAt.getTime() - a.lastRequestAt.getTime());
+    }
+
+    private getScopeChecks(subject: RateLimitSubject, tier: RateLimitTier, bucket: RateLimitBucket, config: RateLimitConfig): ScopeCheck[] {
+        const userRule: RateLimitRule = {
+            maxRequests: tier.maxRequests ?? config.maxRequests,
+            windowHours: tier.windowHours ?? config.windowHours,
+            reasoningMaxRequests: tier.reasoningMaxRequests ?? config.reasoningMaxRequests
+        };
+
+        const scopes: Array<[RateLimitScope, string, RateLimitRule | undefined]> = [
+            ['user', subject.userId, userRule],
+            ['chat', subject.chatId, config.chat],
+            ['global', '*', config.global]
+        ];
+
+        const checks: ScopeCheck[] = [];
+        for (const [scope, id, rule] of scopes) {
+            if (!rule) continue;
+            const limit = bucket === 'reasoning' ? rule.reasoningMaxRequests : rule.maxRequests;
+            if (limit === undefined) continue;
+            checks.push({
+                scope,
+                key: `${scope}:${id}:${bucket}`,
+                limit,
+                windowMs: rule.windowHours * 60 * 60 * 1000,
+                windowHours: rule.windowHours
+            });
+        }
+        return checks;
+    }
+
+    private getValidTimestamps(key: string, windowMs: number, now: number): number[] {
+        const timestamps = this.requests.get(key) || [];
+        // Filter out old requests
+        return timestamps.filter(ts => now - ts < windowMs);
     }
 }
@@ -0,0 +1,194 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AppConfig } from '../config/config';
+import { ChatTransport } from '../transport/types';
+import { Recurrence, formatZonedTime, getNextOccurrence, getWallClock } from '../utils/dateUtils';
+
+export interface Reminder {
+    id: string;
+    chatId: string;
+    creatorId: string;
+    creatorName: string;
+    text: string;
+    dueAt: string;             // ISO instant of the next delivery
+    recurrence?: Recurrence;
+    dayOfMonth?: number;       // Monthly: the day it was scheduled for, kept when shorter months clamp it
+    timeZone: string;          // Zone the wall clock time was given in (keeps recurring reminders at the same local hour)
+    sourceMessageId?: string;  // Quoted when the reminder is delivered
+    createdAt: string;
+    failures?: number;
+    retryAt?: string;          // ISO instant of the next attempt after a failed delivery
+}
+
+export type NewReminder = Omit<Reminder, 'id' | 'createdAt' | 'failures' | 'retryAt' | 'dayOfMonth'>;
+
+// Give up on a reminder after this many failed deliveries (chat left, transport errors, ...)
+const MAX_DELIVERY_FAILURES = 5;
+// Wait before retrying a failed delivery, doubling per failure (1, 2, 4, 8 minutes)
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+// Reminders delivered later than this (e.g. the bot was offline) say when they were due
+const LATE_THRESHOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Persistent one-off and recurring reminders.
+ * Reminders are stored in .cache/reminders.json and delivered to their chat by polling, so they survive restarts.
+ */
+export class ReminderScheduler {
+    private storePath: string;
+    private reminders: Reminder[] = [];
+    private timer?: NodeJS.Timeout;
+    private transport?: ChatTransport;
+    private delivering = false;
+
+    constructor(private config: AppConfig, storePath: string = path.join(process.cwd(), '.cache', 'reminders.json')) {
+        this.storePath = storePath;
+        this.load();
+    }
+
+    private load() {
+        try {
+            if (fs.existsSync(this.storePath)) {
+                this.reminders = fs.readJSONSync(this.storePath);
+                console.log(`[REMINDERS] Loaded ${this.reminders.length} pending reminders`);
+            }
+        } catch (e) {
+            console.error("[REMINDERS] Failed to load reminders", e);
+            this.reminders = [];
+        }
+    }
+
+    private save() {
+        try {
+            fs.ensureDirSync(path.dirname(this.storePath));
+            fs.writeJSONSync(this.storePath, this.reminders, { spaces: 2 });
+        } catch (e) {
+            console.error("[REMINDERS] Failed to save reminders", e);
+        }
+    }
+
+    private generateId(): string {
+        let id: string;
+        do {
+            id = Math.random().toString(36).substring(2, 7);
+        } while (this.reminders.some(r => r.id === id));
+        return id;
+    }
+
+    /**
+     * Schedules a reminder. Throws if the time is in the past or the chat has too many pending reminders.
+     */
+    public add(reminder: NewReminder): Reminder {
+        if (new Date(reminder.dueAt).getTime() <= Date.now()) {
+            throw new Error(`The time ${formatZonedTime(new Date(reminder.dueAt), reminder.timeZone)} is in the past.`);
+        }
+        if (this.list(reminder.chatId).length >= this.config.reminders.maxPerChat) {
+            throw new Error(`This chat already has ${this.config.reminders.maxPerChat} pending reminders.`);
+        }
+
+        const created: Reminder = { ...reminder, id: this.generateId(), createdAt: new Date().toISOString() };
+        if (created.recurrence === 'monthly') created.dayOfMonth = getWallClock(new Date(created.dueAt), created.timeZone).day;
+        this.reminders.push(created);
+        this.save();
+        console.log(`[REMINDERS] Scheduled ${created.id} in ${created.chatId} for ${created.dueAt}${created.recurrence ? ` (${created.recurrence})` : ''}: "${created.text}"`);
+        return created;
+    }
+
+    /**
+     * Pending reminders of a chat, soonest first.
+     */
+    public list(chatId: string): Reminder[] {
+        return this.reminders
+            .filter(r => r.chatId === chatId)
+            .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+    }
+
+    public get(id: string): Reminder | undefined {
+        return this.reminders.find(r => r.id === id.toLowerCase());
+    }
+
+    public cancel(id: string): Reminder | undefined {
+        const reminder = this.get(id);
+        if (!reminder) return undefined;
+        this.reminders = this.reminders.filter(r => r !== reminder);
+        this.save();
+        console.log(`[REMINDERS] Cancelled ${reminder.id}`);
+        return reminder;
+    }
+
+    /**
+     * Starts delivering due reminders through the transport. Overdue reminders (bot was offline) are sent right away.
+     * Nothing is delivered while the transport is not connected; reminders due meanwhile go out once it is.
+     */
+    public start(transport: ChatTransport) {
+        this.transport = transport;
+        this.stop();
+        this.timer = setInterval(() => this.deliverDue(), this.config.reminders.checkIntervalSeconds * 1000);
+        this.timer.unref();
+        this.deliverDue();
+    }
+
+    public stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private async deliverDue() {
+        if (!this.transport || this.delivering) return;
+        if (this.transport.getStatus().state !== 'ready') return;
+        this.delivering = true;
+        try {
+            const now = Date.now();
+            const isDue = (r: Reminder) => new Date(r.dueAt).getTime() <= now && (!r.retryAt || new Date(r.retryAt).getTime() <= now);
+            for (const reminder of this.reminders.filter(isDue)) {
+                await this.deliver(reminder, now);
+            }
+        } finally {
+            this.delivering = false;
+        }
+    }
+
+    private async deliver(reminder: Reminder, now: number) {
+        const dueAt = new Date(reminder.dueAt);
+        try {
+            const chat = await this.transport!.getChatById(reminder.chatId);
+            if (!chat) throw new Error(`Chat not found: ${reminder.chatId}`);
+
+            const late = now - dueAt.getTime() > LATE_THRESHOLD_MS ? `\n_(Was due ${formatZonedTime(dueAt, reminder.timeZone)})_` : "";
+            const repeat = reminder.recurrence ? `\n_(Repeats ${reminder.recurrence}. Cancel with id ${reminder.id})_` : "";
+            const text = `${this.config.bot.ignoreLoopEmoji} ⏰ *Reminder* for ${reminder.creatorName}: ${reminder.text}${late}${repeat}`;
+
+            try {
+                await chat.sendMessage(text, { quotedMessageId: reminder.sourceMessageId });
+            } catch (e) {
+                // The original message may have been deleted. Still deliver, just without the quote.
+                if (!reminder.sourceMessageId) throw e;
+                console.warn(`[REMINDERS] Failed to quote ${reminder.sourceMessageId}, sending without quote`, e);
+                await chat.sendMessage(text);
+            }
+            console.log(`[REMINDERS] Delivered ${reminder.id} to ${reminder.chatId}`);
+        } catch (e) {
+            reminder.failures = (reminder.failures || 0) + 1;
+            console.error(`[REMINDERS] Failed to deliver ${reminder.id} (attempt ${reminder.failures})`, e);
+            if (reminder.failures >= MAX_DELIVERY_FAILURES) {
+                console.error(`[REMINDERS] Dropping ${reminder.id} after ${reminder.failures} failed attempts`);
+                this.reminders = this.reminders.filter(r => r !== reminder);
+            } else {
+                reminder.retryAt = new Date(now + RETRY_BASE_DELAY_MS * 2 ** (reminder.failures - 1)).toISOString();
+            }
+            this.save();
+            return;
+        }
+
+        if (reminder.recurrence) {
+            // Skip occurrences missed while offline, deliver once and move on to the next future one
+            let next = getNextOccurrence(dueAt, reminder.recurrence, reminder.timeZone, reminder.dayOfMonth);
+            while (next.getTime() <= now) next = getNextOccurrence(next, reminder.recurrence, reminder.timeZone, reminder.dayOfMonth);
+            reminder.dueAt = next.toISOString();
+            reminder.failures = undefined;
+            reminder.retryAt = undefined;
+        } else {
+            this.reminders = this.reminders.filter(r => r !== reminder);
+        }
+        this.save();
+    }
+}
@@ -0,0 +1,182 @@
+import { BaseChatModel, BaseChatModelCallOptions, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+import { Runnable, RunnableConfig } from '@langchain/core/runnables';
+import { ModelConfig } from '../config/config';
+import { appendQueryLog } from '../utils/logUtils';
+import { getMessageText } from '../utils/formatUtils';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BACKOFF_SECONDS = 1;
+
+/**
+ * One model of a fallback chain: its config and the runnable to call (the model itself, or derived from it).
+ */
+export interface ChainEntry<R extends Runnable = Runnable> {
+    config: ModelConfig;
+    runnable: R;
+}
+
+function describe(config: ModelConfig): string {
+    return `${config.provider}/${config.modelName}`;
+}
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+export type FailureKind = 'retry' | 'fallback' | 'fatal';
+
+function getErrorStatus(e: any): number | undefined {
+    const status = e?.status ?? e?.response?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Rate limits, server errors, timeouts and network errors may pass on a retry. Other HTTP errors (bad request,
+ * auth, unknown model) will not, so the next model in the chain is tried right away. Anything else is a bug
+ * (TypeError, parse failure) that another provider would hit too, so it is rethrown.
+ */
+export function classifyError(e: any): FailureKind {
+    const status = getErrorStatus(e);
+    if (status !== undefined) return status === 408 || status === 409 || status === 429 || status >= 500 ? 'retry' : 'fallback';
+
+    const code = e?.code ?? e?.cause?.code;
+    if (typeof code === 'string' && (NETWORK_ERROR_CODES.has(code) || code.startsWith('UND_ERR_'))) return 'retry';
+    // Timeouts (the `timeout` call option aborts the request) and the OpenAI SDK's connection errors
+    const name = `${e?.name ?? ''} ${e?.constructor?.name ?? ''}`;
+    if (/Timeout|Abort|APIConnection/.test(name) || /timed? ?out|aborted|fetch failed|socket hang up/i.test(e?.message ?? '')) return 'retry';
+    return 'fatal';
+}
+
+/**
+ * Whether the provider rejected the request as malformed (HTTP 400), e.g. content or a schema it does not support.
+ */
+export function isBadRequest(e: any): boolean {
+    return getErrorStatus(e) === 400;
+}
+
+/**
+ * Calls the chain in order. Each model gets its own timeout and retries with exponential backoff
+ * before the next one is tried. Every attempt is tagged with the model in the run metadata (so the
+ * .llm_logs entry shows which model answered), and failures are recorded in the query's model_attempts.jsonl.
+ */
+async function invokeChain<O>(chain: ChainEntry[], input: any, options: Partial<RunnableConfig> = {}): Promise<O> {
+    const metadata: Record<string, any> = options.metadata || {};
+    const failures: string[] = [];
+    let lastError: any;
+
+    for (let index = 0; index < chain.length; index++) {
+        const { config, runnable } = chain[index];
+        const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (attempt > 0) {
+                const backoffMs = (config.retryBackoffSeconds ?? DEFAULT_RETRY_BACKOFF_SECONDS) * 1000 * 2 ** (attempt - 1);
+                await new Promise(resolve => setTimeout(resolve, backoffMs));
+            }
+
+            try {
+                const result = await runnable.invoke(input, {
+                    ...options,
+                    timeout: config.timeoutSeconds ? config.timeoutSeconds * 1000 : options.timeout,
+                    metadata: { ...metadata, model: describe(config), fallbackIndex: index, attempt: attempt + 1 }
+                });
+                if (failures.length > 0) {
+                    console.log(`[LLM] ${metadata.agent || 'Model'} answered by ${describe(config)} after ${failures.length} failed attempt(s)`);
+                    appendQueryLog(metadata.queryId, metadata.logTimestamp, 'model_attempts.jsonl', {
+                        timestamp: new Date().toISOString(), agent: metadata.agent, step: metadata.step, model: describe(config), fallbackIndex: index, attempt: attempt + 1, answered: true
+                    });
+                }
+                return result;
+            } catch (e: any) {
+                lastError = e;
+                const error = e?.message || String(e);
+                const kind = classifyError(e);
+                const retry = attempt < maxRetries && kind === 'retry';
+                failures.push(`${describe(config)}: ${error}`);
+                const next = kind === 'fatal' ? ', not retrying' : retry ? ', retrying' : index + 1 < chain.length ? `, falling back to ${describe(chain[index + 1].config)}` : '';
+                console.warn(`[LLM] ${describe(config)} failed (attempt ${attempt + 1}): ${error}${next}`);
+                appendQueryLog(metadata.queryId, metadata.logTimestamp, 'model_attempts.jsonl', {
+                    timestamp: new Date().toISOString(), agent: metadata.agent, step: metadata.step, model: describe(config), fallbackIndex: index, attempt: attempt + 1, error
+                });
+                if (kind === 'fatal') throw e;
+                if (!retry) break;
+            }
+        }
+    }
+
+    if (chain.length > 1) {
+        console.error(`[LLM] All models failed:\n  ${failures.join('\n  ')}`);
+    }
+    throw lastError;
+}
+
+/**
+ * Derives a runnable from every model of the chain (tools bound, structured output). Models that can't
+ * provide it are left out of the derived chain; it throws only if none can.
+ */
+function deriveChain(chain: ChainEntry<BaseChatModel>[], derive: (model: BaseChatModel) => Runnable): ChainEntry[] {
+    const derived: ChainEntry[] = [];
+    let lastError: any;
+    for (const { config, runnable } of chain) {
+        try {
+            derived.push({ config, runnable: derive(runnable) });
+        } catch (e) {
+            lastError = e;
+            console.warn(`[LLM] ${describe(config)} left out of the fallback chain: ${(e as Error)?.message || e}`);
+        }
+    }
+    if (derived.length === 0) throw lastError;
+    return derived;
+}
+
+/**
+ * A runnable derived from a ResilientChatModel, called with the same retries and fallbacks.
+ */
+class ResilientRunnable<I, O> extends Runnable<I, O> {
+    lc_namespace = ['whatsapp_golem', 'resilient'];
+
+    constructor(private chain: ChainEntry[]) {
+        super();
+    }
+
+    invoke(input: I, options?: Partial<RunnableConfig>): Promise<O> {
+        return invokeChain<O>(this.chain, input, options);
+    }
+}
+
+/**
+ * A chat model backed by a primary model and its ordered fallbacks (ModelConfig.fallbacks).
+ * Tool binding and structured output are applied to every model of the chain.
+ */
+export class ResilientChatModel extends BaseChatModel {
+    lc_namespace = ['whatsapp_golem', 'resilient'];
+
+    constructor(private chain: ChainEntry<BaseChatModel>[]) {
+        super({});
+    }
+
+    _llmType(): string {
+        return 'resilient';
+    }
+
+    invoke(input: BaseLanguageModelInput, options?: BaseChatModelCallOptions): Promise<AIMessageChunk> {
+        return invokeChain<AIMessageChunk>(this.chain, input, options);
+    }
+
+    async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+        const message = await this.invoke(messages, options);
+        return { generations: [{ message, text: getMessageText(message.content) }] };
+    }
+
+    bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+        return new ResilientRunnable(deriveChain(this.chain, model => {
+            if (typeof model.bindTools !== 'function') throw new Error(`tool calling is not supported`);
+            return model.bindTools(tools, kwargs);
+        }));
+    }
+
+    withStructuredOutput(schema: any, config?: any): Runnable<BaseLanguageModelInput, any> {
+        return new ResilientRunnable(deriveChain(this.chain, model => model.withStructuredOutput(schema, config)));
+    }
+}
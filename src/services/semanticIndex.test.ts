@@ -0,0 +1,141 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AppConfig, DEFAULT_CONFIG, deepMerge } from '../config/config';
+import { MemoryTransport } from '../transport/memoryTransport';
+import { ChatInfo } from '../transport/types';
+import { createEmbedder, Embedder } from './embedder';
+import { MessageArchive } from './messageArchive';
+import { SemanticIndex } from './semanticIndex';
+
+const CHAT_ID = 'friends@g.us';
+
+// The defaults, not config.yaml, so the triggers and loop emoji the index skips are known
+function createConfig(): AppConfig {
+    return deepMerge(DEFAULT_CONFIG, { search: { embedder: { provider: 'local', modelName: 'local' } } });
+}
+
+/**
+ * The local embedder, remembering every text it was asked to embed.
+ */
+function createCountingEmbedder(config: AppConfig): { embedder: Embedder; embedded: string[] } {
+    const local = createEmbedder(config.search.embedder);
+    const embedded: string[] = [];
+    return {
+        embedded,
+        embedder: {
+            name: local.name,
+            embed: async texts => {
+                embedded.push(...texts);
+                return local.embed(texts);
+            }
+        }
+    };
+}
+
+describe('SemanticIndex', () => {
+    let config: AppConfig;
+    let transport: MemoryTransport;
+    let chat: ChatInfo;
+
+    beforeEach(async () => {
+        config = createConfig();
+        transport = new MemoryTransport();
+        transport.createChat({ id: CHAT_ID, isGroup: true });
+        transport.addHistory({ chatId: CHAT_ID, senderId: 'dana', senderName: 'Dana', body: 'You have to try the new restaurant in Jaffa, best hummus in town' });
+        transport.addHistory({ chatId: CHAT_ID, senderId: 'avi', senderName: 'Avi', body: 'The football match starts at eight tonight' });
+        transport.addHistory({ chatId: CHAT_ID, senderId: 'noa', senderName: 'Noa', body: 'המסעדה האיטלקית בדיזנגוף מעולה' });
+        transport.addHistory({ chatId: CHAT_ID, senderId: 'avi', senderName: 'Avi', body: '@g which restaurant did Dana recommend?' });
+        transport.addHistory({ chatId: CHAT_ID, senderId: 'me', body: '🗿 Dana recommended a restaurant in Jaffa', fromMe: true });
+        chat = (await transport.getChatById(CHAT_ID))!;
+    });
+
+    it('indexes the chat on the first search and finds messages by content', async () => {
+        const archive = new MessageArchive(config, null);
+        const index = new SemanticIndex(config, archive, createEmbedder(config.search.embedder), null);
+
+        const hits = await index.search(chat, ['restaurant in Jaffa']);
+        expect(archive.list(CHAT_ID)).toHaveLength(5);
+        expect(hits[0].message.senderName).toBe('Dana');
+        expect(hits[0].query).toBe('restaurant in Jaffa');
+        expect(hits.map(h => h.message.body)).not.toContain('The football match starts at eight tonight');
+    });
+
+    it('finds Hebrew words with prefixes', async () => {
+        const index = new SemanticIndex(config, new MessageArchive(config, null), createEmbedder(config.search.embedder), null);
+
+        const hits = await index.search(chat, ['מסעדה איטלקית']);
+        expect(hits[0].message.senderName).toBe('Noa');
+    });
+
+    it('leaves questions to the bot and its answers out of the index', async () => {
+        const { embedder, embedded } = createCountingEmbedder(config);
+        const index = new SemanticIndex(config, new MessageArchive(config, null), embedder, null);
+
+        const hits = await index.search(chat, ['restaurant Dana recommended']);
+        expect(embedded).toHaveLength(3 + 1); // Three chat messages and the query
+        expect(hits.every(h => !h.message.fromMe && !h.message.body.startsWith('@g'))).toBe(true);
+    });
+
+    it('returns a message matching several queries once, with its best score', async () => {
+        const index = new SemanticIndex(config, new MessageArchive(config, null), createEmbedder(config.search.embedder), null);
+
+        const [single] = await index.search(chat, ['hummus']);
+        const hits = await index.search(chat, ['hummus', 'restaurant in Jaffa']);
+        const dana = hits.filter(h => h.message.senderName === 'Dana');
+        expect(dana).toHaveLength(1);
+        expect(dana[0].score).toBeGreaterThan(single.score);
+        expect(dana[0].query).toBe('restaurant in Jaffa');
+    });
+
+    it('embeds only new and changed messages', async () => {
+        const { embedder, embedded } = createCountingEmbedder(config);
+        const archive = new MessageArchive(config, null);
+        const index = new SemanticIndex(config, archive, embedder, null);
+
+        await archive.getRange(chat, new Date(0), new Date());
+        await index.indexChat(CHAT_ID);
+        expect(embedded).toHaveLength(3);
+
+        await index.indexChat(CHAT_ID);
+        expect(embedded).toHaveLength(3);
+
+        const voice = transport.addHistory({ chatId: CHAT_ID, senderId: 'dana', senderName: 'Dana', body: '', type: 'ptt' });
+        await archive.record(voice);
+        await index.indexChat(CHAT_ID);
+        expect(embedded).toHaveLength(3); // Nothing to index until it is transcribed
+
+        archive.update(voice.id, CHAT_ID, { transcription: 'The hummus place closes at ten' });
+        await index.indexChat(CHAT_ID);
+        expect(embedded).toEqual(expect.arrayContaining(['The hummus place closes at ten']));
+        expect(embedded).toHaveLength(4);
+    });
+
+    describe('with a store directory', () => {
+        let storeDir: string;
+
+        beforeEach(() => {
+            storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'golem-index-'));
+        });
+
+        afterEach(() => {
+            fs.removeSync(storeDir);
+        });
+
+        it('reloads saved vectors instead of embedding again', async () => {
+            const archive = new MessageArchive(config, null);
+            await archive.getRange(chat, new Date(0), new Date());
+
+            const first = createCountingEmbedder(config);
+            await new SemanticIndex(config, archive, first.embedder, storeDir).indexChat(CHAT_ID);
+            expect(first.embedded).toHaveLength(3);
+
+            const second = createCountingEmbedder(config);
+            const reloaded = new SemanticIndex(config, archive, second.embedder, storeDir);
+            const hits = await reloaded.search(chat, ['restaurant in Jaffa']);
+            expect(second.embedded).toEqual(['restaurant in Jaffa']);
+            expect(hits[0].message.senderName).toBe('Dana');
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { AppConfig } from '../config/config';
+import { ChatInfo } from '../transport/types';
+import { Embedder, cosineSimilarity } from './embedder';
+import { MessageArchive, ArchivedMessage } from './messageArchive';
+import { UsageAttribution } from './usageLedger';
+import * as utils from '../utils/messageUtils';
+
+export interface SemanticHit {
+    message: ArchivedMessage;
+    score: number;
+    query: string;
+}
+
+interface IndexedVector {
+    id: string;
+    hash: string;   // Hash of the indexed text, so messages are re-embedded when a transcription is added
+    vector: string; // Base64 Float32Array
+}
+
+const EMBED_BATCH_SIZE = 100;
+
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+    const buffer = Buffer.from(encoded, 'base64');
+    return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+}
+
+/**
+ * Embeddings index over the message archive (text and audio transcriptions), for questions where the user
+ * doesn't know *when* something was said.
+ * Chats are indexed lazily on their first search; only new or changed messages are embedded after that.
+ * Vectors are stored per embedder under .cache/embeddings/<embedder>/<chat>.jsonl.
+ */
+export class SemanticIndex {
+    private vectors: Map<string, Map<string, { hash: string; vector: number[] }>> = new Map();
+    private storeDir: string | null;
+
+    /**
+     * @param storeDir Root directory of the index files. null keeps the index in memory only.
+     */
+    constructor(
+        private config: AppConfig,
+        private archive: MessageArchive,
+        private embedder: Embedder,
+        storeDir: string | null = path.join(process.cwd(), '.cache', 'embeddings')
+    ) {
+        this.storeDir = storeDir ? path.join(storeDir, embedder.name.replace(/[^a-zA-Z0-9._-]/g, '_')) : null;
+    }
+
+    private getChatPath(chatId: string): string {
+        return path.join(this.storeDir!, `${chatId.replace(/[^a-zA-Z0-9@._-]/g, '_')}.jsonl`);
+    }
+
+    private getChatVectors(chatId: string) {
+        let vectors = this.vectors.get(chatId);
+        if (vectors) return vectors;
+
+        vectors = new Map();
+        this.vectors.set(chatId, vectors);
+        if (this.storeDir && fs.existsSync(this.getChatPath(chatId))) {
+            try {
+                for (const line of fs.readFileSync(this.getChatPath(chatId), 'utf-8').split('\n')) {
+                    if (!line.trim()) continue;
+                    const entry: IndexedVector = JSON.parse(line);
+                    vectors.set(entry.id, { hash: entry.hash, vector: decodeVector(entry.vector) });
+                }
+            } catch (e) {
+                console.error(`[SEARCH] Failed to load index of ${chatId}`, e);
+            }
+        }
+        return vectors;
+    }
+
+    /**
+     * The text a message is indexed by, or undefined if it should not be searched (e.g. an image without caption).
+     */
+    private getIndexText(message: ArchivedMessage): string | undefined {
+        // Questions to the bot and its answers would match searches about themselves (including the current query)
+        if (utils.isTriggeredMessage(message.body, this.config) || utils.isLoopMessage(message.body, this.config)) return undefined;
+
+        const body = utils.cleanMessageBody(message.body, this.config);
+        const text = [body, message.transcription].filter(Boolean).join('\n');
+        // The sender is left out: in short messages it would outweigh the content
+        return text.trim() || undefined;
+    }
+
+    /**
+     * Embeds archived messages of the chat that are not indexed yet (or whose text changed).
+     */
+    public async indexChat(chatId: string, attribution: UsageAttribution = {}): Promise<void> {
+        const vectors = this.getChatVectors(chatId);
+        const pending: Array<{ message: ArchivedMessage; text: string; hash: string }> = [];
+
+        for (const message of this.archive.list(chatId)) {
+            const text = this.getIndexText(message);
+            if (!text) continue;
+            const hash = crypto.createHash('sha1').update(text).digest('hex').substring(0, 16);
+            if (vectors.get(message.id)?.hash !== hash) pending.push({ message, text, hash });
+        }
+        if (pending.length === 0) return;
+
+        console.log(`[SEARCH] Indexing ${pending.length} messages of ${chatId} with ${this.embedder.name}...`);
+        for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+            const embeddings = await this.embedder.embed(batch.map(p => p.text), attribution);
+
+            const lines: string[] = [];
+            batch.forEach((p, j) => {
+                vectors.set(p.message.id, { hash: p.hash, vector: embeddings[j] });
+                lines.push(JSON.stringify({ id: p.message.id, hash: p.hash, vector: encodeVector(embeddings[j]) } as IndexedVector));
+            });
+
+            if (this.storeDir) {
+                try {
+                    fs.ensureDirSync(this.storeDir);
+                    fs.appendFileSync(this.getChatPath(chatId), lines.join('\n') + '\n');
+                } catch (e) {
+                    console.error(`[SEARCH] Failed to save index of ${chatId}`, e);
+                }
+            }
+        }
+    }
+
+    /**
+     * Top-k messages of the chat for each query. A message matching several queries is returned once, with its best score.
+     */
+    public async search(chat: ChatInfo, queries: string[], attribution: UsageAttribution = {}): Promise<SemanticHit[]> {
+        const { topK, minScore } = this.config.search;
+        if (queries.length === 0) return [];
+
+        // Make sure the archive has something to search, then index what's new
+        if (this.archive.list(chat.id).length === 0) {
+            await this.archive.getRange(chat, new Date(0), new Date());
+        }
+        await this.indexChat(chat.id, attribution);
+
+        const vectors = this.getChatVectors(chat.id);
+        const queryVectors = await this.embedder.embed(queries, attribution);
+        const best = new Map<string, SemanticHit>();
+
+        queries.forEach((query, i) => {
+            const scored: Array<{ id: string; score: number }> = [];
+            for (const [id, entry] of vectors) {
+                scored.push({ id, score: cosineSimilarity(queryVectors[i], entry.vector) });
+            }
+            scored.sort((a, b) => b.score - a.score);
+
+            for (const { id, score } of scored.slice(0, topK)) {
+                if (score < minScore) break;
+                const message = this.archive.get(chat.id, id);
+                if (!message) continue;
+                if (!best.has(id) || best.get(id)!.score < score) best.set(id, { message, score, query });
+            }
+        });
+
+        const hits = [...best.values()].sort((a, b) => b.score - a.score);
+        console.log(`[SEARCH] ${hits.length} hits for ${JSON.stringify(queries)}${hits.length ? ` (best ${hits[0].score.toFixed(2)})` : ''}`);
+        return hits;
+    }
+}
@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import path from 'path';
+import OpenAI from 'openai';
+import { VoiceConfig } from '../config/config';
+import { runCommand } from '../utils/audioUtils';
+
+export interface SpeechOptions {
+    voice: string;
+    instructions?: string;
+    speed?: number;
+}
+
+export interface SynthesizedSpeech {
+    audio: Buffer;
+    extension: string; // 'ogg' is sent as it is; anything else is converted to ogg/opus with ffmpeg
+}
+
+/**
+ * A text-to-speech backend. VoiceService turns its output into a WhatsApp voice note.
+ */
+export interface SpeechSynthesizer {
+    readonly name: string;   // "openai/gpt-4o-mini-tts", shown in logs and the usage ledger
+    readonly billed: boolean; // Whether voice.pricePer1MCharacters applies
+    synthesize(text: string, options: SpeechOptions): Promise<SynthesizedSpeech>;
+}
+
+/**
+ * OpenAI speech API. Answers ogg/opus directly, so no conversion is needed.
+ */
+export class OpenAISpeechSynthesizer implements SpeechSynthesizer {
+    public readonly name: string;
+    public readonly billed = true;
+    private openai: OpenAI;
+
+    constructor(private config: VoiceConfig) {
+        this.name = `openai/${config.model}`;
+        this.openai = new OpenAI({ apiKey: process.env[config.apiKeyEnvVar] });
+    }
+
+    public async synthesize(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+        const response = await this.openai.audio.speech.create({
+            model: this.config.model,
+            voice: options.voice,
+            input: text,
+            response_format: 'opus',
+            // tts-1 models reject instructions
+            instructions: this.config.model.startsWith('tts-1') ? undefined : options.instructions,
+            speed: options.speed
+        });
+        return { audio: Buffer.from(await response.arrayBuffer()), extension: 'ogg' };
+    }
+}
+
+/**
+ * Command-line engine (piper, espeak-ng, ...): the text goes to stdin and the engine writes an audio file
+ * to the `{output}` argument (a temporary "speech.wav"; any format ffmpeg reads works).
+ */
+export class LocalSpeechSynthesizer implements SpeechSynthesizer {
+    public readonly name: string;
+    public readonly billed = false;
+
+    constructor(private config: VoiceConfig) {
+        this.name = `local/${path.basename(config.local.command)}`;
+    }
+
+    public async synthesize(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+        const { command, args, timeoutSeconds } = this.config.local;
+        const dir = path.join(process.cwd(), '.cache', 'temp', `tts-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`);
+        await fs.ensureDir(dir);
+        const output = path.join(dir, 'speech.wav');
+        try {
+            const resolved = args.map(arg => arg.replace(/\{output\}/g, output).replace(/\{voice\}/g, options.voice));
+            let result;
+            try {
+                result = await runCommand(command, resolved, timeoutSeconds * 1000, text);
+            } catch (e: any) {
+                if (e?.code === 'ENOENT') throw new Error(`Speech command "${command}" not found. Install it or set voice.local.command.`);
+                throw e;
+            }
+            if (result.code !== 0) throw new Error(`${command} failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+            if (!fs.existsSync(output)) throw new Error(`${command} wrote no audio to {output}`);
+
+            return { audio: await fs.readFile(output), extension: 'wav' };
+        } finally {
+            fs.remove(dir).catch(() => { });
+        }
+    }
+}
+
+export function createSpeechSynthesizer(config: VoiceConfig): SpeechSynthesizer {
+    return config.provider === 'local' ? new LocalSpeechSynthesizer(config) : new OpenAISpeechSynthesizer(config);
+}
@@ -0,0 +1,95 @@
+import fs from 'fs-extra';
+import path from 'path';
+import OpenAI from 'openai';
+import { TranscriptionConfig } from '../config/config';
+import { AudioFormat, runCommand } from '../utils/audioUtils';
+
+export interface TranscriptionOptions {
+    language?: string; // ISO-639-1 hint
+    prompt?: string;   // Vocabulary, and the end of the previous chunk for continuity
+}
+
+export interface TranscriptionResult {
+    text: string;
+    durationSeconds?: number; // Reported by the backend, if it knows
+}
+
+/**
+ * A speech-to-text backend. AudioService prepares the files (format, chunks) and caches the results.
+ */
+export interface Transcriber {
+    readonly name: string;                     // "openai/whisper-1", shown in logs and the usage ledger
+    readonly inputFormat: AudioFormat | 'any'; // 'wav': needs 16 kHz mono WAV; 'any': takes the original file
+    readonly maxUploadBytes?: number;          // Larger files are re-encoded and split first
+    readonly billed: boolean;                  // Whether usage.audioPricePerMinute applies
+    transcribe(filePath: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+/**
+ * OpenAI transcription API (whisper-1, gpt-4o-transcribe, ...). Takes ogg/opus, mp3, m4a, wav, webm and flac as they are.
+ */
+export class OpenAITranscriber implements Transcriber {
+    public readonly name: string;
+    public readonly inputFormat = 'any';
+    public readonly maxUploadBytes: number;
+    public readonly billed = true;
+    private openai: OpenAI;
+
+    constructor(private config: TranscriptionConfig) {
+        this.name = `openai/${config.model}`;
+        this.maxUploadBytes = config.maxUploadBytes;
+        this.openai = new OpenAI({ apiKey: process.env[config.apiKeyEnvVar] });
+    }
+
+    public async transcribe(filePath: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+        const request = {
+            file: fs.createReadStream(filePath),
+            model: this.config.model,
+            language: options.language,
+            prompt: options.prompt
+        };
+
+        // Only whisper-1 reports the duration (verbose_json); the gpt-4o models answer plain json
+        if (this.config.model === 'whisper-1') {
+            const response = await this.openai.audio.transcriptions.create({ ...request, response_format: 'verbose_json' });
+            return { text: response.text, durationSeconds: response.duration };
+        }
+        const response = await this.openai.audio.transcriptions.create({ ...request, response_format: 'json' });
+        return { text: response.text };
+    }
+}
+
+/**
+ * whisper.cpp-style CLI: `<command> -m <model> -f <file.wav> -l <language> -nt -np` printing the transcript to stdout.
+ */
+export class LocalWhisperTranscriber implements Transcriber {
+    public readonly name: string;
+    public readonly inputFormat = 'wav';
+    public readonly billed = false;
+
+    constructor(private config: TranscriptionConfig) {
+        this.name = `local/${path.basename(config.local.modelPath)}`;
+    }
+
+    public async transcribe(filePath: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+        const { command, modelPath, threads, timeoutSeconds } = this.config.local;
+        const args = ['-m', modelPath, '-f', filePath, '-l', options.language || 'auto', '-nt', '-np'];
+        if (threads) args.push('-t', String(threads));
+        if (options.prompt) args.push('--prompt', options.prompt);
+
+        let result;
+        try {
+            result = await runCommand(command, args, timeoutSeconds * 1000);
+        } catch (e: any) {
+            if (e?.code === 'ENOENT') throw new Error(`Transcription command "${command}" not found. Install whisper.cpp or set transcription.local.command.`);
+            throw e;
+        }
+        if (result.code !== 0) throw new Error(`${command} failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+
+        return { text: result.stdout.split('\n').map(line => line.trim()).filter(Boolean).join(' ') };
+    }
+}
+
+export function createTranscriber(config: TranscriptionConfig): Transcriber {
+    return config.provider === 'local' ? new LocalWhisperTranscriber(config) : new OpenAITranscriber(config);
+}
@@ -0,0 +1,58 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { Serialized } from "@langchain/core/load/serializable";
+import { LLMResult, ChatGeneration } from "@langchain/core/outputs";
+import { ModelConfig } from '../config/config';
+import { UsageLedger, estimateTokenCost } from './usageLedger';
+
+/**
+ * Records token usage and estimated cost of every model run into the UsageLedger.
+ * Attribution (queryId, senderId, chatId) is read from the invoke metadata.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+    name = "UsageCallbackHandler";
+    private runMetadata: Record<string, any> = {};
+
+    constructor(private modelConfig: ModelConfig) {
+        super();
+    }
+
+    async handleChatModelStart(
+        llm: Serialized,
+        messages: any[][],
+        runId: string,
+        parentRunId?: string,
+        extraParams?: any,
+        tags?: string[],
+        metadata?: any
+    ): Promise<void> {
+        this.runMetadata[runId] = metadata || {};
+    }
+
+    async handleLLMEnd(output: LLMResult, runId: string): Promise<void> {
+        const metadata = this.runMetadata[runId] || {};
+        delete this.runMetadata[runId];
+
+        // Prefer the standardized usage_metadata on the message, fall back to provider llmOutput
+        const usage = (output.generations?.[0]?.[0] as ChatGeneration | undefined)?.message as any;
+        const usageMetadata = usage?.usage_metadata;
+        const tokenUsage = output.llmOutput?.tokenUsage;
+
+        const promptTokens = usageMetadata?.input_tokens ?? tokenUsage?.promptTokens ?? 0;
+        const completionTokens = usageMetadata?.output_tokens ?? tokenUsage?.completionTokens ?? 0;
+
+        UsageLedger.getInstance().record({
+            agent: metadata.agent || "Unknown",
+            model: this.modelConfig.modelName,
+            queryId: metadata.queryId,
+            senderId: metadata.senderId,
+            chatId: metadata.chatId,
+            promptTokens,
+            completionTokens,
+            cost: estimateTokenCost(this.modelConfig.pricing, promptTokens, completionTokens)
+        });
+    }
+
+    async handleLLMError(err: any, runId: string): Promise<void> {
+        delete this.runMetadata[runId];
+    }
+}
@@ -0,0 +1,147 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ModelPricing, UsageConfig, BudgetLimits } from '../config/config';
+import { fromWallClock, getWallClock } from '../utils/dateUtils';
+
+export interface UsageAttribution {
+    queryId?: string;
+    senderId?: string;
+    chatId?: string;
+}
+
+export interface UsageEntry extends UsageAttribution {
+    timestamp: string;
+    agent: string; // Planner, Executor, Whisper, ...
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    audioSeconds?: number;
+    cost: number; // USD
+}
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    audioSeconds: number;
+    cost: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetScope = 'user' | 'chat' | 'global';
+
+export interface BudgetStatus {
+    exceeded: boolean;
+    period?: BudgetPeriod;
+    scope?: BudgetScope;
+    spent?: number;
+    limit?: number;
+}
+
+export function estimateTokenCost(pricing: ModelPricing | undefined, promptTokens: number, completionTokens: number): number {
+    if (!pricing) return 0;
+    return (promptTokens * pricing.promptPer1M + completionTokens * pricing.completionPer1M) / 1_000_000;
+}
+
+/**
+ * Start of the current day or month in `timeZone` (the owner's), when the budgets of that period reset.
+ */
+export function getPeriodStart(period: BudgetPeriod, timeZone: string, now: Date = new Date()): Date {
+    const c = getWallClock(now, timeZone);
+    return fromWallClock(c.year, c.month, period === 'daily' ? c.day : 1, 0, 0, 0, timeZone);
+}
+
+/**
+ * Append-only ledger of token/audio usage and estimated cost, attributed to query, sender and chat.
+ * Persisted as JSONL so it survives restarts and can be inspected with standard tools.
+ */
+export class UsageLedger {
+    private static instance: UsageLedger;
+
+    private ledgerPath: string;
+    private entries: UsageEntry[] = [];
+
+    constructor(ledgerPath: string = path.join(process.cwd(), '.cache', 'usage.jsonl')) {
+        this.ledgerPath = ledgerPath;
+        this.load();
+    }
+
+    /**
+     * Shared ledger used by model callbacks and services that have no direct handle to it.
+     */
+    public static getInstance(): UsageLedger {
+        if (!this.instance) this.instance = new UsageLedger();
+        return this.instance;
+    }
+
+    private load() {
+        try {
+            if (fs.existsSync(this.ledgerPath)) {
+                this.entries = fs.readFileSync(this.ledgerPath, 'utf-8')
+                    .split('\n')
+                    .filter(line => line.trim())
+                    .map(line => JSON.parse(line));
+            }
+        } catch (e) {
+            console.error("[USAGE] Failed to load usage ledger", e);
+            this.entries = [];
+        }
+    }
+
+    public record(entry: Omit<UsageEntry, 'timestamp'>) {
+        const full: UsageEntry = { timestamp: new Date().toISOString(), ...entry };
+        this.entries.push(full);
+        try {
+            fs.ensureDirSync(path.dirname(this.ledgerPath));
+            fs.appendFileSync(this.ledgerPath, JSON.stringify(full) + '\n');
+        } catch (e) {
+            console.error("[USAGE] Failed to append usage entry", e);
+        }
+        console.log(`[USAGE] ${full.agent} (${full.model}): ${full.promptTokens}+${full.completionTokens} tokens${full.audioSeconds ? `, ${full.audioSeconds.toFixed(0)}s audio` : ''}, $${full.cost.toFixed(4)}`);
+    }
+
+    public getTotals(filter: { senderId?: string; chatId?: string; since?: Date } = {}): UsageTotals {
+        const since = filter.since?.toISOString();
+        const totals: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, audioSeconds: 0, cost: 0 };
+
+        for (const e of this.entries) {
+            if (since && e.timestamp < since) continue;
+            if (filter.senderId && e.senderId !== filter.senderId) continue;
+            if (filter.chatId && e.chatId !== filter.chatId) continue;
+            totals.calls++;
+            totals.promptTokens += e.promptTokens;
+            totals.completionTokens += e.completionTokens;
+            totals.audioSeconds += e.audioSeconds || 0;
+            totals.cost += e.cost;
+        }
+        return totals;
+    }
+
+    /**
+     * Checks the configured daily/monthly budgets for a sender and chat. Periods start at midnight in `timeZone`.
+     * Returns the first exceeded budget, if any.
+     */
+    public checkBudget(config: UsageConfig, attribution: { senderId: string; chatId: string }, timeZone: string): BudgetStatus {
+        const periods: BudgetPeriod[] = ['daily', 'monthly'];
+
+        for (const period of periods) {
+            const limits: BudgetLimits | undefined = config.budgets[period];
+            if (!limits) continue;
+            const since = getPeriodStart(period, timeZone);
+
+            const scopes: Array<[BudgetScope, number | undefined, { senderId?: string; chatId?: string }]> = [
+                ['user', limits.user, { senderId: attribution.senderId }],
+                ['chat', limits.chat, { chatId: attribution.chatId }],
+                ['global', limits.global, {}]
+            ];
+
+            for (const [scope, limit, filter] of scopes) {
+                if (limit === undefined) continue;
+                const spent = this.getTotals({ ...filter, since }).cost;
+                if (spent >= limit) return { exceeded: true, period, scope, spent, limit };
+            }
+        }
+
+        return { exceeded: false };
+    }
+}
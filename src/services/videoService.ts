@@ -0,0 +1,120 @@
+import fs from 'fs-extra';
+import path from 'path';
+import mime from 'mime-types';
+import { AppConfig } from '../config/config';
+import { MediaPayload } from '../transport/types';
+import { UsageAttribution } from './usageLedger';
+import { AudioService } from './audioService';
+import { getAudioDuration } from '../utils/audioUtils';
+import { extractAudioTrack, extractFrames, hasAudioStream } from '../utils/videoUtils';
+
+export interface VideoAnalysis {
+    duration?: number;  // Seconds, if ffprobe could read it
+    frames: { image: MediaPayload; timestamp?: number }[];
+    hasAudio?: boolean;  // Undefined if ffprobe could not tell
+    transcript?: string; // Undefined if the audio was not transcribed (disabled, no audio track, failed)
+    transcriptError?: string;
+}
+
+export interface AnalyzeVideoOptions {
+    config?: AppConfig;    // The chat's config (feature flags, frame count). Defaults to the global config.
+    frames?: number;       // Defaults to `video.frames`; 0 for the transcript only
+    transcription?: string; // Known transcript (from the archive), so the audio is not transcribed again
+    attribution?: UsageAttribution;
+}
+
+export class VideoError extends Error { }
+
+function formatTime(seconds: number): string {
+    const total = Math.round(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Turns a video into what the vision model can read: frames spread over the video, and a transcript of
+ * its audio track through AudioService (cached by the audio content like voice notes). Needs the ffmpeg CLI.
+ */
+export class VideoService {
+    constructor(private config: AppConfig, private audioService: AudioService) { }
+
+    /**
+     * Extracts the frames and transcribes the audio of a video.
+     * @throws VideoError if the video is over `video.maxBytes` or ffmpeg is not installed
+     */
+    public async analyze(media: MediaPayload, options: AnalyzeVideoOptions = {}): Promise<VideoAnalysis> {
+        const config = options.config ?? this.config;
+        const buffer = Buffer.from(media.data, 'base64');
+        if (buffer.length > config.video.maxBytes) {
+            throw new VideoError(`Video is ${(buffer.length / 1024 / 1024).toFixed(1)} MB, over the limit of ${(config.video.maxBytes / 1024 / 1024).toFixed(1)} MB`);
+        }
+
+        const dir = path.join(process.cwd(), '.cache', 'temp', `video-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`);
+        try {
+            await fs.ensureDir(dir);
+            const input = path.join(dir, `input.${mime.extension(media.mimetype.split(';')[0]) || 'mp4'}`);
+            await fs.writeFile(input, buffer);
+
+            const duration = await getAudioDuration(input);
+            const frameCount = options.frames ?? config.video.frames;
+            console.log(`[VIDEO] Analyzing ${(buffer.length / 1024 / 1024).toFixed(1)} MB video${duration ? ` (${formatTime(duration)})` : ''}: ${frameCount} frame(s)...`);
+
+            const analysis: VideoAnalysis = { duration, frames: [], hasAudio: await hasAudioStream(input) };
+            try {
+                if (frameCount > 0) {
+                    const frames = await extractFrames(input, path.join(dir, 'frames'), frameCount, config.vision.maxImageDimension, duration);
+                    for (const frame of frames) {
+                        const data = (await fs.readFile(frame.path)).toString('base64');
+                        analysis.frames.push({ image: { mimetype: 'image/jpeg', data, filename: path.basename(frame.path) }, timestamp: frame.timestamp });
+                    }
+                }
+                if (options.transcription !== undefined) {
+                    analysis.transcript = options.transcription;
+                } else if (analysis.hasAudio !== false && config.video.transcribeAudio && config.features.audioTranscription) {
+                    await this.transcribeAudioTrack(input, path.join(dir, 'audio.ogg'), analysis, config, options.attribution);
+                }
+            } catch (e: any) {
+                if (e?.code === 'ENOENT') throw new VideoError(`ffmpeg (needed to read videos) is not installed`);
+                throw e;
+            }
+
+            console.log(`[VIDEO] ${analysis.frames.length} frame(s)${analysis.transcript !== undefined ? `, transcript of ${analysis.transcript.length} chars` : analysis.hasAudio === false ? ', no audio track' : ''}`);
+            return analysis;
+        } finally {
+            fs.remove(dir).catch(() => { });
+        }
+    }
+
+    private async transcribeAudioTrack(input: string, output: string, analysis: VideoAnalysis, config: AppConfig, attribution?: UsageAttribution) {
+        try {
+            await extractAudioTrack(input, output);
+            analysis.transcript = await this.audioService.transcribe(await fs.readFile(output), 'audio/ogg', { config, attribution });
+        } catch (e: any) {
+            if (e?.code === 'ENOENT') throw e;
+            // The frames are still worth sending without the transcript
+            console.error(`[VIDEO] Audio transcription failed:`, e);
+            analysis.transcriptError = e?.message || String(e);
+        }
+    }
+
+    /**
+     * The text that goes with the frames: length, frame times and the audio transcript.
+     */
+    public formatForContext(analysis: VideoAnalysis): string {
+        const details: string[] = [];
+        if (analysis.duration) details.push(formatTime(analysis.duration));
+        if (analysis.frames.length > 0) {
+            const times = analysis.frames.map(f => f.timestamp !== undefined ? formatTime(f.timestamp) : undefined);
+            details.push(times.every(t => t) ? `${analysis.frames.length} frames attached at ${times.join(', ')}` : `${analysis.frames.length} frames attached`);
+        }
+
+        const lines = [`[VIDEO${details.length > 0 ? `: ${details.join(', ')}` : ''}]`];
+        if (analysis.transcript !== undefined) {
+            lines.push(`[VIDEO AUDIO TRANSCRIPTION]: ${analysis.transcript.trim() || '(no speech)'}`);
+        } else if (analysis.transcriptError) {
+            lines.push(`[VIDEO AUDIO NOT TRANSCRIBED: ${analysis.transcriptError}]`);
+        } else if (analysis.hasAudio === false) {
+            lines.push(`[VIDEO HAS NO AUDIO]`);
+        }
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,98 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AppConfig } from '../config/config';
+import { MediaPayload } from '../transport/types';
+import { UsageLedger, UsageAttribution } from './usageLedger';
+import { createSpeechSynthesizer, SpeechSynthesizer } from './speechSynthesizer';
+import { encodeVoiceNote } from '../utils/audioUtils';
+import { toSpeechText } from '../utils/formatUtils';
+
+export const VOICE_NOTE_MIMETYPE = 'audio/ogg; codecs=opus';
+
+export interface SynthesizeOptions {
+    config?: AppConfig;             // The chat's config (enabled flag, voice). Defaults to the global config.
+    voice?: string;                 // The chat's voice setting ("@g voice <name>"), wins over the config
+    attribution?: UsageAttribution;
+}
+
+export class VoiceError extends Error { }
+
+/**
+ * Text-to-speech for voice-note replies, with the configured backend (`voice.provider`).
+ * The result is an ogg/opus voice note, ready to send as PTT.
+ */
+export class VoiceService {
+    private synthesizer?: SpeechSynthesizer;
+    private synthesizerKey?: string;
+
+    constructor(private config: AppConfig, synthesizer?: SpeechSynthesizer) {
+        this.synthesizer = synthesizer;
+    }
+
+    private getSynthesizer(): SpeechSynthesizer {
+        // Rebuilt when `voice` changes on a config reload
+        const key = JSON.stringify(this.config.voice);
+        if (!this.synthesizer || (this.synthesizerKey !== undefined && this.synthesizerKey !== key)) {
+            this.synthesizer = createSpeechSynthesizer(this.config.voice);
+            this.synthesizerKey = key;
+        }
+        return this.synthesizer;
+    }
+
+    /**
+     * Whether a text fits in a voice note (`voice.maxCharacters`, after formatting is removed).
+     */
+    public fits(text: string, config: AppConfig = this.config): boolean {
+        return toSpeechText(text).length <= config.voice.maxCharacters;
+    }
+
+    /**
+     * Synthesizes a (Markdown) answer into a voice note.
+     * @throws VoiceError if voice replies are disabled, the text is empty or too long
+     */
+    public async synthesize(text: string, options: SynthesizeOptions = {}): Promise<MediaPayload> {
+        const config = options.config ?? this.config;
+        if (!config.voice.enabled) throw new VoiceError(`Voice replies are disabled`);
+
+        const speech = toSpeechText(text);
+        if (!speech) throw new VoiceError(`Nothing to say`);
+        if (speech.length > config.voice.maxCharacters) throw new VoiceError(`Text is too long for a voice note (${speech.length} / ${config.voice.maxCharacters} characters)`);
+
+        const synthesizer = this.getSynthesizer();
+        const voice = options.voice || config.voice.voice;
+        console.log(`[VOICE] Synthesizing ${speech.length} characters with ${synthesizer.name} (${voice})...`);
+
+        const result = await synthesizer.synthesize(speech, { voice, instructions: config.voice.instructions, speed: config.voice.speed });
+        const audio = result.extension === 'ogg' ? result.audio : await this.toVoiceNote(result.audio, result.extension);
+
+        UsageLedger.getInstance().record({
+            ...options.attribution,
+            agent: "TTS",
+            model: synthesizer.name,
+            promptTokens: 0,
+            completionTokens: 0,
+            cost: synthesizer.billed ? (speech.length / 1_000_000) * config.voice.pricePer1MCharacters : 0
+        });
+
+        return { mimetype: VOICE_NOTE_MIMETYPE, data: audio.toString('base64'), filename: 'voice.ogg' };
+    }
+
+    private async toVoiceNote(audio: Buffer, extension: string): Promise<Buffer> {
+        const dir = path.join(process.cwd(), '.cache', 'temp', `voice-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`);
+        try {
+            await fs.ensureDir(dir);
+            const input = path.join(dir, `speech.${extension}`);
+            const output = path.join(dir, 'voice.ogg');
+            await fs.writeFile(input, audio);
+            try {
+                await encodeVoiceNote(input, output);
+            } catch (e: any) {
+                if (e?.code === 'ENOENT') throw new VoiceError(`ffmpeg (needed to convert ${extension} speech to a voice note) is not installed`);
+                throw e;
+            }
+            return await fs.readFile(output);
+        } finally {
+            fs.remove(dir).catch(() => { });
+        }
+    }
+}
@@ -0,0 +1,232 @@
+import { ChatTransport, ChatMessage, ChatInfo, MessageHandler, MessageType, MediaPayload, SendOptions, TransportStatus } from './types';
+
+export interface MemoryChatOptions {
+    id: string;
+    name?: string;
+    isGroup?: boolean;
+    adminIds?: string[];
+}
+
+export interface InjectMessageOptions {
+    chatId: string;
+    senderId: string;
+    senderName?: string;
+    body: string;
+    type?: MessageType;
+    fromMe?: boolean;
+    media?: MediaPayload;
+    quotedMessageId?: string;
+    /** Seconds since epoch. Defaults to now. */
+    timestamp?: number;
+    /** Whether the sender is a saved contact. Defaults to true. */
+    knownContact?: boolean;
+}
+
+export type OutgoingListener = (message: ChatMessage) => void;
+
+interface StoredMessage {
+    id: string;
+    chatId: string;
+    senderId: string;
+    senderName: string;
+    body: string;
+    type: MessageType;
+    timestamp: number;
+    fromMe: boolean;
+    media?: MediaPayload;
+    quotedMessageId?: string;
+    knownContact: boolean;
+}
+
+class MemoryChatMessage implements ChatMessage {
+    public id: string;
+    public chatId: string;
+    public senderId: string;
+    public body: string;
+    public type: MessageType;
+    public timestamp: number;
+    public fromMe: boolean;
+    public hasMedia: boolean;
+    public hasQuotedMsg: boolean;
+
+    constructor(private stored: StoredMessage, private transport: MemoryTransport) {
+        this.id = stored.id;
+        this.chatId = stored.chatId;
+        this.senderId = stored.senderId;
+        this.body = stored.body;
+        this.type = stored.type;
+        this.timestamp = stored.timestamp;
+        this.fromMe = stored.fromMe;
+        this.hasMedia = !!stored.media;
+        this.hasQuotedMsg = !!stored.quotedMessageId;
+    }
+
+    public async getQuotedMessage(): Promise<ChatMessage | null> {
+        if (!this.stored.quotedMessageId) return null;
+        return this.transport.getMessageById(this.stored.quotedMessageId);
+    }
+
+    public async downloadMedia(): Promise<MediaPayload | null> {
+        return this.stored.media ? { ...this.stored.media } : null;
+    }
+
+    public async getSenderName(): Promise<string> {
+        return this.stored.senderName;
+    }
+
+    public async isFromKnownContact(): Promise<boolean> {
+        return this.stored.fromMe || this.stored.knownContact;
+    }
+
+    public async getChat(): Promise<ChatInfo> {
+        const chat = await this.transport.getChatById(this.chatId);
+        if (!chat) throw new Error(`Unknown chat: ${this.chatId}`);
+        return chat;
+    }
+
+    public async reply(content: string, options?: SendOptions): Promise<void> {
+        await this.transport.send(this.chatId, content, { ...options, quotedMessageId: this.id });
+    }
+}
+
+class MemoryChatInfo implements ChatInfo {
+    public id: string;
+    public name: string;
+    public isGroup: boolean;
+
+    constructor(private options: MemoryChatOptions, private transport: MemoryTransport) {
+        this.id = options.id;
+        this.name = options.name || options.id;
+        this.isGroup = !!options.isGroup;
+    }
+
+    public async fetchMessages(options: { limit: number }): Promise<ChatMessage[]> {
+        return this.transport.getHistory(this.id).slice(-options.limit);
+    }
+
+    public async sendMessage(content: string, options?: SendOptions): Promise<void> {
+        await this.transport.send(this.id, content, options);
+    }
+
+    public async getAdminIds(): Promise<string[]> {
+        return this.options.adminIds || [];
+    }
+}
+
+/**
+ * In-memory ChatTransport. Simulates chats, senders, quotes, media and history
+ * so the pipeline can be driven without a WhatsApp session.
+ */
+export class MemoryTransport implements ChatTransport {
+    public readonly name: string = "memory";
+    public readonly ownId = "me@memory";
+
+    private handlers: MessageHandler[] = [];
+    private outgoingListeners: OutgoingListener[] = [];
+    private chats: Map<string, MemoryChatOptions> = new Map();
+    private messages: Map<string, StoredMessage> = new Map();
+    private history: Map<string, string[]> = new Map();
+    private counter = 0;
+    private readonly createdAt = new Date();
+
+    public onMessage(handler: MessageHandler): void {
+        this.handlers.push(handler);
+    }
+
+    /** Registers a listener for messages sent by the bot (replies and sends). */
+    public onOutgoing(listener: OutgoingListener): void {
+        this.outgoingListeners.push(listener);
+    }
+
+    public async initialize(): Promise<void> {
+        // Nothing to connect to.
+    }
+
+    public getStatus(): TransportStatus {
+        return { state: 'ready', since: this.createdAt };
+    }
+
+    public createChat(options: MemoryChatOptions): void {
+        this.chats.set(options.id, options);
+        if (!this.history.has(options.id)) this.history.set(options.id, []);
+    }
+
+    public listChats(): MemoryChatOptions[] {
+        return Array.from(this.chats.values());
+    }
+
+    /**
+     * Stores a message in history without dispatching it to handlers.
+     * Useful for seeding past conversation.
+     */
+    public addHistory(options: InjectMessageOptions): ChatMessage {
+        if (!this.chats.has(options.chatId)) this.createChat({ id: options.chatId });
+
+        const stored: StoredMessage = {
+            id: `mem_${++this.counter}`,
+            chatId: options.chatId,
+            senderId: options.fromMe ? this.ownId : options.senderId,
+            senderName: options.senderName || options.senderId,
+            body: options.body,
+            type: options.type || (options.media ? 'document' : 'chat'),
+            timestamp: options.timestamp ?? Math.floor(Date.now() / 1000),
+            fromMe: !!options.fromMe,
+            media: options.media,
+            quotedMessageId: options.quotedMessageId,
+            knownContact: options.knownContact ?? true
+        };
+        this.messages.set(stored.id, stored);
+        this.history.get(options.chatId)!.push(stored.id);
+        return new MemoryChatMessage(stored, this);
+    }
+
+    /**
+     * Stores a message and dispatches it to the registered handlers, like an incoming message event.
+     */
+    public async inject(options: InjectMessageOptions): Promise<ChatMessage> {
+        const message = this.addHistory(options);
+        await this.dispatch(message);
+        return message;
+    }
+
+    public async send(chatId: string, content: string, options?: SendOptions): Promise<ChatMessage> {
+        const message = this.addHistory({
+            chatId,
+            senderId: this.ownId,
+            senderName: "Golem",
+            body: content,
+            type: options?.media ? (options.sendAudioAsVoice ? 'ptt' : 'document') : 'chat',
+            fromMe: true,
+            media: options?.media,
+            quotedMessageId: options?.quotedMessageId
+        });
+        this.outgoingListeners.forEach(l => l(message));
+        // Own messages also raise a message event, mirroring WhatsApp's message_create.
+        await this.dispatch(message);
+        return message;
+    }
+
+    public getHistory(chatId: string): ChatMessage[] {
+        return (this.history.get(chatId) || []).map(id => new MemoryChatMessage(this.messages.get(id)!, this));
+    }
+
+    public async getMessageById(messageId: string): Promise<ChatMessage | null> {
+        const stored = this.messages.get(messageId);
+        return stored ? new MemoryChatMessage(stored, this) : null;
+    }
+
+    public async getChatById(chatId: string): Promise<ChatInfo | null> {
+        const options = this.chats.get(chatId);
+        return options ? new MemoryChatInfo(options, this) : null;
+    }
+
+    public async getChats(): Promise<ChatInfo[]> {
+        return this.listChats().map(options => new MemoryChatInfo(options, this));
+    }
+
+    private async dispatch(message: ChatMessage) {
+        for (const handler of this.handlers) {
+            await handler(message);
+        }
+    }
+}
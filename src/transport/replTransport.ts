@@ -0,0 +1,173 @@
+import readline from 'readline';
+import fs from 'fs';
+import path from 'path';
+import mime from 'mime-types';
+import { MemoryTransport } from './memoryTransport';
+import { ChatMessage, MediaPayload, MessageType } from './types';
+
+const DEFAULT_CHAT_ID = "repl-group";
+const OWNER_ALIAS = "me";
+
+const HELP_TEXT = `REPL commands:
+  /chat <id> [group]          Switch to (or create) a chat
+  /as <name>                  Send as <name> ('${OWNER_ALIAS}' = the owner account)
+  /quote <n|messageId>        Quote the n-th last message (or an ID) in the next message
+  /attach <path> [ptt]        Attach a file to the next message (audio as voice note with 'ptt')
+  /seed <minutesAgo> <text>   Add a past message to history without triggering the bot
+  /history [n]                Show the last n messages of the current chat
+  /help                       Show this help
+  /quit                       Exit`;
+
+function mediaTypeFor(mimetype: string, asVoice: boolean): MessageType {
+    if (mimetype.startsWith('image/')) return 'image';
+    if (mimetype.startsWith('video/')) return 'video';
+    if (mimetype.startsWith('audio/')) return asVoice ? 'ptt' : 'audio';
+    return 'document';
+}
+
+/**
+ * Terminal REPL transport. Each typed line becomes a message in a simulated chat,
+ * so prompts and routing can be developed offline.
+ */
+export class ReplTransport extends MemoryTransport {
+    public readonly name = "repl";
+
+    private rl?: readline.Interface;
+    private queue: Promise<void> = Promise.resolve();
+    private chatId = DEFAULT_CHAT_ID;
+    private sender = "Tester";
+    private pendingQuoteId?: string;
+    private pendingMedia?: { media: MediaPayload; type: MessageType };
+
+    constructor() {
+        super();
+        this.createChat({ id: DEFAULT_CHAT_ID, name: "REPL Group", isGroup: true });
+        this.onOutgoing((message) => this.printMessage(message));
+    }
+
+    public async initialize(): Promise<void> {
+        this.rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        console.log(`[REPL] Ready. Chat: ${this.chatId}, sending as: ${this.sender}. Type /help for commands.`);
+        this.rl.setPrompt(`${this.sender}@${this.chatId}> `);
+        this.rl.prompt();
+
+        // Lines are handled one at a time, so piped input behaves like typed input
+        this.rl.on('line', (line) => {
+            this.queue = this.queue.then(async () => {
+                try {
+                    await this.handleLine(line.trim());
+                } catch (e) {
+                    console.error(`[REPL] Error:`, e);
+                }
+                this.rl?.setPrompt(`${this.sender}@${this.chatId}> `);
+                this.rl?.prompt();
+            });
+        });
+
+        this.rl.on('close', () => this.queue.then(() => process.exit(0)));
+    }
+
+    private async handleLine(line: string) {
+        if (!line) return;
+        if (!line.startsWith('/')) {
+            await this.sendUserMessage(line);
+            return;
+        }
+
+        const [command, ...args] = line.slice(1).split(/\s+/);
+        switch (command) {
+            case 'help':
+                console.log(HELP_TEXT);
+                break;
+            case 'chat':
+                if (!args[0]) { console.log(`[REPL] Current chat: ${this.chatId}`); break; }
+                this.chatId = args[0];
+                if (!(await this.getChatById(this.chatId))) {
+                    this.createChat({ id: this.chatId, name: this.chatId, isGroup: args[1] === 'group' });
+                }
+                break;
+            case 'as':
+                if (args[0]) this.sender = args.join(' ');
+                break;
+            case 'quote':
+                this.pendingQuoteId = this.resolveQuote(args[0]);
+                console.log(this.pendingQuoteId ? `[REPL] Next message quotes ${this.pendingQuoteId}` : `[REPL] No such message.`);
+                break;
+            case 'attach':
+                this.attach(args[0], args[1] === 'ptt');
+                break;
+            case 'seed': {
+                const minutesAgo = Number(args[0]);
+                if (isNaN(minutesAgo) || args.length < 2) { console.log(`[REPL] Usage: /seed <minutesAgo> <text>`); break; }
+                this.addHistory({
+                    ...this.senderFields(),
+                    chatId: this.chatId,
+                    body: args.slice(1).join(' '),
+                    timestamp: Math.floor(Date.now() / 1000) - minutesAgo * 60
+                });
+                break;
+            }
+            case 'history':
+                this.getHistory(this.chatId).slice(-(Number(args[0]) || 20)).forEach(m => this.printMessage(m));
+                break;
+            case 'quit':
+                this.rl?.close();
+                break;
+            default:
+                console.log(`[REPL] Unknown command: /${command}`);
+        }
+    }
+
+    private senderFields() {
+        const isOwner = this.sender === OWNER_ALIAS;
+        return {
+            senderId: isOwner ? this.ownId : `${this.sender.toLowerCase().replace(/\s+/g, '_')}@repl`,
+            senderName: this.sender,
+            fromMe: isOwner
+        };
+    }
+
+    private async sendUserMessage(body: string) {
+        const media = this.pendingMedia;
+        const quotedMessageId = this.pendingQuoteId;
+        this.pendingMedia = undefined;
+        this.pendingQuoteId = undefined;
+
+        await this.inject({
+            ...this.senderFields(),
+            chatId: this.chatId,
+            body,
+            type: media?.type,
+            media: media?.media,
+            quotedMessageId
+        });
+    }
+
+    private resolveQuote(ref?: string): string | undefined {
+        const history = this.getHistory(this.chatId);
+        if (!ref) return history[history.length - 1]?.id;
+        const n = Number(ref);
+        if (!isNaN(n) && n > 0) return history[history.length - n]?.id;
+        return history.find(m => m.id === ref)?.id;
+    }
+
+    private attach(filePath: string | undefined, asVoice: boolean) {
+        if (!filePath || !fs.existsSync(filePath)) {
+            console.log(`[REPL] File not found: ${filePath}`);
+            return;
+        }
+        const mimetype = mime.lookup(filePath) || 'application/octet-stream';
+        this.pendingMedia = {
+            media: { mimetype, data: fs.readFileSync(filePath).toString('base64'), filename: path.basename(filePath) },
+            type: mediaTypeFor(mimetype, asVoice)
+        };
+        console.log(`[REPL] Next message carries ${path.basename(filePath)} (${mimetype})`);
+    }
+
+    private printMessage(message: ChatMessage) {
+        const time = new Date(message.timestamp * 1000).toLocaleTimeString();
+        const media = message.hasMedia ? ` [${message.type}]` : "";
+        const quote = message.hasQuotedMsg ? " ↩" : "";
+        console.log(`  (${message.id} ${time}) ${message.fromMe ? "me" : message.senderId}${quote}${media}: ${message.body}`);
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * Transport-neutral chat model.
+ * The message pipeline only depends on these types, so any chat platform
+ * (WhatsApp, a terminal REPL, an in-memory test harness) can drive it.
+ */
+
+export type MessageType = 'chat' | 'image' | 'video' | 'audio' | 'ptt' | 'document' | 'sticker' | 'unknown';
+
+export interface MediaPayload {
+    mimetype: string;
+    data: string; // Base64-encoded
+    filename?: string | null;
+}
+
+export interface SendOptions {
+    quotedMessageId?: string;
+    media?: MediaPayload;
+    sendAudioAsVoice?: boolean;
+}
+
+export interface ChatMessage {
+    id: string;
+    chatId: string;
+    /** The person who sent the message (the author in groups, the chat in DMs). */
+    senderId: string;
+    body: string;
+    type: MessageType;
+    /** Seconds since epoch (WhatsApp convention). 0 if unknown. */
+    timestamp: number;
+    fromMe: boolean;
+    hasMedia: boolean;
+    hasQuotedMsg: boolean;
+
+    getQuotedMessage(): Promise<ChatMessage | null>;
+    downloadMedia(): Promise<MediaPayload | null>;
+    getSenderName(): Promise<string>;
+    /** Whether the sender is saved in the owner's contacts. */
+    isFromKnownContact(): Promise<boolean>;
+    getChat(): Promise<ChatInfo>;
+    reply(content: string, options?: SendOptions): Promise<void>;
+}
+
+export interface ChatInfo {
+    id: string;
+    name: string;
+    isGroup: boolean;
+
+    fetchMessages(options: { limit: number }): Promise<ChatMessage[]>;
+    sendMessage(content: string, options?: SendOptions): Promise<void>;
+    /** IDs of group admins. Empty for private chats. */
+    getAdminIds(): Promise<string[]>;
+}
+
+export type MessageHandler = (message: ChatMessage) => Promise<void>;
+
+export type ConnectionState = 'starting' | 'qr' | 'ready' | 'disconnected';
+
+export interface TransportStatus {
+    state: ConnectionState;
+    since: Date;     // When the state last changed
+    qr?: string;     // Pairing code to scan while the state is 'qr'
+    detail?: string; // Why it disconnected or failed to authenticate
+}
+
+export interface ChatTransport {
+    readonly name: string;
+
+    /** Registers the handler invoked for every created message (incoming and own). */
+    onMessage(handler: MessageHandler): void;
+    /** Connects the transport. Resolves once messages can be sent. */
+    initialize(): Promise<void>;
+    /** Connection state, for health checks. */
+    getStatus(): TransportStatus;
+
+    getMessageById(messageId: string): Promise<ChatMessage | null>;
+    getChatById(chatId: string): Promise<ChatInfo | null>;
+    /** All chats, most recently active first. */
+    getChats(): Promise<ChatInfo[]>;
+}
@@ -0,0 +1,220 @@
+import { Client, LocalAuth, Message, Chat, GroupChat, MessageMedia } from 'whatsapp-web.js';
+import qrcode from 'qrcode-terminal';
+import { ChatTransport, ChatMessage, ChatInfo, MessageHandler, MessageType, MediaPayload, SendOptions, TransportStatus, ConnectionState } from './types';
+
+const KNOWN_TYPES: MessageType[] = ['chat', 'image', 'video', 'audio', 'ptt', 'document', 'sticker'];
+
+function toMessageType(type: string): MessageType {
+    return (KNOWN_TYPES as string[]).includes(type) ? type as MessageType : 'unknown';
+}
+
+function toSendArgs(content: string, options?: SendOptions): [string | MessageMedia, any] {
+    const sendOptions: any = {};
+    if (options?.quotedMessageId) sendOptions.quotedMessageId = options.quotedMessageId;
+    if (options?.sendAudioAsVoice) sendOptions.sendAudioAsVoice = true;
+
+    if (options?.media) {
+        const media = new MessageMedia(options.media.mimetype, options.media.data, options.media.filename);
+        if (content) sendOptions.caption = content;
+        return [media, sendOptions];
+    }
+    return [content, sendOptions];
+}
+
+class WhatsAppChatMessage implements ChatMessage {
+    public id: string;
+    public chatId: string;
+    public senderId: string;
+    public body: string;
+    public type: MessageType;
+    public timestamp: number;
+    public fromMe: boolean;
+    public hasMedia: boolean;
+    public hasQuotedMsg: boolean;
+
+    constructor(private raw: Message, private transport: WhatsAppTransport) {
+        this.id = raw.id._serialized;
+        this.chatId = raw.fromMe ? raw.to : raw.from;
+        this.senderId = raw.author || raw.from;
+        this.body = raw.body || "";
+        this.type = toMessageType(raw.type);
+        this.timestamp = raw.timestamp || 0;
+        this.fromMe = raw.fromMe;
+        this.hasMedia = raw.hasMedia;
+        this.hasQuotedMsg = raw.hasQuotedMsg;
+    }
+
+    public async getQuotedMessage(): Promise<ChatMessage | null> {
+        if (!this.raw.hasQuotedMsg) return null;
+        const q = await this.raw.getQuotedMessage();
+        if (!q) return null;
+
+        const quoted = new WhatsAppChatMessage(q, this.transport);
+
+        // Quoted messages often arrive without a timestamp. Recover it from the raw _data of the replying message.
+        if (!quoted.timestamp) {
+            const rawData = (this.raw as any)._data;
+            const quotedData = rawData?.quotedMsg || rawData?.quotedStanza;
+            if (quotedData && quotedData.t) {
+                quoted.timestamp = quotedData.t;
+                console.log(`[INFO] Recovered timestamp from raw _data.${rawData.quotedMsg ? 'quotedMsg' : 'quotedStanza'}: ${new Date(quoted.timestamp * 1000).toISOString()}`);
+            }
+        }
+        return quoted;
+    }
+
+    public async downloadMedia(): Promise<MediaPayload | null> {
+        const media = await this.raw.downloadMedia();
+        if (!media) return null;
+        return { mimetype: media.mimetype, data: media.data, filename: media.filename };
+    }
+
+    /**
+     * Prioritizes Contact Name > Pushname > Phone Number.
+     */
+    public async getSenderName(): Promise<string> {
+        try {
+            const contact = await this.raw.getContact();
+            return contact.name || contact.pushname || this.raw.from;
+        } catch (e) {
+            return this.raw.from;
+        }
+    }
+
+    public async isFromKnownContact(): Promise<boolean> {
+        if (this.raw.fromMe) return true;
+        try {
+            const contact = await this.raw.getContact();
+            return contact.isMyContact;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    public async getChat(): Promise<ChatInfo> {
+        return new WhatsAppChatInfo(await this.raw.getChat(), this.transport);
+    }
+
+    public async reply(content: string, options?: SendOptions): Promise<void> {
+        const [payload, sendOptions] = toSendArgs(content, options);
+        await this.raw.reply(payload, undefined, sendOptions);
+    }
+}
+
+class WhatsAppChatInfo implements ChatInfo {
+    public id: string;
+    public name: string;
+    public isGroup: boolean;
+
+    constructor(private raw: Chat, private transport: WhatsAppTransport) {
+        this.id = raw.id._serialized;
+        this.name = raw.name;
+        this.isGroup = raw.isGroup;
+    }
+
+    public async fetchMessages(options: { limit: number }): Promise<ChatMessage[]> {
+        const messages = await this.raw.fetchMessages({ limit: options.limit });
+        return messages.map(m => new WhatsAppChatMessage(m, this.transport));
+    }
+
+    public async sendMessage(content: string, options?: SendOptions): Promise<void> {
+        const [payload, sendOptions] = toSendArgs(content, options);
+        await this.raw.sendMessage(payload, sendOptions);
+    }
+
+    public async getAdminIds(): Promise<string[]> {
+        if (!this.isGroup) return [];
+        const group = this.raw as GroupChat;
+        return (group.participants || [])
+            .filter(p => p.isAdmin || p.isSuperAdmin)
+            .map(p => p.id._serialized);
+    }
+}
+
+/**
+ * ChatTransport backed by a live whatsapp-web.js session.
+ */
+export class WhatsAppTransport implements ChatTransport {
+    public readonly name = "whatsapp";
+    private client: Client;
+    private handlers: MessageHandler[] = [];
+    private ready: Promise<void>;
+    private status: TransportStatus = { state: 'starting', since: new Date() };
+
+    constructor() {
+        this.client = new Client({
+            authStrategy: new LocalAuth(),
+            puppeteer: { args: ['--no-sandbox'] }
+        });
+
+        this.client.on('qr', (qr) => {
+            console.log('QR RECEIVED', qr);
+            qrcode.generate(qr, { small: true });
+            // A new code is issued every ~20 seconds until one is scanned
+            this.status = { state: 'qr', since: this.status.state === 'qr' ? this.status.since : new Date(), qr };
+        });
+
+        this.ready = new Promise(resolve => {
+            this.client.on('ready', () => {
+                console.log('Client is ready!');
+                this.setState('ready');
+                resolve();
+            });
+        });
+
+        this.client.on('auth_failure', (message) => {
+            console.error(`[WHATSAPP] Authentication failed: ${message}`);
+            this.setState('disconnected', `Authentication failed: ${message}`);
+        });
+
+        this.client.on('disconnected', (reason) => {
+            console.warn(`[WHATSAPP] Disconnected: ${reason}`);
+            this.setState('disconnected', String(reason));
+        });
+
+        this.client.on('message_create', async (message: Message) => {
+            const wrapped = new WhatsAppChatMessage(message, this);
+            for (const handler of this.handlers) {
+                await handler(wrapped);
+            }
+        });
+    }
+
+    private setState(state: ConnectionState, detail?: string) {
+        this.status = { state, since: new Date(), ...(detail ? { detail } : {}) };
+    }
+
+    public getStatus(): TransportStatus {
+        return { ...this.status };
+    }
+
+    public onMessage(handler: MessageHandler): void {
+        this.handlers.push(handler);
+    }
+
+    public async initialize(): Promise<void> {
+        console.log('Initializing WhatsApp Client...');
+        await this.client.initialize();
+        // A fresh session only becomes ready after the QR code is scanned
+        await this.ready;
+    }
+
+    public async getMessageById(messageId: string): Promise<ChatMessage | null> {
+        const msg = await this.client.getMessageById(messageId);
+        return msg ? new WhatsAppChatMessage(msg, this) : null;
+    }
+
+    public async getChats(): Promise<ChatInfo[]> {
+        const chats = await this.client.getChats();
+        return chats.map(c => new WhatsAppChatInfo(c, this));
+    }
+
+    public async getChatById(chatId: string): Promise<ChatInfo | null> {
+        try {
+            const chat = await this.client.getChatById(chatId);
+            return chat ? new WhatsAppChatInfo(chat, this) : null;
+        } catch (e) {
+            return null;
+        }
+    }
+}
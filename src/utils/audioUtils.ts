@@ -0,0 +1,132 @@
+import { spawn } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import mime from 'mime-types';
+
+export interface CommandResult {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+export type AudioFormat = 'wav' | 'ogg';
+
+const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Extensions the transcription APIs recognize. mime-types picks e.g. 'oga' for audio/ogg and 'mp4a' for audio/mp4.
+const AUDIO_EXTENSIONS: Record<string, string> = {
+    'audio/ogg': 'ogg',
+    'audio/opus': 'ogg',
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/aac': 'm4a',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/wave': 'wav',
+    'audio/webm': 'webm',
+    'audio/flac': 'flac',
+    'video/mp4': 'mp4'
+};
+
+/**
+ * Runs a command and collects its output. `input` is written to its stdin.
+ * Rejects if it can't be started (e.g. ENOENT) or runs past the timeout.
+ */
+export function runCommand(command: string, args: string[], timeoutMs: number, input?: string): Promise<CommandResult> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args);
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGKILL');
+        }, timeoutMs);
+
+        child.stdout.on('data', chunk => stdout.push(chunk));
+        child.stderr.on('data', chunk => stderr.push(chunk));
+        child.on('error', e => {
+            clearTimeout(timer);
+            reject(e);
+        });
+        child.on('close', code => {
+            clearTimeout(timer);
+            if (timedOut) return reject(new Error(`${command} timed out after ${Math.round(timeoutMs / 1000)}s`));
+            resolve({ code, stdout: Buffer.concat(stdout).toString('utf-8'), stderr: Buffer.concat(stderr).toString('utf-8') });
+        });
+
+        child.stdin.on('error', () => { /* exited without reading its input, handled on close */ });
+        child.stdin.end(input);
+    });
+}
+
+/**
+ * The file extension of an audio file: from its mimetype (parameters like "; codecs=opus" are ignored),
+ * else from its first bytes. WhatsApp voice notes are "audio/ogg; codecs=opus".
+ */
+export function getAudioExtension(mimetype: string | undefined, buffer: Buffer): string {
+    const type = mimetype?.split(';')[0].trim().toLowerCase();
+    if (type && AUDIO_EXTENSIONS[type]) return AUDIO_EXTENSIONS[type];
+
+    const head = buffer.subarray(0, 12);
+    if (head.toString('ascii', 0, 4) === 'OggS') return 'ogg';
+    if (head.toString('ascii', 0, 4) === 'RIFF' && head.toString('ascii', 8, 12) === 'WAVE') return 'wav';
+    if (head.toString('ascii', 0, 4) === 'fLaC') return 'flac';
+    if (head.toString('ascii', 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) return 'mp3';
+    if (head.toString('ascii', 4, 8) === 'ftyp') return 'm4a';
+    if (head.readUInt32BE(0) === 0x1a45dfa3) return 'webm';
+
+    return (type && mime.extension(type)) || 'ogg';
+}
+
+/**
+ * Duration of an audio file in seconds (ffprobe). Undefined if ffprobe is missing or can't read it.
+ */
+export async function getAudioDuration(filePath: string): Promise<number | undefined> {
+    try {
+        const result = await runCommand('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', filePath], 30 * 1000);
+        const duration = parseFloat(result.stdout.trim());
+        return Number.isFinite(duration) ? duration : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Re-encodes audio as 16 kHz mono (small, and what speech models expect), split into consecutive chunks of at
+ * most `chunkSeconds`. 'wav' is 16-bit PCM (whisper.cpp), 'ogg' is 32 kbit/s Opus (uploads).
+ * Returns the chunk files in order. Needs the ffmpeg CLI; rejects with code ENOENT if it is not installed.
+ */
+export async function splitAudio(inputPath: string, outputDir: string, format: AudioFormat, chunkSeconds: number): Promise<string[]> {
+    await fs.ensureDir(outputDir);
+    const codec = format === 'wav' ? ['-c:a', 'pcm_s16le'] : ['-c:a', 'libopus', '-b:a', '32k'];
+    const result = await runCommand('ffmpeg', [
+        '-v', 'error', '-y',
+        '-i', inputPath,
+        '-vn', '-ac', '1', '-ar', '16000',
+        ...codec,
+        '-f', 'segment', '-segment_time', String(chunkSeconds), '-reset_timestamps', '1',
+        path.join(outputDir, `chunk%03d.${format}`)
+    ], FFMPEG_TIMEOUT_MS);
+    if (result.code !== 0) throw new Error(`ffmpeg failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+
+    const chunks = (await fs.readdir(outputDir)).filter(f => f.startsWith('chunk') && f.endsWith(`.${format}`)).sort();
+    if (chunks.length === 0) throw new Error(`ffmpeg produced no audio`);
+    return chunks.map(f => path.join(outputDir, f));
+}
+
+/**
+ * Encodes audio as an ogg/opus voice note (what WhatsApp plays as a PTT message). Needs the ffmpeg CLI.
+ */
+export async function encodeVoiceNote(inputPath: string, outputPath: string): Promise<void> {
+    const result = await runCommand('ffmpeg', [
+        '-v', 'error', '-y',
+        '-i', inputPath,
+        '-vn', '-ac', '1', '-ar', '48000',
+        '-c:a', 'libopus', '-b:a', '32k', '-application', 'voip',
+        outputPath
+    ], FFMPEG_TIMEOUT_MS);
+    if (result.code !== 0) throw new Error(`ffmpeg failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { getNextOccurrence, isTimeExpression, resolveTimeExpression, TimeExpressionContext } from './dateUtils';
+
+const TZ = 'Asia/Jerusalem';
+// Wednesday 2025-01-22 10:00 in Israel (UTC+2 in winter)
+const NOW = new Date('2025-01-22T08:00:00Z');
+
+function resolve(expression: string, context: TimeExpressionContext = {}) {
+    const range = resolveTimeExpression(expression, TZ, { now: NOW, ...context });
+    return range && { start: range.start.toISOString(), end: range.end.toISOString() };
+}
+
+describe('resolveTimeExpression', () => {
+    it('resolves days and parts of days', () => {
+        expect(resolve('yesterday')).toEqual({ start: '2025-01-20T22:00:00.000Z', end: '2025-01-21T22:00:00.000Z' });
+        expect(resolve('today')).toEqual({ start: '2025-01-21T22:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('earlier today')).toEqual({ start: '2025-01-21T22:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('yesterday evening')).toEqual({ start: '2025-01-21T15:00:00.000Z', end: '2025-01-21T20:00:00.000Z' });
+        expect(resolve('last Tuesday')).toEqual({ start: '2025-01-20T22:00:00.000Z', end: '2025-01-21T22:00:00.000Z' });
+    });
+
+    it('resolves Hebrew phrases like their English equivalents', () => {
+        expect(resolve('אתמול')).toEqual(resolve('yesterday'));
+        expect(resolve('אתמול בערב')).toEqual(resolve('yesterday evening'));
+        expect(resolve('ב-3 הימים האחרונים')).toEqual(resolve('the last 3 days'));
+        expect(resolve('מאז יום שני בבוקר')).toEqual(resolve('since Monday morning'));
+        expect(resolve('לפני שעתיים')).toEqual(resolve('2 hours ago'));
+        expect(resolve('בשבוע שעבר')).toEqual(resolve('last week'));
+        expect(resolve('בסופ״ש האחרון')).toEqual(resolve('last weekend'));
+        expect(resolve('מוקדם יותר היום')).toEqual(resolve('earlier today'));
+    });
+
+    it('resolves rolling windows and instants up to now', () => {
+        expect(resolve('the last 3 days')).toEqual({ start: '2025-01-19T08:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('3 days ago')).toEqual({ start: '2025-01-19T08:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('since Monday morning')).toEqual({ start: '2025-01-20T04:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('between 20/01 and yesterday')).toEqual({ start: '2025-01-19T22:00:00.000Z', end: '2025-01-21T22:00:00.000Z' });
+    });
+
+    it('resolves relative to the replied message', () => {
+        const replied = new Date('2025-01-15T12:00:00Z');
+        expect(resolve('the hour before the replied message', { replied })).toEqual({ start: '2025-01-15T11:00:00.000Z', end: replied.toISOString() });
+        expect(resolve('the day before the replied message')).toBeUndefined();
+    });
+
+    it('uses the configured first day of the week for week boundaries', () => {
+        // Weeks start on Sunday: this week began Sunday the 19th
+        expect(resolve('this week')).toEqual({ start: '2025-01-18T22:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('last week')).toEqual({ start: '2025-01-11T22:00:00.000Z', end: '2025-01-18T22:00:00.000Z' });
+        // Weeks start on Monday
+        expect(resolve('this week', { weekStartsOn: 1 })).toEqual({ start: '2025-01-19T22:00:00.000Z', end: NOW.toISOString() });
+        expect(resolve('last week', { weekStartsOn: 1 })).toEqual({ start: '2025-01-12T22:00:00.000Z', end: '2025-01-19T22:00:00.000Z' });
+    });
+
+    it('treats the first hour of a week as part of the new week', () => {
+        const sundayNight = new Date('2025-01-18T22:30:00Z'); // Sunday 00:30
+        expect(resolve('this week', { now: sundayNight })).toEqual({ start: '2025-01-18T22:00:00.000Z', end: sundayNight.toISOString() });
+        expect(resolve('last week', { now: sundayNight })).toEqual({ start: '2025-01-11T22:00:00.000Z', end: '2025-01-18T22:00:00.000Z' });
+    });
+
+    it('resolves weekends as the two days before the week starts', () => {
+        // Sunday weeks: Friday-Saturday
+        expect(resolve('last weekend')).toEqual({ start: '2025-01-16T22:00:00.000Z', end: '2025-01-18T22:00:00.000Z' });
+        // Monday weeks: Saturday-Sunday
+        expect(resolve('last weekend', { weekStartsOn: 1 })).toEqual({ start: '2025-01-17T22:00:00.000Z', end: '2025-01-19T22:00:00.000Z' });
+        // Midweek, "this weekend" is the one that just passed; during the weekend it is the current one
+        expect(resolve('this weekend')).toEqual(resolve('last weekend'));
+        const saturday = new Date('2025-01-25T10:00:00Z');
+        expect(resolve('this weekend', { now: saturday })).toEqual({ start: '2025-01-23T22:00:00.000Z', end: saturday.toISOString() });
+    });
+
+    it('keeps local midnight across a DST change', () => {
+        // Israel moved to UTC+3 on Friday 2025-03-28 at 02:00
+        const sunday = new Date('2025-03-30T09:00:00Z');
+        expect(resolve('yesterday', { now: sunday })).toEqual({ start: '2025-03-28T21:00:00.000Z', end: '2025-03-29T21:00:00.000Z' });
+        // A 47-hour weekend
+        expect(resolve('last weekend', { now: sunday })).toEqual({ start: '2025-03-27T22:00:00.000Z', end: '2025-03-29T21:00:00.000Z' });
+        // Days keep the wall clock time: 12:00 three days earlier was still UTC+2
+        expect(resolve('3 days ago', { now: sunday })).toEqual({ start: '2025-03-27T10:00:00.000Z', end: sunday.toISOString() });
+    });
+
+    it('returns undefined for what it does not understand', () => {
+        expect(resolve('when the moon was full')).toBeUndefined();
+        expect(resolve('tomorrow')).toBeUndefined();
+        expect(isTimeExpression('when the moon was full')).toBe(false);
+        expect(isTimeExpression('last weekend')).toBe(true);
+    });
+});
+
+describe('getNextOccurrence', () => {
+    it('keeps the local time of day across DST', () => {
+        const next = getNextOccurrence(new Date('2025-03-27T07:00:00Z'), 'daily', TZ); // 09:00, UTC+2
+        expect(next.toISOString()).toBe('2025-03-28T06:00:00.000Z'); // 09:00, UTC+3
+        expect(getNextOccurrence(next, 'weekly', TZ).toISOString()).toBe('2025-04-04T06:00:00.000Z');
+    });
+
+    it('keeps the day of month of monthly recurrences after a short month', () => {
+        let date = new Date('2025-01-31T07:00:00Z');
+        const dates: string[] = [];
+        for (let i = 0; i < 3; i++) {
+            date = getNextOccurrence(date, 'monthly', TZ, 31);
+            dates.push(date.toISOString().substring(0, 10));
+        }
+        expect(dates).toEqual(['2025-02-28', '2025-03-31', '2025-04-30']);
+    });
+});
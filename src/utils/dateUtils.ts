@@ -20,3 +20,622 @@ export function getLogTimestamp(dateOrTimestamp?: Date | number): string {
 
     return `${yy}${mm}${dd}-${hh}${min}${ss}`;
 }
+
+/**
+ * Returns a short human readable time (HH:MM), prefixed with the date if it is not today.
+ */
+export function formatClockTime(date: Date): string {
+    const time = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+    if (date.toDateString() === new Date().toDateString()) return time;
+    return `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')} ${time}`;
+}
+
+export type Recurrence = 'daily' | 'weekly' | 'monthly';
+
+export const RECURRENCES: Recurrence[] = ['daily', 'weekly', 'monthly'];
+
+interface WallClock {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns the wall clock time of an instant in an IANA time zone (e.g. "Asia/Jerusalem").
+ */
+export function getWallClock(date: Date, timeZone: string): WallClock {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric',
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+        weekday: 'short'
+    }).formatToParts(date);
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+
+    return {
+        year: parseInt(get('year')),
+        month: parseInt(get('month')),
+        day: parseInt(get('day')),
+        hour: parseInt(get('hour')),
+        minute: parseInt(get('minute')),
+        second: parseInt(get('second')),
+        weekday: WEEKDAYS.indexOf(get('weekday'))
+    };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds (positive east of UTC).
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+    const c = getWallClock(date, timeZone);
+    const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a wall clock time in a time zone to an instant. Handles DST by re-checking the offset.
+ * Month overflow is normalized (day 32 -> next month), like Date.UTC.
+ */
+export function fromWallClock(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string): Date {
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    let result = asUtc - getTimeZoneOffsetMs(new Date(asUtc), timeZone);
+    const corrected = asUtc - getTimeZoneOffsetMs(new Date(result), timeZone);
+    if (corrected !== result) result = corrected;
+    return new Date(result);
+}
+
+/**
+ * Parses an ISO-8601 date. Strings without an offset ("2025-01-20T09:00") are read as local time in `timeZone`.
+ * Returns undefined for invalid input.
+ */
+export function parseZonedDate(value: string, timeZone: string): Date | undefined {
+    const local = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/);
+    if (local) {
+        const [, y, mo, d, h, mi, s] = local;
+        return fromWallClock(+y, +mo, +d, +(h || 0), +(mi || 0), +(s || 0), timeZone);
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Formats an instant in a time zone, e.g. "Mon 20/01 09:00".
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+    const c = getWallClock(date, timeZone);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${WEEKDAYS[c.weekday]} ${pad(c.day)}/${pad(c.month)} ${pad(c.hour)}:${pad(c.minute)}`;
+}
+
+/**
+ * Formats an instant as an ISO-like local time with the zone name, for prompts: "2025-01-20T09:00 (Mon, Asia/Jerusalem)".
+ */
+export function formatPromptTime(date: Date, timeZone: string): string {
+    const c = getWallClock(date, timeZone);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${c.year}-${pad(c.month)}-${pad(c.day)}T${pad(c.hour)}:${pad(c.minute)} (${WEEKDAYS[c.weekday]}, ${timeZone})`;
+}
+
+/**
+ * Returns the next occurrence after `date` that keeps the same wall clock time in `timeZone` (stable across DST).
+ * Monthly recurrences on the 29th-31st clamp to the last day of shorter months. Pass the original
+ * `dayOfMonth`, or a reminder for the 31st moves to the 28th after February and stays there.
+ */
+export function getNextOccurrence(date: Date, recurrence: Recurrence, timeZone: string, dayOfMonth?: number): Date {
+    const c = getWallClock(date, timeZone);
+    const at = (year: number, month: number, day: number) => fromWallClock(year, month, day, c.hour, c.minute, c.second, timeZone);
+
+    switch (recurrence) {
+        case 'daily':
+            return at(c.year, c.month, c.day + 1);
+        case 'weekly':
+            return at(c.year, c.month, c.day + 7);
+        case 'monthly': {
+            const daysInNextMonth = new Date(Date.UTC(c.year, c.month + 1, 0)).getUTCDate();
+            return at(c.year, c.month + 1, Math.min(dayOfMonth ?? c.day, daysInNextMonth));
+        }
+    }
+}
+
+export type TimeUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months';
+
+export const TIME_UNITS: TimeUnit[] = ['minutes', 'hours', 'days', 'weeks', 'months'];
+
+/**
+ * A point in time as the planner describes it.
+ * Absolute times without an offset are local times in the owner's time zone.
+ */
+export type TimePoint =
+    | { type: 'now' }
+    | { type: 'ago'; amount: number; unit: TimeUnit }
+    | { type: 'absolute'; iso: string };
+
+const UNIT_MS: Record<'minutes' | 'hours', number> = {
+    minutes: 60 * 1000,
+    hours: 60 * 60 * 1000
+};
+
+/**
+ * Moves an instant by an amount of units (negative moves back). Days and longer keep the wall clock time in `timeZone`.
+ */
+export function shiftTime(date: Date, amount: number, unit: TimeUnit, timeZone: string): Date {
+    if (unit === 'minutes' || unit === 'hours') return new Date(date.getTime() + amount * UNIT_MS[unit]);
+
+    const c = getWallClock(date, timeZone);
+    const fractionMs = (amount % 1) * (unit === 'days' ? 24 : unit === 'weeks' ? 7 * 24 : 30 * 24) * UNIT_MS.hours;
+    const whole = Math.trunc(amount);
+    const shifted = unit === 'months'
+        ? fromWallClock(c.year, c.month + whole, c.day, c.hour, c.minute, c.second, timeZone)
+        : fromWallClock(c.year, c.month, c.day + whole * (unit === 'weeks' ? 7 : 1), c.hour, c.minute, c.second, timeZone);
+    return new Date(shifted.getTime() + fractionMs);
+}
+
+/**
+ * Resolves a planner time point to an instant. Returns undefined for an unparseable absolute time.
+ */
+export function resolveTimePoint(point: TimePoint, timeZone: string, now: Date = new Date()): Date | undefined {
+    switch (point.type) {
+        case 'now':
+            return new Date(now);
+        case 'ago':
+            return shiftTime(now, -point.amount, point.unit, timeZone);
+        case 'absolute':
+            return parseZonedDate(point.iso, timeZone);
+    }
+}
+
+export interface ResolvedTimeRange {
+    start: Date;
+    end: Date;
+}
+
+export interface TimeExpressionContext {
+    now?: Date;
+    /** Time of the message the user replied to, for "the replied message". */
+    replied?: Date;
+    /** First day of the week for "this week"/"last week". 0 = Sunday (default, as in Israel). The weekend is the two days before it. */
+    weekStartsOn?: number;
+}
+
+interface Span {
+    start: Date;
+    end: Date;
+    wholeDays?: boolean; // Calendar days (or weeks/months), as opposed to an instant or a rolling window
+}
+
+interface Duration {
+    amount: number;
+    unit: TimeUnit;
+}
+
+interface ExpressionScope {
+    timeZone: string;
+    now: Date;
+    replied?: Date;
+    weekStartsOn: number;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+    'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10,
+    'a couple of': 2, 'couple of': 2, 'a few': 3, 'few': 3,
+    'אחת': 1, 'אחד': 1, 'שתי': 2, 'שני': 2, 'שלוש': 3, 'שלושה': 3, 'ארבע': 4, 'ארבעה': 4, 'חמש': 5, 'חמישה': 5,
+    'שש': 6, 'שישה': 6, 'שבע': 7, 'שבעה': 7, 'שמונה': 8, 'תשע': 9, 'תשעה': 9, 'עשר': 10, 'עשרה': 10, 'כמה': 3
+};
+
+const EN_UNITS: Array<[RegExp, TimeUnit]> = [
+    [/^(?:m|mins?|minutes?)$/, 'minutes'],
+    [/^(?:h|hrs?|hours?)$/, 'hours'],
+    [/^(?:d|days?)$/, 'days'],
+    [/^(?:w|wks?|weeks?)$/, 'weeks'],
+    [/^(?:months?)$/, 'months']
+];
+
+// Hebrew unit words (with the optional definite article), and the dual forms that carry their own amount
+const HE_UNITS: Array<[RegExp, TimeUnit]> = [
+    [/^ה?(?:דקה|דקות)$/, 'minutes'],
+    [/^ה?(?:שעה|שעות)$/, 'hours'],
+    [/^ה?(?:יום|ימים)$/, 'days'],
+    [/^ה?(?:שבוע|שבועות)$/, 'weeks'],
+    [/^ה?(?:חודש|חודשים)$/, 'months']
+];
+const HE_DUALS: Record<string, Duration> = {
+    'שעתיים': { amount: 2, unit: 'hours' },
+    'יומיים': { amount: 2, unit: 'days' },
+    'שבועיים': { amount: 2, unit: 'weeks' },
+    'חודשיים': { amount: 2, unit: 'months' },
+    'חצי שעה': { amount: 30, unit: 'minutes' },
+    'רבע שעה': { amount: 15, unit: 'minutes' },
+    'half an hour': { amount: 30, unit: 'minutes' },
+    'half hour': { amount: 30, unit: 'minutes' }
+};
+
+const EN_WEEKDAYS = [/^sun(?:day)?$/, /^mon(?:day)?$/, /^tue(?:s|sday)?$/, /^wed(?:nesday)?$/, /^thu(?:r|rs|rsday)?$/, /^fri(?:day)?$/, /^sat(?:urday)?$/];
+const HE_WEEKDAYS = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת'];
+
+const EN_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const HE_MONTHS = ['ינואר', 'פברואר', 'מרץ', 'אפריל', 'מאי', 'יוני', 'יולי', 'אוגוסט', 'ספטמבר', 'אוקטובר', 'נובמבר', 'דצמבר'];
+
+// [start hour, end hour] of the parts of a day. Night runs into the next morning.
+const DAY_PARTS: Record<string, [number, number]> = {
+    morning: [6, 12],
+    afternoon: [12, 17],
+    evening: [17, 22],
+    night: [22, 30]
+};
+const DAY_PART_WORDS: Array<[RegExp, string]> = [
+    [/^(?:in the )?morning$|^ב?בוקר$/, 'morning'],
+    [/^(?:in the )?afternoon$|^ב?צהריים$|^ב?אחר הצהריים$|^ב?אחה"צ$/, 'afternoon'],
+    [/^(?:in the )?evening$|^ב?ערב$/, 'evening'],
+    [/^(?:at )?night$|^ב?לילה$/, 'night']
+];
+
+function parseDuration(text: string): Duration | undefined {
+    if (HE_DUALS[text]) return HE_DUALS[text];
+
+    const compact = text.match(/^(\d+(?:\.\d+)?)(m|h|d|w)$/); // "2h", "30m"
+    if (compact) return parseDuration(`${compact[1]} ${compact[2]}`);
+
+    const unitOf = (word: string) => [...EN_UNITS, ...HE_UNITS].find(([re]) => re.test(word))?.[1];
+
+    // A single unit: "hour", "the day" (as in "the day before X"), "השעה", "היומיים"
+    const bare = text.replace(/^the /, '');
+    const bareUnit = unitOf(bare);
+    if (bareUnit) return { amount: 1, unit: bareUnit };
+    if (HE_DUALS[bare.replace(/^ה/, '')]) return HE_DUALS[bare.replace(/^ה/, '')];
+
+    // Counted: "3 days", "two hours", "a couple of hours", "3 השעות"
+    const counted = text.match(/^(\d+(?:\.\d+)?|a couple of|couple of|a few|\S+) (.+)$/);
+    if (!counted) return undefined;
+    const amount = /^\d/.test(counted[1]) ? parseFloat(counted[1]) : NUMBER_WORDS[counted[1]];
+    const unit = unitOf(counted[2]);
+    return amount !== undefined && unit ? { amount, unit } : undefined;
+}
+
+function startOfDay(date: Date, scope: ExpressionScope, offsetDays: number = 0): Date {
+    const c = getWallClock(date, scope.timeZone);
+    return fromWallClock(c.year, c.month, c.day + offsetDays, 0, 0, 0, scope.timeZone);
+}
+
+function daySpan(date: Date, scope: ExpressionScope): Span {
+    return { start: startOfDay(date, scope), end: startOfDay(date, scope, 1), wholeDays: true };
+}
+
+function instant(date: Date): Span {
+    return { start: date, end: date };
+}
+
+/**
+ * The most recent day (today included, unless `strictlyPast`) with the given weekday.
+ */
+function lastWeekday(weekday: number, strictlyPast: boolean, scope: ExpressionScope): Span {
+    const today = getWallClock(scope.now, scope.timeZone).weekday;
+    let back = (today - weekday + 7) % 7;
+    if (back === 0 && strictlyPast) back = 7;
+    return daySpan(startOfDay(scope.now, scope, -back), scope);
+}
+
+function parseWeekday(text: string, scope: ExpressionScope): Span | undefined {
+    const en = text.match(/^(?:(last|this past|previous) )?([a-z]+)$/);
+    if (en) {
+        const weekday = EN_WEEKDAYS.findIndex(re => re.test(en[2]));
+        if (weekday >= 0) return lastWeekday(weekday, !!en[1], scope);
+    }
+    const he = text.match(/^(?:ב?יום |ב)?([\u0590-\u05ff]+)(?: (האחרון|שעבר))?$/);
+    if (he) {
+        const weekday = HE_WEEKDAYS.indexOf(he[1]);
+        if (weekday >= 0) return lastWeekday(weekday, !!he[2], scope);
+    }
+    return undefined;
+}
+
+/**
+ * Calendar words: today, yesterday, this/last week, this/last weekend, this/last month, this/last year.
+ */
+function parseCalendarWord(text: string, scope: ExpressionScope): Span | undefined {
+    const { timeZone, now } = scope;
+    if (/^(?:today|היום)$/.test(text)) return daySpan(now, scope);
+    if (/^(?:yesterday|אתמול)$/.test(text)) return daySpan(startOfDay(now, scope, -1), scope);
+    if (/^(?:שלשום)$/.test(text)) return daySpan(startOfDay(now, scope, -2), scope);
+
+    const c = getWallClock(now, timeZone);
+    const weekStart = startOfDay(now, scope, -((c.weekday - scope.weekStartsOn + 7) % 7));
+    const weekSpan = (weeksBack: number): Span => ({
+        start: shiftTime(weekStart, -7 * weeksBack, 'days', timeZone),
+        end: shiftTime(weekStart, 7 * (1 - weeksBack), 'days', timeZone),
+        wholeDays: true
+    });
+    const monthSpan = (monthsBack: number): Span => ({
+        start: fromWallClock(c.year, c.month - monthsBack, 1, 0, 0, 0, timeZone),
+        end: fromWallClock(c.year, c.month - monthsBack + 1, 1, 0, 0, 0, timeZone),
+        wholeDays: true
+    });
+    const yearSpan = (yearsBack: number): Span => ({
+        start: fromWallClock(c.year - yearsBack, 1, 1, 0, 0, 0, timeZone),
+        end: fromWallClock(c.year - yearsBack + 1, 1, 1, 0, 0, 0, timeZone),
+        wholeDays: true
+    });
+
+    if (/^(?:this week|השבוע)$/.test(text)) return weekSpan(0);
+    if (/^(?:last week|previous week|ה?שבוע שעבר|בשבוע שעבר|בשבוע הקודם|ה?שבוע הקודם)$/.test(text)) return weekSpan(1);
+    // The weekend ends where a week starts: Friday-Saturday with Sunday weeks, Saturday-Sunday with Monday weeks
+    const weekendSpan = (weeksBack: number): Span => ({
+        start: shiftTime(weekStart, 7 * (1 - weeksBack) - 2, 'days', timeZone),
+        end: shiftTime(weekStart, 7 * (1 - weeksBack), 'days', timeZone),
+        wholeDays: true
+    });
+    if (/^(?:last weekend|previous weekend|the last weekend|ב?סוף ה?שבוע (?:שעבר|הקודם|האחרון)|ב?סופ"ש (?:שעבר|הקודם|האחרון))$/.test(text)) return weekendSpan(1);
+    if (/^(?:this weekend|the weekend|over the weekend|ב?סוף ה?שבוע|ב?סופ"ש)$/.test(text)) {
+        // Before this week's weekend has started, it is the one that just passed
+        const current = weekendSpan(0);
+        return current.start > now ? weekendSpan(1) : current;
+    }
+    if (/^(?:this month|החודש)$/.test(text)) return monthSpan(0);
+    if (/^(?:last month|previous month|ה?חודש שעבר|בחודש שעבר|ה?חודש הקודם|בחודש הקודם)$/.test(text)) return monthSpan(1);
+    if (/^(?:this year|השנה)$/.test(text)) return yearSpan(0);
+    if (/^(?:last year|previous year|ה?שנה שעברה|בשנה שעברה)$/.test(text)) return yearSpan(1);
+    return undefined;
+}
+
+/**
+ * Dates: ISO ("2025-01-20", "2025-01-20T09:00"), day-first numeric ("20/01", "20.01.2025 9:30")
+ * and month names ("Jan 20", "20 January 2025", "20 בינואר").
+ */
+function parseAbsoluteDate(text: string, scope: ExpressionScope): Span | undefined {
+    const { timeZone, now } = scope;
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+        const date = parseZonedDate(text.toUpperCase(), timeZone);
+        if (!date) return undefined;
+        return /^\d{4}-\d{2}-\d{2}$/.test(text) ? daySpan(date, scope) : instant(date);
+    }
+
+    let day: number | undefined, month: number | undefined, year: number | undefined;
+    let rest = '';
+    const numeric = text.match(/^(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2}|\d{4}))?(?: (.+))?$/);
+    const enDayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?:,? (\d{4}))?(?: (.+))?$/);
+    const enMonthFirst = text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?(?: (.+))?$/);
+    const he = text.match(/^(\d{1,2}) ב?([\u0590-\u05ff]+)(?: (\d{4}))?(?: (.+))?$/);
+    const enMonth = (name: string) => name.length >= 3 ? EN_MONTHS.findIndex(m => name.startsWith(m)) + 1 : 0;
+
+    if (numeric) {
+        [day, month] = [+numeric[1], +numeric[2]];
+        year = numeric[3] ? +numeric[3] : undefined;
+        rest = numeric[4] || '';
+    } else if (enDayFirst && enMonth(enDayFirst[2])) {
+        [day, month] = [+enDayFirst[1], enMonth(enDayFirst[2])];
+        year = enDayFirst[3] ? +enDayFirst[3] : undefined;
+        rest = enDayFirst[4] || '';
+    } else if (enMonthFirst && enMonth(enMonthFirst[1])) {
+        [day, month] = [+enMonthFirst[2], enMonth(enMonthFirst[1])];
+        year = enMonthFirst[3] ? +enMonthFirst[3] : undefined;
+        rest = enMonthFirst[4] || '';
+    } else if (he && HE_MONTHS.includes(he[2])) {
+        [day, month] = [+he[1], HE_MONTHS.indexOf(he[2]) + 1];
+        year = he[3] ? +he[3] : undefined;
+        rest = he[4] || '';
+    } else {
+        return undefined;
+    }
+    if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+    if (year !== undefined && year < 100) year += 2000;
+
+    const today = getWallClock(now, timeZone);
+    // Without a year, the most recent such date
+    if (year === undefined) {
+        year = today.year;
+        if (month > today.month || (month === today.month && day > today.day)) year--;
+    }
+    const span = daySpan(fromWallClock(year, month, day, 12, 0, 0, timeZone), scope);
+    if (!rest) return span;
+    return parseTimeOfDay(span, rest.replace(/^(?:at|ב-?|בשעה) ?/, ''), scope);
+}
+
+function parseClock(text: string): { hour: number; minute: number } | undefined {
+    const match = text.match(/^(\d{1,2})(?::(\d{2}))?(?: ?(am|pm))?$/);
+    if (!match) return undefined;
+    let hour = +match[1];
+    const minute = match[2] ? +match[2] : 0;
+    if (match[3] === 'pm' && hour < 12) hour += 12;
+    if (match[3] === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) return undefined;
+    return { hour, minute };
+}
+
+/**
+ * A clock time or part of the day within a day span ("9:30", "9pm", "morning", "בערב").
+ */
+function parseTimeOfDay(day: Span, text: string, scope: ExpressionScope): Span | undefined {
+    const c = getWallClock(day.start, scope.timeZone);
+    const clock = parseClock(text);
+    if (clock) return instant(fromWallClock(c.year, c.month, c.day, clock.hour, clock.minute, 0, scope.timeZone));
+
+    const part = DAY_PART_WORDS.find(([re]) => re.test(text))?.[1];
+    if (!part) return undefined;
+    const [from, to] = DAY_PARTS[part];
+    return {
+        start: fromWallClock(c.year, c.month, c.day, from, 0, 0, scope.timeZone),
+        end: fromWallClock(c.year, c.month, c.day, to, 0, 0, scope.timeZone)
+    };
+}
+
+/**
+ * A day expression, optionally narrowed to a time or part of the day: "yesterday", "monday morning",
+ * "yesterday at 9pm", "אתמול בערב", "this morning", "last night", "at 14:30".
+ */
+function parseDay(text: string, scope: ExpressionScope): Span | undefined {
+    const wholeDay = parseCalendarWord(text, scope) || parseWeekday(text, scope) || parseAbsoluteDate(text, scope);
+    if (wholeDay) return wholeDay;
+
+    const today = daySpan(scope.now, scope);
+    const yesterday = daySpan(startOfDay(scope.now, scope, -1), scope);
+    switch (text) {
+        case 'earlier today': case 'today so far': case 'מוקדם יותר היום': case 'היום עד עכשיו': return { start: today.start, end: scope.now };
+        case 'this morning': case 'הבוקר': return parseTimeOfDay(today, 'morning', scope);
+        case 'this afternoon': case 'הצהריים': return parseTimeOfDay(today, 'afternoon', scope);
+        case 'this evening': case 'הערב': return parseTimeOfDay(today, 'evening', scope);
+        // Asked during the day, "tonight"/"הלילה" is the night that just ended
+        case 'tonight': case 'הלילה': case 'last night':
+            return parseTimeOfDay(text === 'last night' || getWallClock(scope.now, scope.timeZone).hour < 22 ? yesterday : today, 'night', scope);
+    }
+
+    // "at 14:30" / "ב-14:30" alone is the last time the clock showed it
+    const clockOnly = text.match(/^(?:at |ב-?|בשעה )?(\d{1,2}(?::\d{2})?(?: ?(?:am|pm))?)$/);
+    if (clockOnly && (clockOnly[0] !== clockOnly[1] || clockOnly[1].includes(':') || /[ap]m$/.test(clockOnly[1]))) {
+        const time = parseTimeOfDay(today, clockOnly[1], scope);
+        if (!time) return undefined;
+        return time.start > scope.now ? parseTimeOfDay(yesterday, clockOnly[1], scope) : time;
+    }
+
+    // "<day> <time of day>": try every split, the day part being the longest prefix that parses
+    const words = text.split(' ');
+    for (let i = words.length - 1; i >= 1; i--) {
+        const dayText = words.slice(0, i).join(' ');
+        const timeText = words.slice(i).join(' ').replace(/^(?:at|on|ב-?|בשעה) ?(?=\d)/, '');
+        const day = parseCalendarWord(dayText, scope) || parseWeekday(dayText, scope);
+        if (!day) continue;
+        if (day.end.getTime() - day.start.getTime() > 25 * 60 * 60 * 1000) continue; // Not a single day
+        const narrowed = parseTimeOfDay(day, timeText, scope);
+        if (narrowed) return narrowed;
+    }
+    return undefined;
+}
+
+function parseAnchor(text: string, scope: ExpressionScope): Span | undefined {
+    if (/^(?:now|right now|עכשיו|כרגע)$/.test(text)) return instant(scope.now);
+    if (/^(?:the )?(?:(?:replied|replied-to|replied to|quoted|original) message|message (?:i|you|they|he|she|we) replied to)$/.test(text)
+        || /^ה?הודעה ה?(?:מצוטטת|מקורית)$|^ה?הודעה ש(?:עליה )?(?:הגבתי|הגבת|הגיבו|הגיב|הגיבה|מגיבים)(?: עליה)?$/.test(text)) {
+        return scope.replied ? instant(scope.replied) : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * "3 days ago", "לפני שעתיים": an instant.
+ */
+function parseAgo(text: string, scope: ExpressionScope): Span | undefined {
+    const match = text.match(/^(.+) (?:ago|earlier)$/) || text.match(/^לפני (.+)$/);
+    const duration = match && parseDuration(match[1]);
+    return duration ? instant(shiftTime(scope.now, -duration.amount, duration.unit, scope.timeZone)) : undefined;
+}
+
+/**
+ * Rolling windows ending now: "the last 3 days", "past week", "last hour", "ב-3 הימים האחרונים", "בשבוע האחרון".
+ */
+function parseRollingWindow(text: string, scope: ExpressionScope): Span | undefined {
+    const en = text.match(/^(?:in |during |over |within )?(?:the )?(past|last|previous) (.+)$/);
+    const he = text.match(/^(?:ב|במהלך )?(.+) (?:האחרון|האחרונה|האחרונים|האחרונות)$/);
+    const durationText = en ? en[2] : he ? he[1] : undefined;
+    if (!durationText) return undefined;
+
+    // "last week"/"last month" alone are calendar periods, matched before this by parseCalendarWord
+    const duration = parseDuration(durationText);
+    if (!duration) return undefined;
+    return { start: shiftTime(scope.now, -duration.amount, duration.unit, scope.timeZone), end: scope.now };
+}
+
+/**
+ * Windows relative to another expression: "2h before 2025-01-20T09:00", "the day before the replied message",
+ * "an hour after yesterday at 9", "around the quoted message", "שעה לפני ההודעה המצוטטת".
+ * "<duration> before X" ends where X starts; for calendar days this is the previous day.
+ */
+function parseRelative(text: string, scope: ExpressionScope): Span | undefined {
+    const around = text.match(/^(?:around|about|near|סביב|בסביבות|בערך ב-?)\s?(.+)$/);
+    if (around) {
+        const target = parseSpan(around[1], scope);
+        if (!target) return undefined;
+        const midpoint = new Date((target.start.getTime() + target.end.getTime()) / 2);
+        return { start: shiftTime(midpoint, -1, 'hours', scope.timeZone), end: shiftTime(midpoint, 1, 'hours', scope.timeZone) };
+    }
+
+    const separators = / (before|prior to|after|לפני|אחרי)\s?/g;
+    let match: RegExpExecArray | null;
+    while ((match = separators.exec(text)) !== null) {
+        const duration = parseDuration(text.slice(0, match.index));
+        const target = duration && parseSpan(text.slice(match.index + match[0].length), scope);
+        if (!duration || !target) continue;
+
+        const after = match[1] === 'after' || match[1] === 'אחרי';
+        return after
+            ? { start: target.end, end: shiftTime(target.end, duration.amount, duration.unit, scope.timeZone) }
+            : { start: shiftTime(target.start, -duration.amount, duration.unit, scope.timeZone), end: target.start, wholeDays: target.wholeDays && duration.unit !== 'minutes' && duration.unit !== 'hours' };
+    }
+    return undefined;
+}
+
+/**
+ * "since X", "from X to Y", "between X and Y", "מאז X", "מ-X עד Y", "בין X ל-Y".
+ */
+function parseCompound(text: string, scope: ExpressionScope): Span | undefined {
+    const opening = text.match(/^(since|from|between|starting|starting from|מאז|החל מ-?|בין|מ-?)\s?(.+)$/);
+    if (!opening) return undefined;
+
+    const body = opening[2];
+    const separators = / (?:and|to|until|till|through|ו?עד|ל-?)\s?/g;
+    let match: RegExpExecArray | null;
+    while ((match = separators.exec(body)) !== null) {
+        const from = parseSpan(body.slice(0, match.index), scope);
+        const to = from && parseSpan(body.slice(match.index + match[0].length), scope);
+        if (from && to) return { start: from.start, end: to.end };
+    }
+
+    if (opening[1] === 'between' || opening[1] === 'בין') return undefined;
+    const from = parseSpan(body, scope);
+    return from ? { start: from.start, end: scope.now } : undefined;
+}
+
+function parseSpan(text: string, scope: ExpressionScope): Span | undefined {
+    const trimmed = text.trim().replace(/^(?:on|during|in) (?=\S)/, '');
+    if (!trimmed) return undefined;
+    return parseAnchor(trimmed, scope)
+        || parseDay(trimmed, scope)
+        || parseAgo(trimmed, scope)
+        || parseRollingWindow(trimmed, scope)
+        || parseRelative(trimmed, scope)
+        || parseCompound(trimmed, scope);
+}
+
+function normalizeExpression(expression: string): string {
+    return expression
+        .toLowerCase()
+        .replace(/[״“”]/g, '"')
+        .replace(/[?!,.]+$/g, '')
+        .replace(/(^|\s)([בלמו])[-־]\s?/g, '$1$2') // "ב-9" -> "ב9", "מ-אתמול" -> "מאתמול"
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Resolves a natural-language time expression (English or Hebrew) to a concrete range in the owner's time zone:
+ * "yesterday", "last week", "last weekend", "earlier today", "since Monday morning", "the day before the replied message",
+ * "2h before 2025-01-20T09:00", "אתמול בערב", "ב-3 הימים האחרונים", "מאז יום שני בבוקר".
+ * An expression naming a single instant ("3 days ago") means from then until now. The end is capped at now.
+ * Returns undefined if the expression is not understood, or it needs a replied message and there is none.
+ */
+export function resolveTimeExpression(expression: string, timeZone: string, context: TimeExpressionContext = {}): ResolvedTimeRange | undefined {
+    const scope: ExpressionScope = {
+        timeZone,
+        now: context.now || new Date(),
+        replied: context.replied,
+        weekStartsOn: context.weekStartsOn ?? 0
+    };
+    const span = parseSpan(normalizeExpression(expression), scope);
+    if (!span || span.start > scope.now) return undefined;
+
+    const end = span.end.getTime() === span.start.getTime() ? scope.now : span.end;
+    return { start: span.start, end: end > scope.now ? scope.now : end };
+}
+
+/**
+ * Whether an expression is understood, regardless of the current time or whether there is a replied message.
+ */
+export function isTimeExpression(expression: string): boolean {
+    const now = new Date();
+    const scope: ExpressionScope = { timeZone: 'UTC', now, replied: now, weekStartsOn: 0 };
+    return parseSpan(normalizeExpression(expression), scope) !== undefined;
+}
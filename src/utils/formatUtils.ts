@@ -0,0 +1,223 @@
+import { MessageContent, MessageContentComplex, MessageContentText } from '@langchain/core/messages';
+
+/**
+ * Post-processing of model answers for WhatsApp: Markdown to WhatsApp formatting and splitting of long answers.
+ * WhatsApp knows *bold*, _italic_, ~strike~, `inline code`, ```monospace blocks```, "> " quotes and "- " / "1. " lists.
+ */
+
+const FENCE = '```';
+// Wide tables don't fit a phone screen as a monospace block and are written as one record per row instead
+const MAX_MONOSPACE_TABLE_WIDTH = 40;
+// Room for the "(i/n) " prefix and a code fence closed/reopened at a split
+const SPLIT_RESERVE = 16;
+
+/**
+ * The text of a model response. Some providers (e.g. Anthropic) return an array of content blocks
+ * (text, thinking, tool use) instead of a string; only the text blocks are kept.
+ */
+function isTextPart(part: MessageContentComplex): part is MessageContentText {
+    return part.type === 'text' && typeof (part as MessageContentText).text === 'string';
+}
+
+export function getMessageText(content: MessageContent): string {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    return content
+        .map((part: string | MessageContentComplex) => typeof part === 'string' ? part : isTextPart(part) ? part.text : '')
+        .filter(text => text.length > 0)
+        .join('\n\n');
+}
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function isTableSeparator(line: string): boolean {
+    return /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+}
+
+/**
+ * Renders a Markdown table: a padded monospace block when it fits a phone screen,
+ * otherwise one bullet per row with "header: value" pairs. Cell formatting is stripped.
+ */
+function renderTable(lines: string[]): string {
+    const rows = lines.filter(line => !isTableSeparator(line)).map(line => splitTableRow(line).map(cell => cell.replace(/\*\*|__|`/g, '')));
+    if (rows.length === 0) return '';
+    const [header, ...body] = rows;
+    const columns = Math.max(...rows.map(row => row.length));
+    const widths = Array.from({ length: columns }, (_, i) => Math.max(...rows.map(row => (row[i] || '').length)));
+
+    if (widths.reduce((sum, width) => sum + width, 0) + (columns - 1) * 3 <= MAX_MONOSPACE_TABLE_WIDTH) {
+        const format = (row: string[]) => widths.map((width, i) => (row[i] || '').padEnd(width)).join(' | ').trimEnd();
+        const rule = widths.map(width => '-'.repeat(width)).join('-+-');
+        return [FENCE, format(header), rule, ...body.map(format), FENCE].join('\n');
+    }
+
+    if (columns === 2) {
+        return body.map(row => `- *${row[0]}*: ${row[1] || ''}`).join('\n');
+    }
+    return body.map(row => {
+        const fields = row.slice(1).map((cell, i) => cell ? `  ${header[i + 1] || ''}: ${cell}` : '').filter(Boolean);
+        return [`- *${row[0]}*`, ...fields].join('\n');
+    }).join('\n');
+}
+
+function formatItalic(text: string): string {
+    return text.replace(/(^|[^\w*])\*(?=\S)([^*\n]+?)(?<=\S)\*(?![\w*])/g, '$1_$2_');
+}
+
+/**
+ * Inline Markdown to WhatsApp: bold, italic, strikethrough, links and images. Inline code is kept as it is.
+ */
+function formatInline(line: string): string {
+    const codeSpans: string[] = [];
+    const bold: string[] = [];
+    let text = line.replace(/`[^`\n]+`/g, span => `\u0000C${codeSpans.push(span) - 1}\u0000`);
+
+    text = text
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt, url) => alt ? `${alt} (${url})` : url)
+        .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label, url) => label === url ? url : `${label} (${url})`)
+        // Bold is set aside so its '*' isn't read as italic
+        .replace(/\*\*\*(?=\S)(.+?)(?<=\S)\*\*\*/g, (_, inner) => `\u0000B${bold.push(`_${inner}_`) - 1}\u0000`)
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, (_, __, inner) => `\u0000B${bold.push(formatItalic(inner)) - 1}\u0000`);
+    text = formatItalic(text)
+        .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '~$1~');
+
+    return text
+        .replace(/\u0000B(\d+)\u0000/g, (_, i) => `*${bold[Number(i)]}*`)
+        .replace(/\u0000C(\d+)\u0000/g, (_, i) => codeSpans[Number(i)]);
+}
+
+/**
+ * Converts a Markdown answer to WhatsApp formatting. Code blocks are kept verbatim (without the language tag).
+ */
+export function toWhatsAppFormat(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const output: string[] = [];
+    let inCode = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (/^\s*```/.test(line)) {
+            output.push(FENCE);
+            inCode = !inCode;
+            continue;
+        }
+        if (inCode) {
+            output.push(line);
+            continue;
+        }
+
+        // Tables: a header row followed by a separator row
+        if (line.trim().startsWith('|') && i + 1 < lines.length && isTableSeparator(lines[i + 1])) {
+            const tableLines: string[] = [];
+            while (i < lines.length && lines[i].trim().startsWith('|')) tableLines.push(lines[i++]);
+            i--;
+            output.push(renderTable(tableLines));
+            continue;
+        }
+
+        const heading = line.match(/^\s*#{1,6}\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            output.push(`*${formatInline(heading[1]).replace(/^\*(.*)\*$/, '$1')}*`);
+            continue;
+        }
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            output.push('───────────');
+            continue;
+        }
+
+        const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+        if (bullet) {
+            const level = Math.floor(bullet[1].replace(/\t/g, '  ').length / 2);
+            output.push(`${'  '.repeat(level)}${level > 0 ? '◦' : '-'} ${formatInline(bullet[2])}`);
+            continue;
+        }
+
+        output.push(formatInline(line));
+    }
+    if (inCode) output.push(FENCE);
+
+    return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Cuts text that is longer than the limit: at a sentence end if there is one in the second half, else at whitespace.
+ */
+function cutText(text: string, maxLength: number): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > maxLength) {
+        const window = rest.slice(0, maxLength);
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('! '), window.lastIndexOf('? '), window.lastIndexOf('\n'));
+        const space = window.lastIndexOf(' ');
+        const at = sentenceEnd > maxLength / 2 ? sentenceEnd + 1 : space > maxLength / 2 ? space : maxLength;
+        pieces.push(rest.slice(0, at).trimEnd());
+        rest = rest.slice(at).trimStart();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+}
+
+/**
+ * Splits an answer into messages of at most `maxLength` characters, at paragraph, line or sentence
+ * boundaries, in that order of preference. Code blocks cut by a split are closed and reopened.
+ * Parts are numbered "(1/3) " when there is more than one; beyond `maxParts` the answer is truncated.
+ */
+export function splitMessage(text: string, maxLength: number, maxParts: number = Infinity): string[] {
+    if (text.length <= maxLength) return [text];
+    const limit = Math.max(maxLength - SPLIT_RESERVE, 1);
+
+    // Units packed into parts: whole paragraphs, or the lines (and sentences) of paragraphs that are too long
+    const units: { text: string; separator: string }[] = [];
+    for (const paragraph of text.split(/\n{2,}/)) {
+        const pieces = paragraph.length <= limit ? [paragraph] : paragraph.split('\n').flatMap(line => cutText(line, limit));
+        pieces.forEach((piece, i) => units.push({ text: piece, separator: i === 0 ? '\n\n' : '\n' }));
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    for (const unit of units) {
+        if (current && current.length + unit.separator.length + unit.text.length > limit) {
+            parts.push(current);
+            current = unit.text;
+        } else {
+            current += (current ? unit.separator : '') + unit.text;
+        }
+    }
+    if (current) parts.push(current);
+
+    // Keep code blocks balanced in every part
+    let openFence = false;
+    const balanced = parts.map(part => {
+        const reopened = openFence ? `${FENCE}\n${part}` : part;
+        openFence = ((reopened.match(/```/g) || []).length % 2) === 1;
+        return openFence ? `${reopened}\n${FENCE}` : reopened;
+    });
+
+    const kept = balanced.slice(0, maxParts);
+    if (kept.length < balanced.length) kept[kept.length - 1] += `\n\n_(…answer truncated)_`;
+    return kept.length === 1 ? kept : kept.map((part, i) => `(${i + 1}/${kept.length}) ${part}`);
+}
+
+/**
+ * Plain text for text-to-speech: formatting markers, headings, list bullets and URLs are removed,
+ * links keep their label and code blocks are left out.
+ */
+export function toSpeechText(markdown: string): string {
+    return markdown
+        .replace(/\r\n/g, '\n')
+        .replace(/```[\s\S]*?(```|$)/g, '')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/https?:\/\/\S+/g, '')
+        .replace(/^\s*#{1,6}\s+/gm, '')
+        .replace(/^\s*([-*+◦]|\d+\.)\s+/gm, '')
+        .replace(/^\s*>\s?/gm, '')
+        .replace(/^\s*[-*_─]{3,}\s*$/gm, '')
+        .replace(/[*_~`|]/g, '')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/^ | $/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,90 @@
+import { spawn } from 'child_process';
+import { MediaPayload } from '../transport/types';
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+const FFMPEG_TIMEOUT_MS = 20 * 1000;
+let ffmpegMissing = false;
+
+/**
+ * Reads the pixel size from a PNG, JPEG, GIF or WebP header. Returns undefined for other formats.
+ */
+export function getImageSize(buffer: Buffer): ImageSize | undefined {
+    if (buffer.length < 24) return undefined;
+
+    // PNG: IHDR chunk right after the signature
+    if (buffer.readUInt32BE(0) === 0x89504e47) {
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+    // GIF
+    if (buffer.toString('ascii', 0, 3) === 'GIF') {
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+    // WebP (lossy, lossless and extended)
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+        const chunk = buffer.toString('ascii', 12, 16);
+        if (chunk === 'VP8 ' && buffer.length >= 30) return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+        if (chunk === 'VP8L' && buffer.length >= 25) {
+            const bits = buffer.readUInt32LE(21);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === 'VP8X' && buffer.length >= 30) return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+        return undefined;
+    }
+    // JPEG: walk the segments up to the first SOF marker
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 9 < buffer.length) {
+            if (buffer[offset] !== 0xff) return undefined;
+            const marker = buffer[offset + 1];
+            const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+            if (isSof) return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+            offset += 2 + buffer.readUInt16BE(offset + 2);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Downscales an image so its longest side is at most `maxDimension`, re-encoded as JPEG.
+ * Needs the ffmpeg CLI; returns undefined if it is not installed or the conversion fails.
+ */
+export function downscaleImage(media: MediaPayload, maxDimension: number): Promise<MediaPayload | undefined> {
+    if (ffmpegMissing) return Promise.resolve(undefined);
+
+    return new Promise(resolve => {
+        const ffmpeg = spawn('ffmpeg', [
+            '-v', 'error',
+            '-i', 'pipe:0',
+            '-vf', `scale='min(${maxDimension},iw)':'min(${maxDimension},ih)':force_original_aspect_ratio=decrease`,
+            '-frames:v', '1',
+            '-f', 'image2pipe', '-c:v', 'mjpeg', '-q:v', '4',
+            'pipe:1'
+        ]);
+        const chunks: Buffer[] = [];
+        const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+
+        ffmpeg.stdout.on('data', chunk => chunks.push(chunk));
+        ffmpeg.on('error', (e: NodeJS.ErrnoException) => {
+            clearTimeout(timer);
+            if (e.code === 'ENOENT') {
+                ffmpegMissing = true;
+                console.warn(`[IMAGE] ffmpeg not found, images are sent at their original size.`);
+            } else {
+                console.error(`[IMAGE] ffmpeg failed`, e);
+            }
+            resolve(undefined);
+        });
+        ffmpeg.on('close', code => {
+            clearTimeout(timer);
+            if (code !== 0 || chunks.length === 0) return resolve(undefined);
+            resolve({ mimetype: 'image/jpeg', data: Buffer.concat(chunks).toString('base64'), filename: media.filename });
+        });
+
+        ffmpeg.stdin.on('error', () => { /* ffmpeg exited early, handled on close */ });
+        ffmpeg.stdin.end(Buffer.from(media.data, 'base64'));
+    });
+}
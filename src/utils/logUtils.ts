@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import mime from 'mime-types';
+
+export const LLM_LOG_ROOT = path.join(process.cwd(), '.llm_logs');
+
+/**
+ * Returns the directory of a query's logs: .llm_logs/<yymmdd-hhmmss>-<queryId>.
+ * Created on first use.
+ */
+export function getQueryLogDir(queryId: string, logTimestamp: string): string {
+    const dir = path.join(LLM_LOG_ROOT, `${logTimestamp}-${queryId}`);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+}
+
+/**
+ * Helper to save media to the query log directory.
+ * Returns the saved file path (relative to the working directory), or undefined on failure.
+ */
+export function saveMediaToLog(queryId: string, msgId: string, mimetype: string, dataBase64: string, logTimestamp: string): string | undefined {
+    if (!queryId) return undefined;
+    try {
+        const dir = getQueryLogDir(queryId, logTimestamp);
+
+        const ext = mime.extension(mimetype) || 'bin';
+        const filename = `${msgId.replace(/[^a-zA-Z0-9]/g, '_')}.${ext}`;
+        const filePath = path.join(dir, filename);
+
+        const buffer = Buffer.from(dataBase64, 'base64');
+        fs.writeFileSync(filePath, buffer);
+        console.log(`[LOG] Saved asset: ${filePath}`);
+        return path.relative(process.cwd(), filePath);
+    } catch (e) {
+        console.error(`[LOG] Failed to save asset for query ${queryId}:`, e);
+        return undefined;
+    }
+}
+
+/**
+ * Appends a JSON record as one line to a file in the query log directory.
+ */
+export function appendQueryLog(queryId: string, logTimestamp: string, filename: string, record: any) {
+    if (!queryId) return;
+    try {
+        const filePath = path.join(getQueryLogDir(queryId, logTimestamp), filename);
+        fs.appendFileSync(filePath, JSON.stringify(record) + '\n');
+    } catch (e) {
+        console.error(`[LOG] Failed to append ${filename} for query ${queryId}:`, e);
+    }
+}
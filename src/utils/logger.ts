@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import util from 'util';
+import { AppConfig, LogLevel } from '../config/config';
+import { appendQueryLog } from './logUtils';
+
+/**
+ * Who a log line is about. Set once per incoming message and inherited by everything it awaits
+ * (planner, executor, tools, transcription, LangChain callbacks).
+ */
+export interface LogContext {
+    chatId?: string;
+    sender?: string;
+    queryId?: string;
+    logTimestamp?: string; // Names the query's .llm_logs directory together with the query ID
+}
+
+export interface LogRecord {
+    time: string;
+    level: LogLevel;
+    component?: string; // The "[TAG]" of the line: CTX, PLANNER, AUDIO, ...
+    message: string;
+    queryId?: string;
+    chatId?: string;
+    sender?: string;
+    [field: string]: unknown;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+// Lines longer than this are cut in events.jsonl (a plan or a stack trace fits, a base64 blob doesn't)
+const MAX_EVENT_MESSAGE_CHARS = 10000;
+const TAG_PATTERN = /^\s*\[([A-Z][A-Z0-9 _-]*)\]:?\s*/;
+// Tags that only repeat the level ("[WARN] ...") are dropped rather than used as the component
+const LEVEL_TAGS = new Set(['DEBUG', 'INFO', 'WARN', 'ERROR']);
+
+const storage = new AsyncLocalStorage<LogContext>();
+const output = {
+    log: console.log.bind(console),
+    warn: console.warn.bind(console),
+    error: console.error.bind(console)
+};
+let settings: AppConfig | undefined;
+let writingEvent = false;
+
+/**
+ * Runs `fn` with a log context. Lines logged by it (and by anything it awaits) carry the context.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+    return storage.run({ ...context }, fn);
+}
+
+/**
+ * Adds to the current log context, e.g. the query ID once a message turns out to be a query.
+ */
+export function setLogContext(changes: Partial<LogContext>) {
+    const context = storage.getStore();
+    if (context) Object.assign(context, changes);
+}
+
+export function getLogContext(): LogContext | undefined {
+    return storage.getStore();
+}
+
+function formatPretty(record: LogRecord): string {
+    const { time, level, component, message, queryId, chatId, sender, ...fields } = record;
+    const ids = [queryId && `q=${queryId}`, chatId && `chat=${chatId}`, sender && sender !== chatId && `from=${sender}`].filter(Boolean);
+    const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+    return `${time.substring(11, 23)} ${level.toUpperCase().padEnd(5)} ${component ? `[${component}] ` : ''}${message}${extra}${ids.length > 0 ? ` (${ids.join(' ')})` : ''}`;
+}
+
+function writeQueryEvent(record: LogRecord, context: LogContext) {
+    // appendQueryLog reports its own failures through console.error; don't log those recursively
+    if (writingEvent || !context.queryId || !context.logTimestamp) return;
+    writingEvent = true;
+    try {
+        const message = record.message.length > MAX_EVENT_MESSAGE_CHARS ? `${record.message.substring(0, MAX_EVENT_MESSAGE_CHARS)}... [truncated]` : record.message;
+        appendQueryLog(context.queryId, context.logTimestamp, 'events.jsonl', { ...record, message });
+    } finally {
+        writingEvent = false;
+    }
+}
+
+/**
+ * Writes a structured log line: to the console (pretty or JSON, `logging.format`) if it is at least
+ * `logging.level`, and inside a query to the query's events.jsonl, which keeps every level.
+ */
+export function log(level: LogLevel, component: string | undefined, message: string, fields: Record<string, unknown> = {}) {
+    const logging = settings?.logging;
+    const toConsole = !logging || LEVELS[level] >= LEVELS[logging.level];
+    const context = storage.getStore() || {};
+    const record: LogRecord = {
+        time: new Date().toISOString(),
+        level,
+        ...(component ? { component } : {}),
+        message,
+        ...(context.queryId ? { queryId: context.queryId } : {}),
+        ...(context.chatId ? { chatId: context.chatId } : {}),
+        ...(context.sender ? { sender: context.sender } : {}),
+        ...fields
+    };
+
+    if (toConsole) {
+        const line = logging?.format === 'json' ? JSON.stringify(record) : formatPretty(record);
+        const write = level === 'error' ? output.error : level === 'warn' ? output.warn : output.log;
+        write(line);
+    }
+
+    if (logging?.queryEvents !== false) writeQueryEvent(record, context);
+}
+
+export const logger = {
+    debug: (component: string, message: string, fields?: Record<string, unknown>) => log('debug', component, message, fields),
+    info: (component: string, message: string, fields?: Record<string, unknown>) => log('info', component, message, fields),
+    warn: (component: string, message: string, fields?: Record<string, unknown>) => log('warn', component, message, fields),
+    error: (component: string, message: string, fields?: Record<string, unknown>) => log('error', component, message, fields)
+};
+
+/**
+ * Routes console.log/info/debug/warn/error through the structured logger, so the existing "[TAG] message"
+ * lines get levels, the query/chat/sender context and a place in events.jsonl. The leading [TAG] becomes
+ * the component. `config` is read on every line, so `logging` changes apply on a config reload.
+ */
+export function installConsoleLogger(config: AppConfig) {
+    settings = config;
+    const route = (level: LogLevel) => (...args: unknown[]) => {
+        const text = util.format(...args).replace(/^\n+/, '');
+        const tag = text.match(TAG_PATTERN);
+        const component = tag && !LEVEL_TAGS.has(tag[1]) ? tag[1] : undefined;
+        log(level, component, tag ? text.substring(tag[0].length) : text);
+    };
+    console.log = route('info');
+    console.info = route('info');
+    console.debug = route('debug');
+    console.warn = route('warn');
+    console.error = route('error');
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './mathUtils';
+
+describe('evaluateExpression', () => {
+    it('follows operator precedence and associativity', () => {
+        expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+        expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+        expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+        expect(evaluateExpression('17 % 5')).toBe(2);
+        expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+        expect(evaluateExpression('2 ** 10')).toBe(1024);
+        expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+        expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+        expect(evaluateExpression('--3')).toBe(3);
+    });
+
+    it('reads decimals and scientific notation in either case', () => {
+        expect(evaluateExpression('.5 + 0.25')).toBe(0.75);
+        expect(evaluateExpression('1e3')).toBe(1000);
+        expect(evaluateExpression('1E3')).toBe(1000);
+        expect(evaluateExpression('2.5E-3')).toBe(0.0025);
+    });
+
+    it('supports constants and functions case-insensitively', () => {
+        expect(evaluateExpression('PI')).toBe(Math.PI);
+        expect(evaluateExpression('e')).toBe(Math.E);
+        expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6);
+        expect(evaluateExpression('round(pi, 2)')).toBe(3.14);
+        expect(evaluateExpression('Round(2.5)')).toBe(3);
+        expect(evaluateExpression('max(1, 7, 3) - min(4, 2)')).toBe(5);
+        expect(evaluateExpression('pow(2, 100)')).toBe(2 ** 100);
+        expect(evaluateExpression('log(1000) + ln(e)')).toBe(4);
+    });
+
+    it('strips thousands separators outside function calls', () => {
+        expect(evaluateExpression('1,000,000 * 2')).toBe(2_000_000);
+        expect(evaluateExpression('(1,250 + 750) / 2')).toBe(1000);
+        expect(evaluateExpression('max(1,500)')).toBe(500);
+    });
+
+    it('rejects unknown identifiers, including Object.prototype members', () => {
+        expect(() => evaluateExpression('constructor')).toThrow('Unknown identifier: constructor');
+        expect(() => evaluateExpression('toString(1)')).toThrow('Unknown identifier: tostring');
+        expect(() => evaluateExpression('__proto__')).toThrow('Unknown identifier: __proto__');
+        expect(() => evaluateExpression('hasOwnProperty(1)')).toThrow('Unknown identifier');
+        expect(() => evaluateExpression('x + 1')).toThrow('Unknown identifier: x');
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+        expect(() => evaluateExpression('1 +')).toThrow('Unexpected end of expression');
+        expect(() => evaluateExpression('1 2')).toThrow('Unexpected token: 2');
+        expect(() => evaluateExpression('2 $ 3')).toThrow('Unexpected character at position 1');
+        expect(() => evaluateExpression('sqrt 4')).toThrow('Expected "("');
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Safe arithmetic evaluator for LLM tool calls (no eval).
+ * Supports + - * / % ^, parentheses, unary minus, constants (pi, e) and common functions.
+ */
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    round: (x: number, digits: number = 0) => Math.round(x * 10 ** digits) / 10 ** digits,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow,
+    log: Math.log10,
+    ln: Math.log,
+    exp: Math.exp,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E
+};
+
+type Token = { type: 'num'; value: number } | { type: 'id'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    const re = /\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/iy;
+    let pos = 0;
+
+    while (pos < expression.length) {
+        if (/^\s*$/.test(expression.slice(pos))) break;
+        re.lastIndex = pos;
+        const match = re.exec(expression);
+        if (!match) throw new Error(`Unexpected character at position ${pos}: "${expression.slice(pos, pos + 10)}"`);
+        pos = re.lastIndex;
+
+        if (match[1] !== undefined) tokens.push({ type: 'num', value: parseFloat(match[1]) });
+        else if (match[2] !== undefined) tokens.push({ type: 'id', value: match[2].toLowerCase() });
+        else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    }
+    return tokens;
+}
+
+/**
+ * Removes thousands separators commonly typed in chats (1,000,000). Inside function calls commas separate
+ * the arguments (max(1,500)), so they are kept there.
+ */
+function stripThousandsSeparators(expression: string): string {
+    const calls: boolean[] = []; // Per open parenthesis: whether it belongs to a function call
+    let result = '';
+    for (let i = 0; i < expression.length; i++) {
+        const c = expression[i];
+        if (c === '(') calls.push(/[A-Za-z_]\s*$/.test(result));
+        else if (c === ')') calls.pop();
+        else if (c === ',' && !calls.includes(true) && /\d$/.test(result) && /^\d{3}\b/.test(expression.substring(i + 1))) continue;
+        result += c;
+    }
+    return result;
+}
+
+export function evaluateExpression(expression: string): number {
+    const tokens = tokenize(stripThousandsSeparators(expression));
+    let i = 0;
+
+    const peek = () => tokens[i];
+    const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value;
+    const expectOp = (value: string) => {
+        if (!isOp(value)) throw new Error(`Expected "${value}"`);
+        i++;
+    };
+
+    // expr := term (('+' | '-') term)*
+    const parseExpr = (): number => {
+        let value = parseTerm();
+        while (isOp('+') || isOp('-')) {
+            const op = tokens[i++].value;
+            const rhs = parseTerm();
+            value = op === '+' ? value + rhs : value - rhs;
+        }
+        return value;
+    };
+
+    // term := unary (('*' | '/' | '%') unary)*
+    const parseTerm = (): number => {
+        let value = parseUnary();
+        while (isOp('*') || isOp('/') || isOp('%')) {
+            const op = tokens[i++].value;
+            const rhs = parseUnary();
+            if (op === '*') value *= rhs;
+            else if (op === '/') value /= rhs;
+            else value %= rhs;
+        }
+        return value;
+    };
+
+    // unary := ('-' | '+') unary | power   (so -2^2 = -4)
+    const parseUnary = (): number => {
+        if (isOp('-')) { i++; return -parseUnary(); }
+        if (isOp('+')) { i++; return parseUnary(); }
+        return parsePower();
+    };
+
+    // power := primary ('^' unary)?   (right associative)
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (isOp('^')) {
+            i++;
+            return Math.pow(base, parseUnary());
+        }
+        return base;
+    };
+
+    const parsePrimary = (): number => {
+        const token = tokens[i++];
+        if (!token) throw new Error("Unexpected end of expression");
+
+        if (token.type === 'num') return token.value;
+
+        if (token.type === 'op' && token.value === '(') {
+            const value = parseExpr();
+            expectOp(')');
+            return value;
+        }
+
+        if (token.type === 'id') {
+            // Own keys only: "constructor" and the like must not resolve to Object.prototype members
+            if (Object.hasOwn(CONSTANTS, token.value) && !isOp('(')) return CONSTANTS[token.value];
+            const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+            if (!fn) throw new Error(`Unknown identifier: ${token.value}`);
+
+            expectOp('(');
+            const args: number[] = [];
+            if (!isOp(')')) {
+                args.push(parseExpr());
+                while (isOp(',')) { i++; args.push(parseExpr()); }
+            }
+            expectOp(')');
+            return fn(...args);
+        }
+
+        throw new Error(`Unexpected token: ${token.value}`);
+    };
+
+    const result = parseExpr();
+    if (i < tokens.length) throw new Error(`Unexpected token: ${tokens[i].value}`);
+    return result;
+}
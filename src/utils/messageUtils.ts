@@ -1,19 +1,18 @@
-import { Message } from 'whatsapp-web.js';
+import { ChatMessage } from '../transport/types';
 import { AppConfig } from '../config/config';
 
 // Constants for hardcoded values that aren't yet in config but should be consistent
 const TRANSCRIBE_PREFIXES = ["@transcribe", "@t"];
 
 /**
- * Gets a robust sender name from a WhatsApp message.
- * Prioritizes Contact Name > Pushname > Phone Number.
+ * Gets a robust sender name from a chat message.
+ * Falls back to the sender ID if the transport cannot resolve a name.
  */
-export async function getSenderName(msg: Message): Promise<string> {
+export async function getSenderName(msg: ChatMessage): Promise<string> {
     try {
-        const contact = await msg.getContact();
-        return contact.name || contact.pushname || msg.from;
+        return await msg.getSenderName();
     } catch (e) {
-        return msg.from;
+        return msg.senderId;
     }
 }
 
@@ -65,3 +64,17 @@ export function isTriggeredMessage(body: string, config: AppConfig): boolean {
 export function isExplicitTranscription(body: string): boolean {
     return TRANSCRIBE_PREFIXES.some(t => body.startsWith(t));
 }
+
+/**
+ * Checks if a message was sent by the bot owner (the linked account or a configured owner ID).
+ */
+export function isOwner(message: ChatMessage, config: AppConfig): boolean {
+    return message.fromMe || config.bot.ownerIds.includes(message.senderId);
+}
+
+/**
+ * Fills `{placeholder}` tokens in a configurable message template.
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key) => key in values ? String(values[key]) : match);
+}
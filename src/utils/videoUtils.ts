@@ -0,0 +1,79 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { runCommand } from './audioUtils';
+
+const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface VideoFrame {
+    path: string;
+    timestamp?: number; // Seconds from the start; unknown when the duration could not be read
+}
+
+function scaleFilter(maxDimension: number): string {
+    return `scale='min(${maxDimension},iw)':'min(${maxDimension},ih)':force_original_aspect_ratio=decrease`;
+}
+
+/**
+ * Whether a media file has an audio stream (ffprobe). Undefined if ffprobe is missing or can't read it.
+ */
+export async function hasAudioStream(filePath: string): Promise<boolean | undefined> {
+    try {
+        const result = await runCommand('ffprobe', ['-v', 'error', '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', filePath], 30 * 1000);
+        return result.code === 0 ? result.stdout.trim().length > 0 : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Extracts `count` JPEG frames, at most `maxDimension` pixels on the longest side. With a known duration the frames
+ * are spread evenly over the video (the middle of each equal part); otherwise the first keyframes are taken.
+ * Needs the ffmpeg CLI; rejects with code ENOENT if it is not installed.
+ */
+export async function extractFrames(inputPath: string, outputDir: string, count: number, maxDimension: number, duration?: number): Promise<VideoFrame[]> {
+    await fs.ensureDir(outputDir);
+
+    if (!duration) {
+        const result = await runCommand('ffmpeg', [
+            '-v', 'error', '-y',
+            '-skip_frame', 'nokey', '-i', inputPath,
+            '-vf', scaleFilter(maxDimension), '-fps_mode', 'vfr',
+            '-frames:v', String(count), '-q:v', '4',
+            path.join(outputDir, 'frame%02d.jpg')
+        ], FFMPEG_TIMEOUT_MS);
+        if (result.code !== 0) throw new Error(`ffmpeg failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+        const files = (await fs.readdir(outputDir)).filter(f => f.startsWith('frame') && f.endsWith('.jpg')).sort();
+        return files.map(f => ({ path: path.join(outputDir, f) }));
+    }
+
+    const frames: VideoFrame[] = [];
+    for (let i = 0; i < count; i++) {
+        const timestamp = (duration * (i + 0.5)) / count;
+        const output = path.join(outputDir, `frame${String(i).padStart(2, '0')}.jpg`);
+        // -ss before -i seeks to the nearest keyframe first, so long videos are not decoded from the start
+        const result = await runCommand('ffmpeg', [
+            '-v', 'error', '-y',
+            '-ss', timestamp.toFixed(2), '-i', inputPath,
+            '-vf', scaleFilter(maxDimension),
+            '-frames:v', '1', '-q:v', '4',
+            output
+        ], FFMPEG_TIMEOUT_MS);
+        if (result.code !== 0) throw new Error(`ffmpeg failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+        if (fs.existsSync(output)) frames.push({ path: output, timestamp });
+    }
+    return frames;
+}
+
+/**
+ * Extracts the audio track as 16 kHz mono ogg/opus, ready for transcription. Needs the ffmpeg CLI.
+ */
+export async function extractAudioTrack(inputPath: string, outputPath: string): Promise<void> {
+    const result = await runCommand('ffmpeg', [
+        '-v', 'error', '-y',
+        '-i', inputPath,
+        '-vn', '-ac', '1', '-ar', '16000',
+        '-c:a', 'libopus', '-b:a', '32k',
+        outputPath
+    ], FFMPEG_TIMEOUT_MS);
+    if (result.code !== 0) throw new Error(`ffmpeg failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+}